@@ -1,13 +1,39 @@
 import {
+    CaptureUpdateAction,
     convertToExcalidrawElements,
     Excalidraw,
+    hashElementsVersion,
+    restoreElements,
 } from "@excalidraw/excalidraw";
 // Excalidraw needs its stylesheet for layout/sizing to behave correctly
 import "@excalidraw/excalidraw/index.css";
 import type { ExcalidrawImperativeAPI } from "@excalidraw/excalidraw/types";
 import { useNuwa } from "@nuwa-ai/ui-kit";
 import { useCallback, useEffect, useRef, useState } from "react";
+import { AgentHighlights } from "./components/AgentHighlights";
 import { useExcalidrawMCP } from "./hooks/UseExcalidrawMcp";
+import { createChangeFeed } from "./utils/changeFeed";
+import {
+    DEFAULT_PAGE_NAME,
+    emptyPage,
+    type PageStore,
+    pageIdFor,
+    pageInfo,
+    type StoredPage,
+} from "./utils/pages";
+import { buildPersistedState, migrateState } from "./utils/persistedState";
+import { elementsToSkeletons } from "./utils/reconcile";
+import { describeSelection, selectionForChat } from "./utils/selection";
+import type { DiagramType } from "./utils/semantics";
+import type { Theme } from "./utils/styles";
+import type { SavedComponent } from "./utils/templates";
+import { layoutSkeletons } from "./utils/textLayout";
+
+const FIRST_PAGE_ID = "page_1";
+// How long elements stay outlined after an agent write
+const AGENT_HIGHLIGHT_MS = 2500;
+// Hand edits go to the change feed once the user pauses this long
+const USER_CHANGE_IDLE_MS = 800;
 
 export function ExcalidrawArtifact() {
     const [api, setApi] = useState<ExcalidrawImperativeAPI | null>(null);
@@ -17,37 +43,356 @@ export function ExcalidrawArtifact() {
     // Canonical skeleton store used by both MCP tools and debug buttons
     const [skeletons, setSkeletonsState] = useState<any[]>([]);
     const skeletonRef = useRef<any[]>(skeletons);
-    useEffect(() => {
-        skeletonRef.current = skeletons;
-    }, [skeletons]);
+    const apiRef = useRef<ExcalidrawImperativeAPI | null>(null);
+    apiRef.current = api;
 
-    // Stable helpers we pass into the MCP hook
-    const getSkeletons = useCallback(() => skeletonRef.current, []);
-    const setSkeletons = useCallback(
-        (next: any[] | ((prev: any[]) => any[])) => {
-            setSkeletonsState((prev) =>
-                typeof next === "function" ? (next as any)(prev) : next,
+    // Sync state between the canvas and the skeleton store:
+    // - sceneHashRef: version hash of the scene we last rendered from skeletons
+    // - dirtyRef: the user changed the canvas since then; re-derive on next read
+    // - writtenRef: tools have written skeletons at least once (until then the
+    //   canvas shows the restored drawing and must not be rebuilt from [])
+    const sceneHashRef = useRef<number | null>(null);
+    const dirtyRef = useRef(false);
+    const writtenRef = useRef(false);
+
+    // Pages: the active one is what Excalidraw and the refs above hold; the
+    // others wait in pagesRef, whose entry for the active page is refreshed
+    // whenever the document is saved
+    const pagesRef = useRef<StoredPage[]>([
+        emptyPage(FIRST_PAGE_ID, DEFAULT_PAGE_NAME),
+    ]);
+    const activePageRef = useRef(FIRST_PAGE_ID);
+    const [pageTabs, setPageTabs] = useState<{ id: string; name: string }[]>(
+        () => pagesRef.current.map(({ id, name }) => ({ id, name })),
+    );
+    const [activePage, setActivePage] = useState(FIRST_PAGE_ID);
+    const syncPageTabs = useCallback(() => {
+        setPageTabs(pagesRef.current.map(({ id, name }) => ({ id, name })));
+        setActivePage(activePageRef.current);
+    }, []);
+
+    // Change feed of user and agent edits. Agent writes on the shown page
+    // are outlined for a moment; hand edits are diffed against
+    // userBaseRef, the canvas as of the last recorded change.
+    const [agentEdits, setAgentEdits] = useState<string[]>([]);
+    const highlightTimerRef = useRef<number | undefined>(undefined);
+    const [changeFeed] = useState(() =>
+        createChangeFeed((entry) => {
+            if (entry.source !== "agent") return;
+            if (entry.page !== activePageRef.current) return;
+            const ids = entry.changes
+                .filter((c) => c.kind !== "removed")
+                .map((c) => c.id);
+            if (ids.length === 0) return;
+            setAgentEdits((prev) => [...new Set([...prev, ...ids])]);
+            window.clearTimeout(highlightTimerRef.current);
+            highlightTimerRef.current = window.setTimeout(
+                () => setAgentEdits([]),
+                AGENT_HIGHLIGHT_MS,
             );
+        }),
+    );
+    const userBaseRef = useRef<any[]>([]);
+    const userIdleTimerRef = useRef<number | undefined>(undefined);
+
+    // Stable helpers we pass into the MCP hook.
+    // The ref is updated eagerly so back-to-back tool calls (and history
+    // snapshots) see the latest skeletons before React re-renders.
+    const getSkeletons = useCallback(
+        (pageId?: string) => {
+            if (pageId && pageId !== activePageRef.current) {
+                return (
+                    pagesRef.current.find((p) => p.id === pageId)?.skeletons ??
+                    []
+                );
+            }
+            const apiNow = apiRef.current;
+            if (dirtyRef.current && apiNow) {
+                const next = elementsToSkeletons(apiNow.getSceneElements());
+                changeFeed.record(
+                    "user",
+                    activePageRef.current,
+                    userBaseRef.current,
+                    next,
+                );
+                userBaseRef.current = next;
+                skeletonRef.current = next;
+                dirtyRef.current = false;
+                // Later onChange calls for scrolling or selection are not edits
+                sceneHashRef.current = hashElementsVersion(
+                    apiNow.getSceneElementsIncludingDeleted(),
+                );
+            }
+            return skeletonRef.current;
+        },
+        [changeFeed],
+    );
+
+    // Saved components and the style theme live next to the drawing in
+    // nuwa state
+    const componentsRef = useRef<Record<string, SavedComponent>>({});
+    const themeRef = useRef<Theme | null>(null);
+
+    // Copy the live canvas into the active page's entry. The skeletons are
+    // the last ones derived: a pending user edit is folded in (and recorded
+    // in the change feed) by getSkeletons once the user pauses or a tool
+    // reads the canvas, not on every onChange frame.
+    const snapshotActivePage = useCallback(
+        (elements?: readonly any[], appState?: any) => {
+            const apiNow = apiRef.current;
+            const live = elements ?? apiNow?.getSceneElements();
+            const view = appState ?? apiNow?.getAppState();
+            pagesRef.current = pagesRef.current.map((p) =>
+                p.id !== activePageRef.current
+                    ? p
+                    : {
+                          ...p,
+                          elements: live ? [...live] : p.elements,
+                          skeletons: skeletonRef.current,
+                          view: view
+                              ? {
+                                    scrollX: view.scrollX,
+                                    scrollY: view.scrollY,
+                                    zoom: view.zoom?.value ?? 1,
+                                }
+                              : p.view,
+                      },
+            );
+            return pagesRef.current;
         },
         [],
     );
-    // Rebuild whole scene whenever skeletons change
+    const save = useCallback(
+        (
+            elements?: readonly any[],
+            appState?: any,
+            files?: Record<string, any>,
+        ) => {
+            const apiNow = apiRef.current;
+            if (!apiNow && !appState) return;
+            nuwa.saveState(
+                buildPersistedState(
+                    snapshotActivePage(elements, appState),
+                    activePageRef.current,
+                    appState ?? apiNow!.getAppState(),
+                    files ?? apiNow!.getFiles(),
+                    componentsRef.current,
+                    themeRef.current,
+                ),
+            );
+        },
+        [nuwa, snapshotActivePage],
+    );
+
+    const setSkeletons = useCallback(
+        (next: any[] | ((prev: any[]) => any[]), pageId?: string) => {
+            // Pages in the background are not rendered; keep their elements
+            // in step with the skeletons so they show up on switch
+            if (pageId && pageId !== activePageRef.current) {
+                pagesRef.current = pagesRef.current.map((p) => {
+                    if (p.id !== pageId) return p;
+                    const resolved =
+                        typeof next === "function" ? next(p.skeletons) : next;
+                    return {
+                        ...p,
+                        skeletons: resolved,
+                        elements: convertToExcalidrawElements(
+                            layoutSkeletons(resolved) as any,
+                            { regenerateIds: false },
+                        ) as any[],
+                    };
+                });
+                save();
+                return;
+            }
+            const resolved =
+                typeof next === "function" ? next(getSkeletons()) : next;
+            skeletonRef.current = resolved;
+            writtenRef.current = true;
+            setSkeletonsState(resolved);
+        },
+        [getSkeletons, save],
+    );
+    // Rebuild whole scene whenever tools write new skeletons
     useEffect(() => {
-        if (!api) return;
-        const elements = convertToExcalidrawElements(skeletons as any, {
-            regenerateIds: false,
-        });
+        if (!api || !writtenRef.current) return;
+        const elements = convertToExcalidrawElements(
+            layoutSkeletons(skeletons) as any,
+            { regenerateIds: false },
+        );
         api.updateScene({ elements: elements as any });
+        sceneHashRef.current = hashElementsVersion(
+            api.getSceneElementsIncludingDeleted(),
+        );
+        dirtyRef.current = false;
+        userBaseRef.current = elementsToSkeletons(api.getSceneElements());
     }, [api, skeletons]);
 
+    // The canvas did not change, so onChange will not save these
+    const getComponents = useCallback(() => componentsRef.current, []);
+    const setComponents = useCallback(
+        (next: Record<string, SavedComponent>) => {
+            componentsRef.current = next;
+            save();
+        },
+        [save],
+    );
+    const getTheme = useCallback(() => themeRef.current, []);
+    const setTheme = useCallback(
+        (next: Theme | null) => {
+            themeRef.current = next;
+            save();
+        },
+        [save],
+    );
+    const getDiagramType = useCallback(
+        (pageId?: string) =>
+            pagesRef.current.find(
+                (p) => p.id === (pageId ?? activePageRef.current),
+            )?.diagramType ?? null,
+        [],
+    );
+    const setDiagramType = useCallback(
+        (next: DiagramType | null, pageId?: string) => {
+            const id = pageId ?? activePageRef.current;
+            pagesRef.current = pagesRef.current.map((p) =>
+                p.id === id ? { ...p, diagramType: next } : p,
+            );
+            save();
+        },
+        [save],
+    );
+
+    // Show another page: park the current one and load the target's
+    // elements and view without an undo entry
+    const switchPage = useCallback(
+        (id: string) => {
+            const apiNow = apiRef.current;
+            const target = pagesRef.current.find((p) => p.id === id);
+            if (!apiNow || !target || id === activePageRef.current) return;
+            // Settle edits on the page being left before parking it
+            window.clearTimeout(userIdleTimerRef.current);
+            getSkeletons();
+            snapshotActivePage();
+            // A page never shown yet opens where the current one is scrolled
+            const current = apiNow.getAppState();
+            const view = target.view ?? {
+                scrollX: current.scrollX,
+                scrollY: current.scrollY,
+                zoom: current.zoom.value,
+            };
+            activePageRef.current = id;
+            skeletonRef.current = target.skeletons;
+            dirtyRef.current = false;
+            apiNow.updateScene({
+                elements: target.elements,
+                appState: {
+                    selectedElementIds: {},
+                    scrollX: view.scrollX,
+                    scrollY: view.scrollY,
+                    zoom: { value: view.zoom as any },
+                },
+                captureUpdate: CaptureUpdateAction.NEVER,
+            });
+            // Canvas undo must not reach back into the previous page
+            apiNow.history.clear();
+            sceneHashRef.current = hashElementsVersion(
+                apiNow.getSceneElementsIncludingDeleted(),
+            );
+            userBaseRef.current = elementsToSkeletons(target.elements);
+            setAgentEdits([]);
+            syncPageTabs();
+            save();
+        },
+        [getSkeletons, snapshotActivePage, syncPageTabs, save],
+    );
+    const createPage = useCallback(
+        (name: string) => {
+            const page = emptyPage(pageIdFor(name, pagesRef.current), name);
+            pagesRef.current = [...pagesRef.current, page];
+            syncPageTabs();
+            save();
+            return pageInfo(page, activePageRef.current);
+        },
+        [syncPageTabs, save],
+    );
+    const deletePage = useCallback(
+        (id: string) => {
+            const index = pagesRef.current.findIndex((p) => p.id === id);
+            if (index < 0 || pagesRef.current.length === 1) return;
+            if (id === activePageRef.current) {
+                const neighbour =
+                    pagesRef.current[index + 1] ?? pagesRef.current[index - 1];
+                switchPage(neighbour.id);
+            }
+            pagesRef.current = pagesRef.current.filter((p) => p.id !== id);
+            syncPageTabs();
+            save();
+        },
+        [switchPage, syncPageTabs, save],
+    );
+    const pageStore: PageStore = {
+        list: () =>
+            snapshotActivePage().map((p) => pageInfo(p, activePageRef.current)),
+        active: () => activePageRef.current,
+        create: createPage,
+        switchTo: switchPage,
+        remove: deletePage,
+        elements: (id) =>
+            id === activePageRef.current
+                ? (apiRef.current?.getSceneElements() ?? [])
+                : (pagesRef.current.find((p) => p.id === id)?.elements ?? []),
+    };
+
     // Start MCP tools when API is ready
-    useExcalidrawMCP(api, { getSkeletons, setSkeletons });
+    useExcalidrawMCP(api, {
+        getSkeletons,
+        setSkeletons,
+        getComponents,
+        setComponents,
+        getTheme,
+        setTheme,
+        getDiagramType,
+        setDiagramType,
+        pages: pageStore,
+        changes: changeFeed,
+    });
 
+    // Restore the saved pages and the skeleton model behind each, so the
+    // first MCP write after a reload edits the drawing instead of replacing it
     useEffect(() => {
         if (nuwa) {
-            setInitialData(nuwa.getState() as any);
+            setInitialData(
+                nuwa.getState().then((raw: unknown) => {
+                    const state = migrateState(raw);
+                    if (!state) return null;
+                    const active =
+                        state.pages.find((p) => p.id === state.activePage) ??
+                        state.pages[0];
+                    // Restore up front so the hash matches the scene the first
+                    // onChange reports; otherwise that onChange looks like a
+                    // user edit and the saved skeletons get rebuilt from the
+                    // elements, dropping what does not round-trip
+                    const elements = restoreElements(active.elements, null, {
+                        repairBindings: true,
+                    });
+                    pagesRef.current = state.pages;
+                    activePageRef.current = active.id;
+                    skeletonRef.current = active.skeletons;
+                    userBaseRef.current = elementsToSkeletons(elements);
+                    sceneHashRef.current = hashElementsVersion(elements);
+                    componentsRef.current = state.components;
+                    themeRef.current = state.theme;
+                    syncPageTabs();
+                    return {
+                        elements,
+                        appState: state.appState,
+                        files: state.files,
+                    };
+                }),
+            );
         }
-    }, [nuwa]);
+    }, [nuwa, syncPageTabs]);
 
     return (
         <div className="h-screen w-full relative">
@@ -58,9 +403,76 @@ export function ExcalidrawArtifact() {
                     appState: any,
                     files: Record<string, any>,
                 ) => {
-                    nuwa.saveState({ elements, appState, files });
+                    // Any scene change we did not render ourselves is a user edit
+                    if (
+                        hashElementsVersion(elements) !== sceneHashRef.current
+                    ) {
+                        dirtyRef.current = true;
+                        // Once the user pauses, reading the skeletons records the
+                        // edit in the feed; saving again persists them
+                        window.clearTimeout(userIdleTimerRef.current);
+                        userIdleTimerRef.current = window.setTimeout(() => {
+                            getSkeletons();
+                            save();
+                        }, USER_CHANGE_IDLE_MS);
+                    }
+                    save(elements, appState, files);
                 }}
                 excalidrawAPI={(api: ExcalidrawImperativeAPI) => setApi(api)}
+                renderTopRightUI={(_isMobile, appState) => {
+                    const count = Object.values(
+                        appState.selectedElementIds,
+                    ).filter(Boolean).length;
+                    return (
+                        <div className="flex items-center gap-2">
+                            {count > 0 && (
+                                <button
+                                    type="button"
+                                    className="rounded-md border border-gray-200 bg-white px-3 py-1.5 text-sm shadow-sm hover:bg-gray-50 dark:border-gray-700 dark:bg-gray-900 dark:hover:bg-gray-800"
+                                    onClick={() => {
+                                        if (!api) return;
+                                        const selected = describeSelection(
+                                            api.getSceneElements(),
+                                            api.getAppState()
+                                                .selectedElementIds,
+                                        );
+                                        if (selected.length === 0) return;
+                                        const { label, message } =
+                                            selectionForChat(selected);
+                                        nuwa.addSelection(label, message);
+                                    }}
+                                >
+                                    Add to chat
+                                </button>
+                            )}
+                            <select
+                                aria-label="Page"
+                                className="rounded-md border border-gray-200 bg-white px-2 py-1.5 text-sm shadow-sm dark:border-gray-700 dark:bg-gray-900"
+                                value={activePage}
+                                onChange={(e) => switchPage(e.target.value)}
+                            >
+                                {pageTabs.map((p) => (
+                                    <option key={p.id} value={p.id}>
+                                        {p.name}
+                                    </option>
+                                ))}
+                            </select>
+                            <button
+                                type="button"
+                                title="New page"
+                                className="rounded-md border border-gray-200 bg-white px-2.5 py-1.5 text-sm shadow-sm hover:bg-gray-50 dark:border-gray-700 dark:bg-gray-900 dark:hover:bg-gray-800"
+                                onClick={() => {
+                                    const page = createPage(
+                                        `Page ${pagesRef.current.length + 1}`,
+                                    );
+                                    switchPage(page.id);
+                                }}
+                            >
+                                +
+                            </button>
+                        </div>
+                    );
+                }}
                 UIOptions={{
                     canvasActions: {
                         loadScene: false,
@@ -68,7 +480,7 @@ export function ExcalidrawArtifact() {
                     },
                 }}
             />
-
+            <AgentHighlights api={api} ids={agentEdits} />
         </div>
     );
 }
@@ -0,0 +1,60 @@
+import {
+    getCommonBounds,
+    sceneCoordsToViewportCoords,
+} from "@excalidraw/excalidraw";
+import type { ExcalidrawImperativeAPI } from "@excalidraw/excalidraw/types";
+import { useEffect, useState } from "react";
+
+// Space between an element and its outline, in screen pixels
+const OUTLINE_GAP = 6;
+
+// Pulsing outlines over elements the agent just wrote, so the user can
+// follow a diagram as it is built. Outlines track scrolling and zooming.
+export function AgentHighlights({
+    api,
+    ids,
+}: {
+    api: ExcalidrawImperativeAPI | null;
+    ids: readonly string[];
+}) {
+    const [, setFrame] = useState(0);
+    useEffect(() => {
+        if (!api || ids.length === 0) return;
+        const redraw = () => setFrame((n) => n + 1);
+        const offChange = api.onChange(redraw);
+        const offScroll = api.onScrollChange(redraw);
+        return () => {
+            offChange();
+            offScroll();
+        };
+    }, [api, ids]);
+
+    if (!api || ids.length === 0) return null;
+    const appState = api.getAppState();
+    const zoom = appState.zoom.value;
+    const wanted = new Set(ids);
+    const elements = api.getSceneElements().filter((e) => wanted.has(e.id));
+    return (
+        <div className="pointer-events-none absolute inset-0 overflow-hidden">
+            {elements.map((e) => {
+                const [x1, y1, x2, y2] = getCommonBounds([e]);
+                const topLeft = sceneCoordsToViewportCoords(
+                    { sceneX: x1, sceneY: y1 },
+                    appState,
+                );
+                return (
+                    <div
+                        key={e.id}
+                        className="absolute animate-pulse rounded-md border-2 border-violet-500"
+                        style={{
+                            left: topLeft.x - appState.offsetLeft - OUTLINE_GAP,
+                            top: topLeft.y - appState.offsetTop - OUTLINE_GAP,
+                            width: (x2 - x1) * zoom + OUTLINE_GAP * 2,
+                            height: (y2 - y1) * zoom + OUTLINE_GAP * 2,
+                        }}
+                    />
+                );
+            })}
+        </div>
+    );
+}
@@ -1,9 +1,105 @@
-import type { ExcalidrawImperativeAPI } from "@excalidraw/excalidraw/types";
+import {
+	exportToBlob,
+	exportToSvg,
+	getDataURL,
+	serializeAsJSON,
+} from "@excalidraw/excalidraw";
+import type { FileId } from "@excalidraw/excalidraw/element/types";
+import type {
+	BinaryFileData,
+	DataURL,
+	ExcalidrawImperativeAPI,
+} from "@excalidraw/excalidraw/types";
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { useNuwaMCP } from "@nuwa-ai/ui-kit";
+import { useState } from "react";
 import { z } from "zod";
+import { type ChangeFeed, describeEntry } from "../utils/changeFeed";
+import {
+	type IdAllocator,
+	idAllocator,
+	type ImportedDiagram,
+	type ImportedGraph,
+	type ImportedSequence,
+	parseDiagram,
+	slugId,
+} from "../utils/diagramImport";
+import type { XY } from "../utils/geometry";
+import {
+	createSkeletonHistory,
+	createThemeHistory,
+	type SkeletonHistory,
+} from "../utils/history";
+import { type LoadedImage, loadImage } from "../utils/images";
+import { computeGraphLayout, type LayoutAlgorithm } from "../utils/layout";
+import {
+	editPoints,
+	freedrawElement,
+	hasPath,
+	normalizePath,
+	type PointEdit,
+} from "../utils/linear";
+import { resolveOverlaps } from "../utils/overlaps";
+import { findPage, type PageStore } from "../utils/pages";
+import {
+	rerouteBoundArrows,
+	type RouteStyle,
+	routeConnector,
+} from "../utils/routing";
+import { sceneToMermaid, scopeElements } from "../utils/sceneExport";
+import { queryElements, viewportRect } from "../utils/sceneQuery";
+import { describeSelection } from "../utils/selection";
+import {
+	CARDINALITIES,
+	DIAGRAM_ROLES,
+	DIAGRAM_TYPES,
+	type DiagramType,
+	RELATION_KINDS,
+	relationStyle,
+	SEMANTIC_ROLES,
+	validateDiagram,
+} from "../utils/semantics";
+import {
+	applyThemeDefaults,
+	canvasThemeOf,
+	describePresets,
+	ELEMENT_ROLES,
+	restyle,
+	STYLE_PRESETS,
+	type Theme,
+	withRole,
+} from "../utils/styles";
+import {
+	expandTemplate,
+	instantiateComponent,
+	isTemplateName,
+	type SavedComponent,
+	TEMPLATE_DOCS,
+	TEMPLATE_NAMES,
+	toComponent,
+} from "../utils/templates";
+import {
+	composeText,
+	containerSizeFor,
+	DEFAULT_LABEL_MAX_WIDTH,
+	FONT_FAMILIES,
+	loadFonts,
+	measureLabelSize,
+	measureText,
+} from "../utils/textLayout";
 
-type ToolResponse = { content: { type: "text"; text: string }[] };
+// snapshot_canvas keeps images small enough to cost few tokens; legibility
+// checks rarely need more than ~1000px on the long side
+const SNAPSHOT_DEFAULT_SIZE = 1024;
+const SNAPSHOT_MIN_SIZE = 256;
+const SNAPSHOT_MAX_SIZE = 2048;
+
+type ToolResponse = {
+	content: (
+		| { type: "text"; text: string }
+		| { type: "image"; data: string; mimeType: string }
+	)[];
+};
 
 // Wrap any object as MCP tool response text
 function jsonContent(obj: any): ToolResponse {
@@ -24,36 +120,11 @@ function zodIssues(e: z.ZodError) {
 	}));
 }
 
-// Lightweight text measurement to autosize containers to their labels
-const _canvas =
-	typeof document !== "undefined" && (document as any).createElement
-		? (document as any).createElement("canvas")
-		: (null as any);
-const _ctx = _canvas
-	? (_canvas.getContext("2d") as CanvasRenderingContext2D | null)
-	: null;
-function measureLabelSize(label: any): { w: number; h: number } {
-	const text = String(label?.text ?? "");
-	const fontSize = Math.max(10, Number(label?.fontSize ?? 18));
-	const fontFamily = String(label?.fontFamily ?? "Virgil");
-	const lines = text.split("\n");
-	if (!_ctx) {
-		const longest = lines.reduce((m, s) => Math.max(m, s.length), 1);
-		const w = longest * fontSize * 0.6;
-		const h = lines.length * fontSize * 1.4;
-		return { w, h };
-	}
-	try {
-		_ctx.font = `${fontSize}px ${fontFamily}`;
-		const w = Math.max(...lines.map((s) => _ctx!.measureText(s).width), 1);
-		const h = lines.length * fontSize * 1.4;
-		return { w, h };
-	} catch {
-		const longest = lines.reduce((m, s) => Math.max(m, s.length), 1);
-		const w = longest * fontSize * 0.6;
-		const h = lines.length * fontSize * 1.4;
-		return { w, h };
-	}
+// Join bullet items into the text; skeletons store plain text
+function withBullets<T extends { text?: string; bullets?: string[] }>(t: T) {
+	if (!t.bullets) return t;
+	const { bullets: _bullets, ...rest } = t;
+	return { ...rest, text: composeText(t) };
 }
 
 // Shared enums
@@ -78,6 +149,29 @@ const ArrowheadEnum = z.enum([
 	"none",
 ]);
 const BindableTypeEnum = z.enum(["rectangle", "ellipse", "diamond"]);
+const PointSchema = z.tuple([z.number(), z.number()]);
+const PointsSchema = z
+	.array(PointSchema)
+	.min(2)
+	.describe(
+		"Path points [x, y] relative to the element's x/y, in order; the first is usually [0, 0]",
+	);
+const RoleEnum = z
+	.enum(SEMANTIC_ROLES)
+	.describe(
+		"Semantic role (e.g. start, end, decision, entity); used by validate_diagram and to color shapes with the style theme. Default: from an id prefix like decision_, else from the shape",
+	);
+const StyleOverrideSchema = z
+	.object({
+		strokeColor: z.string().optional(),
+		backgroundColor: z.string().optional(),
+		fillStyle: z.enum(["solid", "hachure", "zigzag", "cross-hatch"]).optional(),
+		strokeStyle: z.enum(["solid", "dashed", "dotted"]).optional(),
+		strokeWidth: z.number().optional(),
+		roughness: z.number().optional(),
+		opacity: z.number().optional(),
+	})
+	.strict();
 
 // Common style properties used across shapes
 const StylePropsSchema = z.object({
@@ -104,17 +198,41 @@ const StylePropsSchema = z.object({
 	roughness: z.number().optional().describe("Roughness 0–4 (sketchiness)"),
 });
 
+const FontFamilySchema = z
+	.string()
+	.describe(`Font family: ${FONT_FAMILIES.join(", ")} (default Excalifont)`);
+const LineHeightSchema = z
+	.number()
+	.min(0.8)
+	.max(3)
+	.describe("Line height as a multiple of fontSize (default: the font's own)");
+const BulletsSchema = z
+	.array(z.string())
+	.min(1)
+	.describe("Bullet items, one line each, after the text");
 const LabelSchema = z
 	.object({
-		text: z.string().describe("Label text to bind onto the element"),
+		text: z.string().optional().describe("Label text to bind onto the element"),
+		bullets: BulletsSchema.optional(),
 		fontSize: z.number().optional(),
-		fontFamily: z.string().optional(),
+		fontFamily: FontFamilySchema.optional(),
+		lineHeight: LineHeightSchema.optional(),
+		maxWidth: z
+			.number()
+			.positive()
+			.optional()
+			.describe(
+				`Wrap width in pixels; the container is sized to the wrapped text (default ${DEFAULT_LABEL_MAX_WIDTH})`,
+			),
 		textAlign: TextAlignEnum.optional(),
 		verticalAlign: VerticalAlignEnum.optional(),
 		x: z.number().optional().describe("Optional label X override"),
 		y: z.number().optional().describe("Optional label Y override"),
 		strokeColor: z.string().optional(),
 	})
+	.refine((l) => l.text !== undefined || l.bullets !== undefined, {
+		message: "A label needs text or bullets",
+	})
 	.describe("Text label bound to a container/linear element");
 
 // Linear bindings (arrow/line) — simplified union per docs
@@ -154,6 +272,7 @@ const ShapeSchema = z
 			width: z.number().optional(),
 			height: z.number().optional(),
 			label: LabelSchema.optional(),
+			role: RoleEnum.optional(),
 			...StylePropsSchema.shape,
 		}),
 		z.object({
@@ -164,6 +283,7 @@ const ShapeSchema = z
 			width: z.number().optional(),
 			height: z.number().optional(),
 			label: LabelSchema.optional(),
+			role: RoleEnum.optional(),
 			...StylePropsSchema.shape,
 		}),
 		z.object({
@@ -174,6 +294,7 @@ const ShapeSchema = z
 			width: z.number().optional(),
 			height: z.number().optional(),
 			label: LabelSchema.optional(),
+			role: RoleEnum.optional(),
 			...StylePropsSchema.shape,
 		}),
 		// Linear
@@ -184,6 +305,15 @@ const ShapeSchema = z
 			y: z.number(),
 			width: z.number().optional().describe("Delta X to end point"),
 			height: z.number().optional().describe("Delta Y to end point"),
+			points: PointsSchema.optional().describe(
+				"Multi-segment path instead of width/height; points relative to x/y",
+			),
+			closed: z
+				.boolean()
+				.optional()
+				.describe(
+					"Join the last point back to the first, making a polygon that backgroundColor fills",
+				),
 			label: LabelSchema.optional(),
 			start: LinearBindingSchema.optional(),
 			end: LinearBindingSchema.optional(),
@@ -196,6 +326,15 @@ const ShapeSchema = z
 			y: z.number(),
 			width: z.number().optional().describe("Delta X to end point"),
 			height: z.number().optional().describe("Delta Y to end point"),
+			points: PointsSchema.optional().describe(
+				"Multi-segment path instead of width/height; points relative to x/y",
+			),
+			elbowed: z
+				.boolean()
+				.optional()
+				.describe(
+					"Elbow arrow: Excalidraw keeps it orthogonal and reroutes it when bound shapes move",
+				),
 			label: LabelSchema.optional(),
 			start: LinearBindingSchema.optional(),
 			end: LinearBindingSchema.optional(),
@@ -203,6 +342,21 @@ const ShapeSchema = z
 			endArrowhead: ArrowheadEnum.optional(),
 			...StylePropsSchema.shape,
 		}),
+		// Freehand stroke, for annotations such as circling or underlining
+		z.object({
+			type: z.literal("freedraw"),
+			id: z.string().optional(),
+			x: z.number(),
+			y: z.number(),
+			points: PointsSchema,
+			pressures: z
+				.array(z.number().min(0).max(1))
+				.optional()
+				.describe(
+					"Pen pressure 0–1 per point; omitted = simulated from stroke speed",
+				),
+			...StylePropsSchema.shape,
+		}),
 		// Text
 		z.object({
 			type: z.literal("text"),
@@ -210,8 +364,15 @@ const ShapeSchema = z
 			x: z.number(),
 			y: z.number(),
 			text: z.string(),
+			bullets: BulletsSchema.optional(),
 			fontSize: z.number().optional(),
-			fontFamily: z.string().optional(),
+			fontFamily: FontFamilySchema.optional(),
+			lineHeight: LineHeightSchema.optional(),
+			maxWidth: z
+				.number()
+				.positive()
+				.optional()
+				.describe("Wrap the text at this width in pixels"),
 			textAlign: TextAlignEnum.optional(),
 			verticalAlign: VerticalAlignEnum.optional(),
 			containerId: z.string().optional(),
@@ -223,7 +384,9 @@ const ShapeSchema = z
 			id: z.string().optional(),
 			x: z.number(),
 			y: z.number(),
-			fileId: z.string().describe("Excalidraw FileId for the image"),
+			fileId: z
+				.string()
+				.describe("Excalidraw FileId for the image (returned by add_image)"),
 			width: z.number().optional(),
 			height: z.number().optional(),
 			...StylePropsSchema.shape,
@@ -261,6 +424,27 @@ const ShapeSchema = z
 		"Excalidraw element skeleton (subset) compatible with convertToExcalidrawElements.",
 	);
 
+// Single-point edits for update_elements; negative indices count from the end
+const PointEditSchema = z.discriminatedUnion("op", [
+	z.object({
+		op: z.literal("set"),
+		index: z.number().int(),
+		point: PointSchema.describe("New [x, y], relative to the element"),
+	}),
+	z.object({
+		op: z.literal("move"),
+		index: z.number().int(),
+		dx: z.number(),
+		dy: z.number(),
+	}),
+	z.object({
+		op: z.literal("insert"),
+		index: z.number().int().describe("Position of the new point; -1 appends"),
+		point: PointSchema,
+	}),
+	z.object({ op: z.literal("remove"), index: z.number().int() }),
+]);
+
 // For updates, allow a set of safe props we merge onto existing element
 const ElementUpdateSchema = z
 	.object({
@@ -312,7 +496,17 @@ const ElementUpdateSchema = z
 				opacity: z.number().optional().describe("New opacity 0–100"),
 				roughness: z.number().optional().describe("New roughness 0–4"),
 				fontSize: z.number().optional().describe("New font size (text)"),
-				fontFamily: z.string().optional().describe("New font family (text)"),
+				fontFamily: FontFamilySchema.optional().describe(
+					`New font family (text): ${FONT_FAMILIES.join(", ")}`,
+				),
+				lineHeight: LineHeightSchema.optional().describe(
+					"New line height as a multiple of fontSize (text)",
+				),
+				maxWidth: z
+					.number()
+					.min(0)
+					.optional()
+					.describe("New wrap width in pixels (text); 0 stops wrapping"),
 				textAlign: TextAlignEnum.optional().describe(
 					"New horizontal text align",
 				),
@@ -325,6 +519,24 @@ const ElementUpdateSchema = z
 				endArrowhead: ArrowheadEnum.optional().describe(
 					"Arrowhead at end (arrow only)",
 				),
+				points: PointsSchema.optional().describe(
+					"Replace the whole path (line, arrow, freedraw)",
+				),
+				pointEdits: z
+					.array(PointEditSchema)
+					.min(1)
+					.optional()
+					.describe(
+						"Edit individual points in order, after `points` if both are given",
+					),
+				closed: z
+					.boolean()
+					.optional()
+					.describe("Close or open a line's polygon (line only)"),
+				elbowed: z
+					.boolean()
+					.optional()
+					.describe("Turn elbow routing on or off (arrow only)"),
 			})
 			.strict()
 			.describe("Patch of properties to merge onto the existing element"),
@@ -333,765 +545,3534 @@ const ElementUpdateSchema = z
 		"Element update descriptor: which id to update and what props to change",
 	);
 
-export function useExcalidrawMCP(
-	api: ExcalidrawImperativeAPI | null,
-	state?: {
-		getSkeletons?: () => any[];
-		setSkeletons?: (next: any[] | ((prev: any[]) => any[])) => void;
-	},
-) {
-	const server = new McpServer({ name: "excalidraw-mcp", version: "1.0.0" });
+// Strict tool inputs, shared by the individual write tools and `batch`
+const SetSceneInput = z
+	.object({
+		elements: z.array(ShapeSchema).optional(),
+		keepIds: z.boolean().optional(),
+	})
+	.strict();
+const AddElementsInput = z
+	.object({
+		elements: z.array(ShapeSchema),
+		keepIds: z.boolean().optional(),
+		autoResolve: z.boolean().optional(),
+	})
+	.strict();
+const UpdateElementsInput = z
+	.object({ updates: z.array(ElementUpdateSchema).min(1) })
+	.strict();
+const RemoveElementsInput = z
+	.object({ ids: z.array(z.string()).min(1) })
+	.strict();
+const RouteEnum = z.enum(["straight", "orthogonal", "curved"]);
+const ConnectionSchema = z
+	.object({
+		fromId: z.string(),
+		toId: z.string(),
+		label: LabelSchema.optional(),
+		route: RouteEnum.optional().describe(
+			"Path style: straight (default), orthogonal elbows or curved; orthogonal and curved go around other shapes (curved rounds the orthogonal path's corners, so bends may pass close to a shape)",
+		),
+		style: StylePropsSchema.extend({
+			startArrowhead: ArrowheadEnum.optional(),
+			endArrowhead: ArrowheadEnum.optional(),
+			strokeWidth: z.number().optional(),
+		}).optional(),
+		relation: z
+			.enum(RELATION_KINDS)
+			.optional()
+			.describe(
+				"UML relation; sets matching arrowheads (inheritance: hollow triangle at toId, composition: diamond at fromId, ...)",
+			),
+		cardinality: z
+			.object({
+				from: z.enum(CARDINALITIES),
+				to: z.enum(CARDINALITIES),
+			})
+			.optional()
+			.describe("ER cardinality at each end; sets crowfoot_* arrowheads"),
+	})
+	.strict();
+const ConnectElementsInput = z
+	.object({ connections: z.array(ConnectionSchema).min(1) })
+	.strict();
+const LayoutGridInput = z
+	.object({
+		ids: z.array(z.string()).min(1),
+		origin: z.object({ x: z.number(), y: z.number() }),
+		cols: z.number().min(1),
+		gapX: z.number().optional(),
+		gapY: z.number().optional(),
+	})
+	.strict();
+const SetLabelInput = z.object({ id: z.string(), label: LabelSchema }).strict();
+const AlignElementsInput = z
+	.object({
+		ids: z.array(z.string()).min(2),
+		alignment: z.enum(["left", "center", "right", "top", "middle", "bottom"]),
+	})
+	.strict();
+const DistributeElementsInput = z
+	.object({
+		ids: z.array(z.string()).min(2),
+		axis: z.enum(["horizontal", "vertical"]),
+		gap: z.number().optional(),
+	})
+	.strict();
+const ResolveOverlapsInput = z
+	.object({
+		ids: z.array(z.string()).min(1).optional(),
+		gap: z.number().min(0).optional(),
+	})
+	.strict();
+const FitToContentInput = z
+	.object({
+		ids: z.array(z.string()).min(1).optional(),
+		maxWidth: z.number().positive().optional(),
+		padding: z.number().min(0).optional(),
+	})
+	.strict();
+const InsertTemplateInput = z
+	.object({
+		template: z.string().min(1),
+		idPrefix: z.string().optional(),
+		origin: z.object({ x: z.number(), y: z.number() }).optional(),
+		params: z.record(z.any()).optional(),
+	})
+	.strict();
+const ApplyStyleInput = z
+	.object({
+		ids: z.array(z.string()).min(1).optional(),
+		preset: z.enum(STYLE_PRESETS).optional(),
+		role: RoleEnum.optional(),
+		style: StyleOverrideSchema.optional(),
+	})
+	.strict();
+const ZOrderInput = z.object({ ids: z.array(z.string()).min(1) }).strict();
+const GroupElementsInput = z
+	.object({
+		ids: z.array(z.string()).min(2),
+		groupId: z.string().optional(),
+	})
+	.strict();
+const UngroupElementsInput = z
+	.object({
+		groupId: z.string().optional(),
+		ids: z.array(z.string()).min(1).optional(),
+	})
+	.strict();
+const LayoutGraphInput = z
+	.object({
+		algorithm: z.enum(["layered", "tree", "radial", "force"]),
+		ids: z.array(z.string()).min(1).optional(),
+		direction: z.enum(["TB", "LR"]).optional(),
+		origin: z.object({ x: z.number(), y: z.number() }).optional(),
+		gapX: z.number().optional(),
+		gapY: z.number().optional(),
+		root: z.string().optional(),
+	})
+	.strict();
+const ImportDiagramInput = z
+	.object({
+		source: z.string().min(1),
+		format: z.enum(["auto", "mermaid", "dot"]).optional(),
+		idPrefix: z.string().optional(),
+		origin: z.object({ x: z.number(), y: z.number() }).optional(),
+		layout: z.enum(["layered", "tree", "radial", "force"]).optional(),
+		gapX: z.number().optional(),
+		gapY: z.number().optional(),
+		replace: z.boolean().optional(),
+	})
+	.strict();
 
-	// Canonical skeleton helpers
-	const getS = () => (state?.getSkeletons ? state.getSkeletons() : []);
-	const setS = (next: any[] | ((prev: any[]) => any[])) => {
-		if (state?.setSkeletons) state.setSkeletons(next);
+// Read-only context a write op may need besides the skeletons
+type OpContext = {
+	components: Record<string, SavedComponent>;
+	theme: Theme | null;
+	diagramType: DiagramType | null;
+};
+
+// Result of a pure write op against the skeleton store.
+// `incomplete` lists parts that could not be applied (e.g. unknown ids);
+// single tools report them, `batch` treats them as a failure.
+type OpResult =
+	| {
+			ok: true;
+			next: any[];
+			result: Record<string, any>;
+			incomplete?: Record<string, any>;
+	  }
+	| { ok: false; message: string; details?: any };
+
+function opError(message: string, details?: any): OpResult {
+	return { ok: false, message, details };
+}
+
+// Indices of elements lacking the AI-supplied id we require for determinism
+function missingIdIndices(elements: any[]): number[] {
+	return elements
+		.map((e, i) => ({ hasId: !!(e as any)?.id, i }))
+		.filter((x) => !x.hasId)
+		.map((x) => x.i);
+}
+
+// Space between a container's edge and its label
+const LABEL_PADDING = 12;
+
+// Autosize containers with labels to keep text readable
+function autosizeContainers(elements: any[]): any[] {
+	return elements.map((e: any) => {
+		if (
+			(e.type === "rectangle" ||
+				e.type === "ellipse" ||
+				e.type === "diamond") &&
+			e.label &&
+			typeof e.label.text === "string"
+		) {
+			const { w, h } = measureLabelSize(e.label);
+			const fit = containerSizeFor(e.type, w, h, LABEL_PADDING);
+			const minW = 120;
+			const minH = 48;
+			const next: any = { ...e };
+			next.width = Math.max(Number(e.width ?? 0), fit.width, minW);
+			next.height = Math.max(Number(e.height ?? 0), fit.height, minH);
+			next.label = {
+				...e.label,
+				textAlign: e.label.textAlign ?? "center",
+				verticalAlign: e.label.verticalAlign ?? "middle",
+			};
+			return next;
+		}
+		return e;
+	});
+}
+
+// New skeletons: keep their role, fill unset style from the theme, join
+// bullet items into text and size point paths to their points
+function themed(elements: any[], ctx?: OpContext): any[] {
+	const theme = ctx?.theme;
+	return elements.map((e) => {
+		const withRoleSet = withRole(
+			e.label ? { ...e, label: withBullets(e.label) } : withBullets(e),
+		);
+		const styled = theme
+			? applyThemeDefaults(withRoleSet, theme, ctx?.diagramType)
+			: withRoleSet;
+		return withPath(styled);
+	});
+}
+
+// Freedraw skeletons are stored as full elements, like the ones users draw
+function withPath(e: any): any {
+	if (e.type === "freedraw") return freedrawElement(e);
+	if (hasPath(e)) return normalizePath(e);
+	// `closed` needs points to act on
+	const { closed: _closed, ...rest } = e;
+	return rest;
+}
+
+function setSceneOp(
+	_prev: any[],
+	data: z.infer<typeof SetSceneInput>,
+	ctx?: OpContext,
+): OpResult {
+	const elements = (data.elements ?? []) as any[];
+	const missing = missingIdIndices(elements);
+	if (missing.length > 0) {
+		return opError("Each element must include a stable 'id' (string)", {
+			missingIndices: missing,
+		});
+	}
+	return { ok: true, next: themed(elements, ctx), result: {} };
+}
+
+function addElementsOp(
+	prev: any[],
+	data: z.infer<typeof AddElementsInput>,
+	ctx?: OpContext,
+): OpResult {
+	const missing = missingIdIndices(data.elements as any[]);
+	if (missing.length > 0) {
+		return opError("Each element must include a stable 'id' (string)", {
+			missingIndices: missing,
+		});
+	}
+	const sized = autosizeContainers(themed(data.elements as any[], ctx));
+	const ids = new Set(sized.map((e: any) => e.id));
+	const base = (prev || []).filter((e: any) => !ids.has(e.id));
+	const next = [...base, ...sized];
+	if (!data.autoResolve) return { ok: true, next, result: {} };
+	// Only the new elements move; the existing drawing stays where it is
+	const { next: resolved, report } = resolveOverlaps(next, {
+		...OVERLAP_OPTIONS,
+		movable: ids,
+	});
+	return { ok: true, next: resolved, result: { overlaps: report } };
+}
+
+function updateElementsOp(
+	prev: any[],
+	data: z.infer<typeof UpdateElementsInput>,
+): OpResult {
+	const list = data.updates;
+	const existingIds = new Set((prev || []).map((e: any) => e.id));
+	const notFound = list.filter((u) => !existingIds.has(u.id)).map((u) => u.id);
+	if (notFound.length > 0) {
+		return opError("Some element ids were not found", { notFound });
+	}
+	const byId = new Map<string, any>();
+	for (const u of list) {
+		const patch = { ...u.props } as any;
+		if (patch.startArrowhead === "none") patch.startArrowhead = undefined;
+		if (patch.endArrowhead === "none") patch.endArrowhead = undefined;
+		byId.set(u.id, patch);
+	}
+	const pointErrors: { id: string; error: string }[] = [];
+	const next = (prev || []).map((e: any) => {
+		const patch = byId.get(e.id);
+		if (!patch) return e;
+		const { pointEdits, ...rest } = patch;
+		const merged = { ...e, ...rest };
+		if (!pointEdits && !rest.points && rest.closed === undefined) {
+			return merged;
+		}
+		const edited = withEditedPoints(merged, pointEdits);
+		if ("error" in edited) {
+			pointErrors.push({ id: e.id, error: edited.error });
+			return e;
+		}
+		return edited.element;
+	});
+	if (pointErrors.length > 0) {
+		return opError("Some point edits could not be applied", {
+			errors: pointErrors,
+		});
+	}
+	return { ok: true, next, result: { updated: list.length } };
+}
+
+// Apply point edits to a line/arrow/freedraw and resize it to the new path
+function withEditedPoints(
+	e: any,
+	edits?: PointEdit[],
+): { element: any } | { error: string } {
+	if (e.type !== "line" && e.type !== "arrow" && e.type !== "freedraw") {
+		return { error: `${e.type} elements have no points` };
+	}
+	if (e.closed !== undefined && e.type !== "line") {
+		return { error: "Only lines can be closed" };
+	}
+	const points = Array.isArray(e.points)
+		? e.points
+		: [
+				[0, 0],
+				[Number(e.width ?? 0), Number(e.height ?? 0)],
+			];
+	const edited = edits ? editPoints(points, edits) : { points };
+	if ("error" in edited) return edited;
+	const element: any = { ...e, points: edited.points };
+	// Recorded pressures no longer line up once points are added or removed
+	if (
+		e.type === "freedraw" &&
+		edited.points.length !== (e.pressures?.length ?? 0)
+	) {
+		element.pressures = [];
+		element.simulatePressure = true;
+	}
+	return {
+		element:
+			e.type === "freedraw" ? freedrawElement(element) : normalizePath(element),
 	};
-	// ExcalidrawArtifact owns applying skeletons to the canvas via useEffect
+}
 
-	// Read tools
-	server.registerTool(
-		"get_elements",
-		{
-			title: "Get Elements",
-			description:
-				"Return current elements in the canvas (use to discover ids for updates/removals)",
-			inputSchema: {},
-		},
-		async () => {
-			const apiNow = api;
-			if (!apiNow) return errorResponse("Excalidraw API not ready");
-			try {
-				const elements = apiNow.getSceneElements();
-				const summary = elements.map((e: any) => ({
-					id: e.id,
-					type: e.type,
-					x: e.x,
-					y: e.y,
-					width: e.width,
-					height: e.height,
-					angle: e.angle,
-					text: (e as any).text ?? undefined,
-					strokeColor: e.strokeColor,
-					backgroundColor: e.backgroundColor,
-				}));
-				return jsonContent(summary);
-			} catch (err: any) {
-				return errorResponse("Failed to get elements", {
-					message: String(err?.message ?? err),
-				});
-			}
-		},
-	);
+function removeElementsOp(
+	prev: any[],
+	data: z.infer<typeof RemoveElementsInput>,
+): OpResult {
+	const ids = new Set(data.ids);
+	const existingIds = new Set((prev || []).map((e: any) => e.id));
+	const notFound: string[] = [];
+	for (const id of ids) if (!existingIds.has(id)) notFound.push(id);
+	const removed = data.ids.filter((id) => existingIds.has(id));
+	const next =
+		removed.length > 0 ? (prev || []).filter((e: any) => !ids.has(e.id)) : prev;
+	return {
+		ok: true,
+		next,
+		result: { removed, notFound },
+		incomplete: notFound.length > 0 ? { notFound } : undefined,
+	};
+}
 
-	// Write tools
-	server.registerTool(
-		"set_scene",
-		{
-			title: "Set Scene",
-			description:
-				"Replace the entire scene. Pass [] or omit 'elements' to clear. Coordinates use top-left origin (x→right, y→down).",
-			inputSchema: {
-				elements: z
-					.array(ShapeSchema)
-					.optional()
-					.describe(
-						"Array of new elements to set as the scene. If omitted or [], the scene is cleared.",
-					),
-				keepIds: z
-					.boolean()
-					.optional()
-					.describe(
-						"If true, preserve supplied ids instead of regenerating new ones",
-					),
-			},
-		},
-		async (input) => {
-			const InputSchema = z
-				.object({
-					elements: z.array(ShapeSchema).optional(),
-					keepIds: z.boolean().optional(),
-				})
-				.strict();
-			const parsed = InputSchema.safeParse(input ?? {});
-			if (!parsed.success) {
-				return errorResponse("Invalid input for set_scene", {
-					issues: zodIssues(parsed.error),
-				});
-			}
-			try {
-				const elements = parsed.data.elements ?? [];
-				// Enforce AI-supplied ids for determinism
-				if (elements.length > 0) {
-					const missing = (elements as any[])
-						.map((e, i) => ({ hasId: !!(e as any)?.id, i }))
-						.filter((x) => !x.hasId)
-						.map((x) => x.i);
-					if (missing.length > 0) {
-						return errorResponse(
-							"Each element must include a stable 'id' (string)",
-							{ missingIndices: missing },
-						);
-					}
-				}
-				setS(elements as any[]);
-				return jsonContent({ success: true });
-			} catch (err: any) {
-				return errorResponse("Failed to set scene", {
-					message: String(err?.message ?? err),
-				});
-			}
-		},
+// Arrow skeleton bound to two shapes, ending on their edges.
+// Style arrowheads accept "none", which maps to no arrowhead.
+// Non-straight routes avoid the shapes in `scene` and are remembered in
+// customData.route so later re-layouts keep the style.
+function boundArrow(
+	id: string,
+	fromEl: any,
+	toEl: any,
+	label?: any,
+	style?: any,
+	route: RouteStyle = "straight",
+	scene: any[] = [],
+): any {
+	const arrow: any = {
+		type: "arrow",
+		id,
+		...routeConnector(
+			fromEl,
+			toEl,
+			route,
+			scene,
+			label ? measureLabelSize(label) : undefined,
+		),
+		start: { id: fromEl.id },
+		end: { id: toEl.id },
+		endArrowhead: "arrow",
+	};
+	if (route !== "straight") arrow.customData = { route };
+	if (label) arrow.label = withBullets(label);
+	if (style) {
+		const s: any = { ...style };
+		if (s.startArrowhead === "none") s.startArrowhead = null;
+		if (s.endArrowhead === "none") s.endArrowhead = null;
+		Object.assign(arrow, s);
+	}
+	return arrow;
+}
+
+// Connect two elements by id using a bound arrow.
+// Implementation detail: the scene is rebuilt via convertToExcalidrawElements
+// with ids preserved, so the arrow can bind to existing shapes, per ElementSkeleton docs.
+function connectElementsOp(
+	prev: any[],
+	data: z.infer<typeof ConnectElementsInput>,
+	ctx?: OpContext,
+): OpResult {
+	const current = prev || [];
+	const ids = new Set(current.map((e: any) => e.id));
+	// Same connections on the same scene yield the same arrow ids
+	const arrowIds = idAllocator("", ids);
+	const created: string[] = [];
+	const failed: Array<{ fromId: string; toId: string; reason: string }> = [];
+
+	const arrows: any[] = [];
+	for (const p of data.connections) {
+		const { fromId, toId } = p;
+		if (!ids.has(fromId) || !ids.has(toId)) {
+			failed.push({
+				fromId,
+				toId,
+				reason: !ids.has(fromId) ? "fromId not found" : "toId not found",
+			});
+			continue;
+		}
+		const fromEl: any = current.find((e: any) => e.id === fromId);
+		const toEl: any = current.find((e: any) => e.id === toId);
+		const typed = relationStyle(p.relation, p.cardinality);
+		const arrow = boundArrow(
+			arrowIds.unique(`${fromId}_to_${toId}`),
+			fromEl,
+			toEl,
+			p.label,
+			p.relation || p.cardinality ? { ...typed, ...p.style } : p.style,
+			p.route,
+			[...current, ...arrows],
+		);
+		// Keep the semantics for validate_diagram
+		if (p.relation || p.cardinality) {
+			arrow.customData = {
+				...arrow.customData,
+				relation: p.relation,
+				cardinality: p.cardinality,
+			};
+		}
+		arrows.push(arrow);
+		created.push(arrow.id);
+	}
+
+	return {
+		ok: true,
+		next: arrows.length > 0 ? [...current, ...themed(arrows, ctx)] : current,
+		result: { created, failed },
+		incomplete: failed.length > 0 ? { failed } : undefined,
+	};
+}
+
+// Simple grid layout to space a set of elements in row-major order
+function layoutGridOp(
+	prev: any[],
+	data: z.infer<typeof LayoutGridInput>,
+): OpResult {
+	const { ids, origin, cols } = data;
+	const gapX = Number.isFinite(data.gapX as any) ? (data.gapX as number) : 200;
+	const gapY = Number.isFinite(data.gapY as any) ? (data.gapY as number) : 120;
+
+	const existing = new Set((prev || []).map((e: any) => e.id));
+	const notFound = ids.filter((id) => !existing.has(id));
+	if (notFound.length === ids.length) {
+		return opError("None of the ids were found", { ids });
+	}
+	const targetIds = ids.filter((id) => existing.has(id));
+	const posById = new Map<string, { x: number; y: number }>();
+	targetIds.forEach((id, i) => {
+		const row = Math.floor(i / cols);
+		const col = i % cols;
+		posById.set(id, {
+			x: origin.x + col * gapX,
+			y: origin.y + row * gapY,
+		});
+	});
+
+	const next = (prev || []).map((e: any) =>
+		posById.has(e.id)
+			? { ...e, x: posById.get(e.id)!.x, y: posById.get(e.id)!.y }
+			: e,
 	);
+	return {
+		ok: true,
+		next,
+		result: { laidOut: targetIds, notFound },
+		incomplete: notFound.length > 0 ? { notFound } : undefined,
+	};
+}
 
-	// clear_scene removed: use set_scene with no 'elements' or elements: [] to clear
+const GRID = 24;
+const snap = (v: number) => Math.round(v / GRID) * GRID;
 
-	server.registerTool(
-		"add_elements",
-		{
-			title: "Add Elements",
-			description:
-				"Append one or more elements to the current scene. For line/arrow, end = (x+width, y+height).",
-			inputSchema: {
-				elements: z
-					.array(ShapeSchema)
-					.describe("Array of elements to append to the current scene"),
-				keepIds: z
-					.boolean()
-					.optional()
-					.describe("If true, preserve supplied ids instead of regenerating"),
-			},
-		},
-		async (input) => {
-			const InputSchema = z
-				.object({
-					elements: z.array(ShapeSchema),
-					keepIds: z.boolean().optional(),
-				})
-				.strict();
-			const parsed = InputSchema.safeParse(input);
-			if (!parsed.success) {
-				return errorResponse("Invalid input for add_elements", {
-					issues: zodIssues(parsed.error),
-				});
-			}
-			try {
-				// Enforce AI-supplied ids for determinism
-				const missing = (parsed.data.elements as any[])
-					.map((e, i) => ({ hasId: !!(e as any)?.id, i }))
-					.filter((x) => !x.hasId)
-					.map((x) => x.i);
-				if (missing.length > 0) {
-					return errorResponse(
-						"Each element must include a stable 'id' (string)",
-						{ missingIndices: missing },
-					);
-				}
+// Size a shape would render at: explicit size, else grown to fit its label
+function nodeSize(e: any): { width: number; height: number } {
+	const sized = autosizeContainers([e])[0];
+	return {
+		width: Number(sized.width ?? 100),
+		height: Number(sized.height ?? 100),
+	};
+}
 
-				// Autosize containers with labels to keep text readable
-				const sized = (parsed.data.elements as any[]).map((e: any) => {
-					if (
-						(e.type === "rectangle" ||
-							e.type === "ellipse" ||
-							e.type === "diamond") &&
-						e.label &&
-						typeof e.label.text === "string"
-					) {
-						const { w, h } = measureLabelSize(e.label);
-						const padding = 12;
-						const minW = 120;
-						const minH = 48;
-						const next: any = { ...e };
-						next.width = Math.max(
-							Number(e.width ?? 0),
-							Math.ceil(w) + padding * 2,
-							minW,
-						);
-						next.height = Math.max(
-							Number(e.height ?? 0),
-							Math.ceil(h) + padding * 2,
-							minH,
-						);
-						next.label = {
-							...e.label,
-							textAlign: e.label.textAlign ?? "center",
-							verticalAlign: e.label.verticalAlign ?? "middle",
-						};
-						return next;
-					}
-					return e;
-				});
+// Graph layout over shapes, using bound arrows/lines as edges.
+// Moved shapes keep their bound connectors attached via rerouting.
+function layoutGraphOp(
+	prev: any[],
+	data: z.infer<typeof LayoutGraphInput>,
+): OpResult {
+	const current = prev || [];
+	const shapes = current.filter((e: any) =>
+		BindableTypeEnum.options.includes(e.type),
+	);
+	const shapeIds = new Set(shapes.map((e: any) => e.id));
+	const notFound = (data.ids ?? []).filter((id) => !shapeIds.has(id));
+	const wanted = data.ids ? new Set(data.ids) : shapeIds;
+	const targets = shapes.filter((e: any) => wanted.has(e.id));
+	if (targets.length === 0) {
+		return opError("No rectangle/ellipse/diamond elements to lay out", {
+			notFound,
+		});
+	}
+	const targetIds = new Set(targets.map((e: any) => e.id));
+	const edges = current
+		.filter(
+			(e: any) =>
+				(e.type === "arrow" || e.type === "line") &&
+				targetIds.has(e.start?.id) &&
+				targetIds.has(e.end?.id),
+		)
+		.map((e: any) => ({ from: e.start.id, to: e.end.id }));
+	const nodes = targets.map((e: any) => ({ id: e.id, ...nodeSize(e) }));
 
-				setS((prev) => {
-					const ids = new Set(sized.map((e: any) => e.id));
-					const base = (prev || []).filter((e: any) => !ids.has(e.id));
-					return [...base, ...sized];
-				});
-				return jsonContent({ success: true });
-			} catch (err: any) {
-				return errorResponse("Failed to add elements", {
-					message: String(err?.message ?? err),
-				});
-			}
+	const positions = computeGraphLayout(nodes, edges, {
+		algorithm: data.algorithm,
+		direction: data.direction,
+		gapX: data.gapX ?? 72,
+		gapY: data.gapY ?? 96,
+		root: data.root,
+	});
+	const origin = data.origin ?? {
+		x: Math.min(...targets.map((e: any) => Number(e.x ?? 0))),
+		y: Math.min(...targets.map((e: any) => Number(e.y ?? 0))),
+	};
+	const sizes = new Map(nodes.map((n) => [n.id, n]));
+	const moved = current.map((e: any) => {
+		const p = positions.get(e.id);
+		if (!p) return e;
+		const { width, height } = sizes.get(e.id)!;
+		return {
+			...e,
+			x: snap(origin.x + p.x),
+			y: snap(origin.y + p.y),
+			width,
+			height,
+		};
+	});
+	return {
+		ok: true,
+		next: rerouteBoundArrows(moved, targetIds),
+		result: {
+			laidOut: [...targetIds],
+			edges: edges.length,
+			notFound,
 		},
-	);
+		incomplete: notFound.length > 0 ? { notFound } : undefined,
+	};
+}
 
-	server.registerTool(
-		"update_elements",
-		{
-			title: "Update Elements",
-			description:
-				"Update element properties by id (position, size, style, text)",
-			inputSchema: {
+// Approximate bounding box of skeletons (line/arrow deltas may be negative)
+function skeletonBounds(
+	skeletons: any[],
+): { minX: number; minY: number; maxX: number; maxY: number } | null {
+	if (skeletons.length === 0) return null;
+	let minX = Infinity;
+	let minY = Infinity;
+	let maxX = -Infinity;
+	let maxY = -Infinity;
+	for (const e of skeletons) {
+		const x = Number(e.x ?? 0);
+		const y = Number(e.y ?? 0);
+		const w = Number(e.width ?? 0);
+		const h = Number(e.height ?? 0);
+		minX = Math.min(minX, x, x + w);
+		minY = Math.min(minY, y, y + h);
+		maxX = Math.max(maxX, x, x + w);
+		maxY = Math.max(maxY, y, y + h);
+	}
+	return { minX, minY, maxX, maxY };
+}
+
+// Convert Mermaid/DOT into skeletons: shapes get ids derived from node names,
+// arrows are bound like connect_elements, subgraphs/clusters become frames.
+function importDiagramOp(
+	prev: any[],
+	data: z.infer<typeof ImportDiagramInput>,
+	ctx?: OpContext,
+): OpResult {
+	let diagram: ImportedDiagram;
+	try {
+		diagram = parseDiagram(data.source, data.format ?? "auto");
+	} catch (err: any) {
+		return opError("Could not parse diagram source", {
+			message: String(err?.message ?? err),
+		});
+	}
+	const base = data.replace ? [] : prev || [];
+	const bounds = skeletonBounds(base);
+	// Default: start below whatever is already on the canvas
+	const origin = data.origin ?? {
+		x: bounds ? snap(bounds.minX) : 96,
+		y: bounds ? snap(bounds.maxY + 96) : 96,
+	};
+	const ids = idAllocator(data.idPrefix ?? "");
+	// Node ids first, so edge and frame ids are the ones that give way
+	if (diagram.kind === "sequence")
+		diagram.participants.forEach((p) => ids.node(p.key));
+	else diagram.nodes.forEach((n) => ids.node(n.key));
+
+	const created =
+		diagram.kind === "sequence"
+			? sequenceSkeletons(diagram, ids, origin)
+			: graphSkeletons(diagram, ids, origin, data);
+	if (created.elements.length === 0) {
+		return opError("Diagram source contains no nodes", {
+			warnings: diagram.warnings,
+		});
+	}
+	const createdIds = new Set(created.elements.map((e: any) => e.id));
+	return {
+		ok: true,
+		next: [
+			...base.filter((e: any) => !createdIds.has(e.id)),
+			...themed(created.elements, ctx),
+		],
+		result: {
+			kind: diagram.kind,
+			created: [...createdIds],
+			nodes: created.nodes,
+			edges: created.edges,
+			warnings: [...diagram.warnings, ...created.warnings],
+		},
+	};
+}
+
+function graphSkeletons(
+	graph: ImportedGraph,
+	ids: IdAllocator,
+	origin: { x: number; y: number },
+	opts: { layout?: LayoutAlgorithm; gapX?: number; gapY?: number },
+) {
+	const warnings: string[] = [];
+	const shapes = autosizeContainers(
+		graph.nodes.map((n) => ({
+			type: n.shape,
+			id: ids.node(n.key),
+			x: 0,
+			y: 0,
+			label: n.textAlign
+				? { text: n.label, textAlign: n.textAlign }
+				: { text: n.label },
+		})),
+	);
+	const positions = computeGraphLayout(
+		shapes.map((e: any) => ({ id: e.id, width: e.width, height: e.height })),
+		graph.edges.map((e) => ({ from: ids.node(e.from), to: ids.node(e.to) })),
+		{
+			algorithm: opts.layout ?? "layered",
+			direction: graph.direction,
+			gapX: opts.gapX ?? 72,
+			gapY: opts.gapY ?? 96,
+		},
+	);
+	for (const e of shapes) {
+		const p = positions.get(e.id) ?? { x: 0, y: 0 };
+		e.x = snap(origin.x + p.x);
+		e.y = snap(origin.y + p.y);
+	}
+
+	const byId = new Map(shapes.map((e: any) => [e.id, e]));
+	const arrows: any[] = [];
+	for (const edge of graph.edges) {
+		if (edge.from === edge.to) {
+			warnings.push(`Skipped self-loop on ${edge.from}`);
+			continue;
+		}
+		const fromId = ids.node(edge.from);
+		const toId = ids.node(edge.to);
+		const fromEl = byId.get(fromId);
+		const toEl = byId.get(toId);
+		// Stable ids: same edge list in the same order yields the same ids.
+		// The allocator already carries the prefix, so strip it off the parts.
+		const bare = (id: string) => id.slice(ids.prefix.length);
+		arrows.push(
+			boundArrow(
+				ids.unique(`${bare(fromId)}_to_${bare(toId)}`),
+				fromEl,
+				toEl,
+				edge.label ? { text: edge.label } : undefined,
+				{
+					strokeStyle: edge.strokeStyle,
+					strokeWidth: edge.strokeWidth,
+					startArrowhead: edge.startArrowhead,
+					endArrowhead: edge.endArrowhead,
+				},
+			),
+		);
+	}
+
+	const frames = graph.groups
+		.filter((g) => g.members.length > 0)
+		.map((g) => ({
+			type: "frame",
+			id: ids.unique(`frame_${slugId(g.key)}`),
+			name: g.label,
+			children: g.members.map(ids.node),
+		}));
+	return {
+		elements: [...shapes, ...arrows, ...frames],
+		nodes: shapes.length,
+		edges: arrows.length,
+		warnings,
+	};
+}
+
+// Sequence diagrams: participants in a row, dashed lifelines below them and
+// one horizontal arrow per message, top to bottom in source order.
+function sequenceSkeletons(
+	seq: ImportedSequence,
+	ids: IdAllocator,
+	origin: { x: number; y: number },
+) {
+	const heads = autosizeContainers(
+		seq.participants.map((p) => ({
+			type: p.actor ? "ellipse" : "rectangle",
+			id: ids.node(p.key),
+			x: 0,
+			y: 0,
+			label: { text: p.label },
+		})),
+	);
+	const colW = Math.max(0, ...heads.map((h: any) => h.width)) + 96;
+	const headH = Math.max(0, ...heads.map((h: any) => h.height));
+	const rowH = 72;
+	const centerX = new Map<string, number>();
+	heads.forEach((h: any, i: number) => {
+		h.x = snap(origin.x + i * colW + (colW - 96 - h.width) / 2);
+		h.y = snap(origin.y);
+		centerX.set(h.id, h.x + h.width / 2);
+	});
+	const lifelineH = (seq.messages.length + 1) * rowH;
+	const lifelines = heads.map((h: any) => ({
+		type: "line",
+		id: ids.unique(`${h.id.slice(ids.prefix.length)}_lifeline`),
+		x: centerX.get(h.id)!,
+		y: h.y + headH,
+		width: 0,
+		height: lifelineH,
+		strokeStyle: "dashed",
+	}));
+	const messages = seq.messages.map((m, i) => {
+		const x1 = centerX.get(ids.node(m.from))!;
+		const x2 = centerX.get(ids.node(m.to))!;
+		const self = x1 === x2;
+		return {
+			type: "arrow",
+			id: ids.unique(`msg_${i + 1}`),
+			x: x1,
+			y: snap(origin.y) + headH + (i + 1) * rowH,
+			// Self-messages get a short diagonal hop to stay visible
+			width: self ? 48 : x2 - x1,
+			height: self ? 24 : 0,
+			endArrowhead: m.endArrowhead,
+			...(m.dashed ? { strokeStyle: "dashed" } : {}),
+			...(m.label ? { label: { text: m.label } } : {}),
+		};
+	});
+	return {
+		elements: [...heads, ...lifelines, ...messages],
+		nodes: heads.length,
+		edges: messages.length,
+		warnings: [] as string[],
+	};
+}
+
+// Attach or update a label on an existing container/arrow
+function setLabelOp(
+	prev: any[],
+	data: z.infer<typeof SetLabelInput>,
+): OpResult {
+	const target: any = (prev || []).find((e: any) => e.id === data.id);
+	if (!target) {
+		return opError("Element id not found", { id: data.id });
+	}
+	if (!["rectangle", "ellipse", "diamond", "arrow"].includes(target.type)) {
+		return opError(
+			"Label is only supported for rectangle/ellipse/diamond/arrow",
+			{ type: target.type },
+		);
+	}
+	const next = (prev || []).map((e: any) =>
+		e.id === data.id ? { ...e, label: withBullets(data.label) } : e,
+	);
+	return { ok: true, next, result: {} };
+}
+
+// Push overlapping elements (and shapes under connector labels) apart on
+// the grid; only `ids` move when given
+function resolveOverlapsOp(
+	prev: any[],
+	data: z.infer<typeof ResolveOverlapsInput>,
+): OpResult {
+	const current = prev || [];
+	const existing = new Set(current.map((e: any) => e.id));
+	const notFound = (data.ids ?? []).filter((id) => !existing.has(id));
+	const { next, report } = resolveOverlaps(current, {
+		...OVERLAP_OPTIONS,
+		gap: data.gap ?? OVERLAP_OPTIONS.gap,
+		movable: data.ids ? new Set(data.ids) : undefined,
+	});
+	return {
+		ok: true,
+		next,
+		result: { ...report, notFound },
+		incomplete: notFound.length > 0 ? { notFound } : undefined,
+	};
+}
+
+// Resize labelled containers to their wrapped label, keeping each one's
+// center. A maxWidth given here is stored on the labels for later fits.
+function fitToContentOp(
+	prev: any[],
+	data: z.infer<typeof FitToContentInput>,
+): OpResult {
+	const current = prev || [];
+	const existing = new Set(current.map((e: any) => e.id));
+	const notFound = (data.ids ?? []).filter((id) => !existing.has(id));
+	const wanted = data.ids ? new Set(data.ids) : null;
+	const padding = data.padding ?? LABEL_PADDING;
+	const resized: { id: string; width: number; height: number }[] = [];
+	const skipped: string[] = [];
+	const next = current.map((e: any) => {
+		if (wanted && !wanted.has(e.id)) return e;
+		if (!BindableTypeEnum.options.includes(e.type) || !e.label?.text) {
+			if (wanted) skipped.push(e.id);
+			return e;
+		}
+		const label = data.maxWidth
+			? { ...e.label, maxWidth: data.maxWidth }
+			: e.label;
+		const { w, h } = measureLabelSize(label);
+		const { width, height } = containerSizeFor(e.type, w, h, padding);
+		const cx = Number(e.x ?? 0) + Number(e.width ?? 0) / 2;
+		const cy = Number(e.y ?? 0) + Number(e.height ?? 0) / 2;
+		resized.push({ id: e.id, width, height });
+		return {
+			...e,
+			x: Math.round(cx - width / 2),
+			y: Math.round(cy - height / 2),
+			width,
+			height,
+			label,
+		};
+	});
+	if (resized.length === 0) {
+		return opError("No labelled rectangle/ellipse/diamond to fit", {
+			notFound,
+			skipped,
+		});
+	}
+	return {
+		ok: true,
+		next: rerouteBoundArrows(next, new Set(resized.map((r) => r.id))),
+		result: { resized, skipped, notFound },
+		incomplete: notFound.length > 0 ? { notFound } : undefined,
+	};
+}
+
+// Rendered box of a skeleton: shapes grow to fit their label, text is
+// measured, line/arrow deltas may be negative
+function elementBox(e: any): {
+	x: number;
+	y: number;
+	width: number;
+	height: number;
+} {
+	const x = Number(e.x ?? 0);
+	const y = Number(e.y ?? 0);
+	if (e.type === "arrow" || e.type === "line") {
+		const w = Number(e.width ?? 0);
+		const h = Number(e.height ?? 0);
+		return {
+			x: Math.min(x, x + w),
+			y: Math.min(y, y + h),
+			width: Math.abs(w),
+			height: Math.abs(h),
+		};
+	}
+	if (e.type === "text" && !(Number(e.width) > 0)) {
+		const { w, h } = measureText(e);
+		return { x, y, width: w, height: h };
+	}
+	return { x, y, ...nodeSize(e) };
+}
+
+const OVERLAP_OPTIONS = {
+	gap: GRID,
+	grid: GRID,
+	boxOf: (e: any) => elementBox(e),
+	labelSize: measureLabelSize,
+};
+
+// Connectors bound at both ends follow their shapes instead of moving
+const isBoundConnector = (e: any) =>
+	(e.type === "arrow" || e.type === "line") && !!e.start?.id && !!e.end?.id;
+
+// Split ids into movable elements and ids that were not found
+function movableTargets(
+	prev: any[],
+	ids: string[],
+): { targets: any[]; notFound: string[] } {
+	const byId = new Map<string, any>(prev.map((e: any) => [e.id, e]));
+	const notFound = ids.filter((id) => !byId.has(id));
+	const targets = ids
+		.filter((id) => byId.has(id))
+		.map((id) => byId.get(id))
+		.filter((e: any) => !isBoundConnector(e));
+	return { targets, notFound };
+}
+
+// Apply new top-left positions and keep bound arrows attached
+function moveElements(prev: any[], moves: Map<string, XY>): any[] {
+	const moved = prev.map((e: any) => {
+		const to = moves.get(e.id);
+		if (!to) return e;
+		const box = elementBox(e);
+		// Line/arrow x/y is the start point, not the box corner
+		return {
+			...e,
+			x: Number(e.x ?? 0) + (to.x - box.x),
+			y: Number(e.y ?? 0) + (to.y - box.y),
+		};
+	});
+	return rerouteBoundArrows(moved, new Set(moves.keys()));
+}
+
+// Align elements to the shared bounding box of the targets
+function alignElementsOp(
+	prev: any[],
+	data: z.infer<typeof AlignElementsInput>,
+): OpResult {
+	const current = prev || [];
+	const { targets, notFound } = movableTargets(current, data.ids);
+	if (targets.length < 2) {
+		return opError("Need at least two movable elements to align", {
+			notFound,
+		});
+	}
+	const boxes = targets.map((e: any) => ({ id: e.id, ...elementBox(e) }));
+	const minX = Math.min(...boxes.map((b) => b.x));
+	const minY = Math.min(...boxes.map((b) => b.y));
+	const maxX = Math.max(...boxes.map((b) => b.x + b.width));
+	const maxY = Math.max(...boxes.map((b) => b.y + b.height));
+	const moves = new Map<string, XY>();
+	for (const b of boxes) {
+		let { x, y } = b;
+		switch (data.alignment) {
+			case "left":
+				x = minX;
+				break;
+			case "center":
+				x = (minX + maxX) / 2 - b.width / 2;
+				break;
+			case "right":
+				x = maxX - b.width;
+				break;
+			case "top":
+				y = minY;
+				break;
+			case "middle":
+				y = (minY + maxY) / 2 - b.height / 2;
+				break;
+			case "bottom":
+				y = maxY - b.height;
+				break;
+		}
+		moves.set(b.id, { x, y });
+	}
+	return {
+		ok: true,
+		next: moveElements(current, moves),
+		result: { aligned: [...moves.keys()], notFound },
+		incomplete: notFound.length > 0 ? { notFound } : undefined,
+	};
+}
+
+// Space elements along an axis with equal gaps. Without `gap` the outermost
+// elements stay put; with `gap` the first one stays and the rest follow.
+function distributeElementsOp(
+	prev: any[],
+	data: z.infer<typeof DistributeElementsInput>,
+): OpResult {
+	const current = prev || [];
+	const { targets, notFound } = movableTargets(current, data.ids);
+	if (targets.length < 3 && data.gap === undefined) {
+		return opError("Need at least three movable elements to distribute", {
+			notFound,
+		});
+	}
+	if (targets.length < 2) {
+		return opError("Need at least two movable elements to distribute", {
+			notFound,
+		});
+	}
+	const horizontal = data.axis === "horizontal";
+	const start = (b: any) => (horizontal ? b.x : b.y);
+	const size = (b: any) => (horizontal ? b.width : b.height);
+	const boxes = targets
+		.map((e: any) => ({ id: e.id, ...elementBox(e) }))
+		.sort((a, b) => start(a) + size(a) / 2 - (start(b) + size(b) / 2));
+	const first = boxes[0];
+	const last = boxes[boxes.length - 1];
+	const total = boxes.reduce((sum, b) => sum + size(b), 0);
+	const gap =
+		data.gap ??
+		(start(last) + size(last) - start(first) - total) / (boxes.length - 1);
+
+	const moves = new Map<string, XY>();
+	let cursor = start(first);
+	for (const b of boxes) {
+		moves.set(b.id, horizontal ? { x: cursor, y: b.y } : { x: b.x, y: cursor });
+		cursor += size(b) + gap;
+	}
+	return {
+		ok: true,
+		next: moveElements(current, moves),
+		result: { distributed: boxes.map((b) => b.id), gap, notFound },
+		incomplete: notFound.length > 0 ? { notFound } : undefined,
+	};
+}
+
+// Reorder the skeleton list (later entries render on top), keeping the
+// relative order of the moved elements
+function zOrderOp(toFront: boolean) {
+	return (prev: any[], data: z.infer<typeof ZOrderInput>): OpResult => {
+		const current = prev || [];
+		const ids = new Set(data.ids);
+		const moved = current.filter((e: any) => ids.has(e.id));
+		if (moved.length === 0) {
+			return opError("None of the ids were found", { ids: data.ids });
+		}
+		const rest = current.filter((e: any) => !ids.has(e.id));
+		const found = new Set(moved.map((e: any) => e.id));
+		const notFound = data.ids.filter((id) => !found.has(id));
+		return {
+			ok: true,
+			next: toFront ? [...rest, ...moved] : [...moved, ...rest],
+			result: { moved: [...found], notFound },
+			incomplete: notFound.length > 0 ? { notFound } : undefined,
+		};
+	};
+}
+
+// Add a new outermost group (Excalidraw keeps groupIds innermost-first)
+function groupElementsOp(
+	prev: any[],
+	data: z.infer<typeof GroupElementsInput>,
+): OpResult {
+	const current = prev || [];
+	const existing = new Set(current.map((e: any) => e.id));
+	const notFound = data.ids.filter((id) => !existing.has(id));
+	if (notFound.length > 0) {
+		return opError("Some element ids were not found", { notFound });
+	}
+	const used = new Set(current.flatMap((e: any) => e.groupIds ?? []));
+	let groupId = data.groupId;
+	if (groupId === undefined) {
+		let n = used.size + 1;
+		while (used.has(`group_${n}`)) n++;
+		groupId = `group_${n}`;
+	} else if (used.has(groupId)) {
+		return opError("Group id already in use", { groupId });
+	}
+	const ids = new Set(data.ids);
+	const next = current.map((e: any) =>
+		ids.has(e.id) ? { ...e, groupIds: [...(e.groupIds ?? []), groupId] } : e,
+	);
+	return { ok: true, next, result: { groupId, members: data.ids } };
+}
+
+// Dissolve a group by id, or the outermost group of each given element
+function ungroupElementsOp(
+	prev: any[],
+	data: z.infer<typeof UngroupElementsInput>,
+): OpResult {
+	if (!data.groupId && !data.ids) {
+		return opError("Provide 'groupId' or 'ids'");
+	}
+	const current = prev || [];
+	const groups = new Set<string>();
+	if (data.groupId) groups.add(data.groupId);
+	const notFound: string[] = [];
+	for (const id of data.ids ?? []) {
+		const el = current.find((e: any) => e.id === id);
+		if (!el) notFound.push(id);
+		else if (el.groupIds?.length)
+			groups.add(el.groupIds[el.groupIds.length - 1]);
+	}
+	if (groups.size === 0) {
+		return opError("No groups found to ungroup", { notFound });
+	}
+	const next = current.map((e: any) =>
+		e.groupIds?.some((g: string) => groups.has(g))
+			? { ...e, groupIds: e.groupIds.filter((g: string) => !groups.has(g)) }
+			: e,
+	);
+	return {
+		ok: true,
+		next,
+		result: { ungrouped: [...groups], notFound },
+		incomplete: notFound.length > 0 ? { notFound } : undefined,
+	};
+}
+
+// Expand a built-in template or a saved component. Ids start with idPrefix,
+// so inserting again with the same prefix updates the same elements in place.
+function insertTemplateOp(
+	prev: any[],
+	data: z.infer<typeof InsertTemplateInput>,
+	ctx: OpContext,
+): OpResult {
+	const name = data.template;
+	const component = isTemplateName(name) ? undefined : ctx.components[name];
+	if (!isTemplateName(name) && !component) {
+		return opError("Unknown template or component", {
+			template: name,
+			templates: TEMPLATE_NAMES,
+			components: Object.keys(ctx.components),
+		});
+	}
+	const current = prev || [];
+	const prefix = data.idPrefix ?? `${slugId(name).toLowerCase()}_`;
+	// Lay out at (0, 0) first to learn the ids, then pick the origin
+	const draft = component
+		? instantiateComponent(component, prefix, { x: 0, y: 0 })
+		: expandTemplate(name as any, data.params ?? {}, prefix, { x: 0, y: 0 });
+	const ids = new Set(draft.map((e: any) => e.id));
+	const base = current.filter((e: any) => !ids.has(e.id));
+	// Default: where this insert was placed before, else below the drawing
+	const previous = skeletonBounds(current.filter((e: any) => ids.has(e.id)));
+	const bounds = skeletonBounds(base);
+	const origin =
+		data.origin ??
+		(previous
+			? { x: previous.minX, y: previous.minY }
+			: {
+					x: bounds ? snap(bounds.minX) : 96,
+					y: bounds ? snap(bounds.maxY + 96) : 96,
+				});
+	const placed = themed(
+		autosizeContainers(
+			draft.map((e: any) => ({ ...e, x: e.x + origin.x, y: e.y + origin.y })),
+		),
+		ctx,
+	);
+	return {
+		ok: true,
+		next: [...base, ...placed],
+		result: { template: name, created: [...ids], origin },
+	};
+}
+
+// Restyle existing elements from a preset (default: the active theme),
+// optionally assigning them a role first; `style` wins over the preset
+function applyStyleOp(
+	prev: any[],
+	data: z.infer<typeof ApplyStyleInput>,
+	ctx: OpContext,
+): OpResult {
+	const theme: Theme | null = data.preset
+		? {
+				preset: data.preset,
+				overrides:
+					ctx.theme?.preset === data.preset ? ctx.theme.overrides : undefined,
+			}
+		: ctx.theme;
+	if (!theme && !data.style) {
+		return opError("No style theme is set; pass preset or style");
+	}
+	const current = prev || [];
+	const existing = new Set(current.map((e: any) => e.id));
+	const notFound = (data.ids ?? []).filter((id) => !existing.has(id));
+	const targets = data.ids ? new Set(data.ids) : null;
+	const restyled: string[] = [];
+	const next = current.map((e: any) => {
+		if (targets && !targets.has(e.id)) return e;
+		const withRoleSet =
+			data.role && BindableTypeEnum.safeParse(e.type).success
+				? withRole({ ...e, role: data.role })
+				: e;
+		const out = theme
+			? restyle(withRoleSet, theme, data.style, ctx.diagramType)
+			: { ...withRoleSet, ...data.style };
+		if (out !== e) restyled.push(e.id);
+		return out;
+	});
+	return {
+		ok: true,
+		next: restyled.length > 0 ? next : current,
+		result: { restyled, preset: theme?.preset ?? null, notFound },
+		incomplete: notFound.length > 0 ? { notFound } : undefined,
+	};
+}
+
+// Registry of write ops: every entry is an MCP tool and a valid `batch` step
+const WriteToolEnum = z.enum([
+	"set_scene",
+	"add_elements",
+	"update_elements",
+	"remove_elements",
+	"connect_elements",
+	"layout_grid",
+	"set_label",
+	"layout_graph",
+	"import_diagram",
+	"align_elements",
+	"distribute_elements",
+	"bring_to_front",
+	"send_to_back",
+	"group_elements",
+	"ungroup_elements",
+	"resolve_overlaps",
+	"insert_template",
+	"apply_style",
+	"fit_to_content",
+]);
+type WriteToolName = z.infer<typeof WriteToolEnum>;
+type WriteOp = {
+	input: z.ZodTypeAny;
+	failure: string;
+	run: (prev: any[], data: any, ctx: OpContext) => OpResult;
+};
+const WRITE_OPS: Record<WriteToolName, WriteOp> = {
+	set_scene: {
+		input: SetSceneInput,
+		failure: "Failed to set scene",
+		run: setSceneOp,
+	},
+	add_elements: {
+		input: AddElementsInput,
+		failure: "Failed to add elements",
+		run: addElementsOp,
+	},
+	update_elements: {
+		input: UpdateElementsInput,
+		failure: "Failed to update elements",
+		run: updateElementsOp,
+	},
+	remove_elements: {
+		input: RemoveElementsInput,
+		failure: "Failed to remove elements",
+		run: removeElementsOp,
+	},
+	connect_elements: {
+		input: ConnectElementsInput,
+		failure: "Failed to connect elements",
+		run: connectElementsOp,
+	},
+	layout_grid: {
+		input: LayoutGridInput,
+		failure: "Failed to layout grid",
+		run: layoutGridOp,
+	},
+	set_label: {
+		input: SetLabelInput,
+		failure: "Failed to set label",
+		run: setLabelOp,
+	},
+	layout_graph: {
+		input: LayoutGraphInput,
+		failure: "Failed to layout graph",
+		run: layoutGraphOp,
+	},
+	import_diagram: {
+		input: ImportDiagramInput,
+		failure: "Failed to import diagram",
+		run: importDiagramOp,
+	},
+	align_elements: {
+		input: AlignElementsInput,
+		failure: "Failed to align elements",
+		run: alignElementsOp,
+	},
+	distribute_elements: {
+		input: DistributeElementsInput,
+		failure: "Failed to distribute elements",
+		run: distributeElementsOp,
+	},
+	bring_to_front: {
+		input: ZOrderInput,
+		failure: "Failed to bring elements to front",
+		run: zOrderOp(true),
+	},
+	send_to_back: {
+		input: ZOrderInput,
+		failure: "Failed to send elements to back",
+		run: zOrderOp(false),
+	},
+	group_elements: {
+		input: GroupElementsInput,
+		failure: "Failed to group elements",
+		run: groupElementsOp,
+	},
+	ungroup_elements: {
+		input: UngroupElementsInput,
+		failure: "Failed to ungroup elements",
+		run: ungroupElementsOp,
+	},
+	resolve_overlaps: {
+		input: ResolveOverlapsInput,
+		failure: "Failed to resolve overlaps",
+		run: resolveOverlapsOp,
+	},
+	insert_template: {
+		input: InsertTemplateInput,
+		failure: "Failed to insert template",
+		run: insertTemplateOp,
+	},
+	apply_style: {
+		input: ApplyStyleInput,
+		failure: "Failed to apply style",
+		run: applyStyleOp,
+	},
+	fit_to_content: {
+		input: FitToContentInput,
+		failure: "Failed to fit elements to content",
+		run: fitToContentOp,
+	},
+};
+
+export function useExcalidrawMCP(
+	api: ExcalidrawImperativeAPI | null,
+	state?: {
+		getSkeletons?: (pageId?: string) => any[];
+		setSkeletons?: (
+			next: any[] | ((prev: any[]) => any[]),
+			pageId?: string,
+		) => void;
+		getComponents?: () => Record<string, SavedComponent>;
+		setComponents?: (next: Record<string, SavedComponent>) => void;
+		getTheme?: () => Theme | null;
+		setTheme?: (next: Theme | null) => void;
+		getDiagramType?: (pageId?: string) => DiagramType | null;
+		setDiagramType?: (next: DiagramType | null, pageId?: string) => void;
+		pages?: PageStore;
+		changes?: ChangeFeed;
+	},
+) {
+	const server = new McpServer({ name: "excalidraw-mcp", version: "1.0.0" });
+
+	// Undo/redo history per page survives re-renders (the server is rebuilt
+	// each render)
+	const [histories] = useState(() => new Map<string, SkeletonHistory>());
+	const historyOf = (page: string) => {
+		let history = histories.get(page);
+		if (!history) {
+			history = createSkeletonHistory();
+			histories.set(page, history);
+		}
+		return history;
+	};
+	// The theme is global, and so is the history of theme switches
+	const [themeHistory] = useState(() => createThemeHistory());
+
+	// Last change feed entry get_changes_since handed to the agent
+	const [changeCursor] = useState(() => ({ seq: 0 }));
+
+	// Tools act on the active page unless given `page` (id or name)
+	const activePage = () => state?.pages?.active() ?? "";
+	const resolvePage = (ref?: string): string | null => {
+		if (ref === undefined) return activePage();
+		return findPage(state?.pages?.list() ?? [], ref)?.id ?? null;
+	};
+	// Elements of a page as drawn: the live canvas for the active page
+	const sceneOf = (page: string, apiNow: ExcalidrawImperativeAPI) =>
+		state?.pages && page !== activePage()
+			? state.pages.elements(page)
+			: apiNow.getSceneElements();
+	// Tools about what the user sees bring their page to the front first
+	const showPage = (page: string) => {
+		if (state?.pages && page !== activePage()) state.pages.switchTo(page);
+	};
+
+	// Canonical skeleton helpers
+	const getS = (page?: string) =>
+		state?.getSkeletons ? state.getSkeletons(page) : [];
+	const setS = (next: any[] | ((prev: any[]) => any[]), page?: string) => {
+		if (state?.setSkeletons) state.setSkeletons(next, page);
+	};
+	// ExcalidrawArtifact owns applying skeletons to the canvas via useEffect
+	const opContext = (page?: string): OpContext => ({
+		components: state?.getComponents ? state.getComponents() : {},
+		theme: state?.getTheme ? state.getTheme() : null,
+		diagramType: state?.getDiagramType ? state.getDiagramType(page) : null,
+	});
+
+	// Apply a write result and record it as one undoable history entry
+	const commit = (tool: string, prev: any[], next: any[], page: string) => {
+		if (next === prev) return;
+		historyOf(page).record(tool, prev, next);
+		state?.changes?.record("agent", page, prev, next, tool);
+		setS(next, page);
+	};
+	// Switch the style theme and the canvas background it was designed for
+	const applyTheme = (theme: Theme | null) => {
+		state?.setTheme?.(theme);
+		if (theme) {
+			api?.updateScene({ appState: { theme: canvasThemeOf(theme.preset) } });
+		}
+	};
+
+	// Every tool but the page tools takes an optional `page`; handlers get
+	// the resolved page id
+	const registerTool = (
+		name: string,
+		config: any,
+		handler: (input: any, page: string) => Promise<ToolResponse>,
+	) => {
+		server.registerTool(
+			name,
+			{
+				...config,
+				inputSchema: {
+					...config.inputSchema,
+					page: z
+						.string()
+						.optional()
+						.describe("Page id or name to work on (default: the page shown)"),
+				},
+			},
+			async (input: any) => {
+				const { page: ref, ...rest } = input ?? {};
+				const page = resolvePage(ref);
+				if (page === null) {
+					return errorResponse("Page not found", {
+						page: ref,
+						pages: state?.pages?.list().map((p) => p.name) ?? [],
+					});
+				}
+				return handler(rest, page);
+			},
+		);
+	};
+
+	// Validate input, run the op against a page's skeletons and commit it
+	const runWrite = (
+		tool: WriteToolName,
+		input: unknown,
+		page: string,
+	): ToolResponse => {
+		const op = WRITE_OPS[tool];
+		const parsed = op.input.safeParse(input ?? {});
+		if (!parsed.success) {
+			return errorResponse(`Invalid input for ${tool}`, {
+				issues: zodIssues(parsed.error),
+			});
+		}
+		try {
+			const prev = getS(page);
+			const out = op.run(prev, parsed.data, opContext(page));
+			if (!out.ok) return errorResponse(out.message, out.details);
+			commit(tool, prev, out.next, page);
+			return jsonContent({ success: true, ...out.result });
+		} catch (err: any) {
+			return errorResponse(op.failure, {
+				message: String(err?.message ?? err),
+			});
+		}
+	};
+
+	// Read tools
+	registerTool(
+		"get_elements",
+		{
+			title: "Get Elements",
+			description:
+				"Return current elements in the canvas (use to discover ids for updates/removals). Without arguments returns a compact list. mode 'detailed' adds bindings, groups, frames, containers and font settings; mode 'graph' returns { nodes, edges } with labels and which arrow connects what. Large scenes: page with offset/limit, restrict to the visible viewport, or project fields.",
+			inputSchema: {
+				mode: z
+					.enum(["summary", "detailed", "graph"])
+					.optional()
+					.describe("View to return (default summary)"),
+				fields: z
+					.array(z.string())
+					.min(1)
+					.optional()
+					.describe(
+						"Only return these fields (id is always included), e.g. ['type', 'label', 'frameId']",
+					),
+				ids: z.array(z.string()).min(1).optional().describe("Only these ids"),
+				types: z
+					.array(z.string())
+					.min(1)
+					.optional()
+					.describe("Only these element types"),
+				viewport: z
+					.boolean()
+					.optional()
+					.describe("Only elements visible in the user's current viewport"),
+				within: z
+					.object({
+						x: z.number(),
+						y: z.number(),
+						width: z.number(),
+						height: z.number(),
+					})
+					.optional()
+					.describe("Only elements intersecting this scene rectangle"),
+				includeDeleted: z
+					.boolean()
+					.optional()
+					.describe("Include deleted elements (isDeleted: true)"),
+				offset: z
+					.number()
+					.int()
+					.min(0)
+					.optional()
+					.describe("Page start (default 0)"),
+				limit: z
+					.number()
+					.int()
+					.min(1)
+					.optional()
+					.describe("Page size (default 200; graph mode pages over nodes)"),
+			},
+		},
+		async (input, page) => {
+			const apiNow = api;
+			if (!apiNow) return errorResponse("Excalidraw API not ready");
+			const InputSchema = z
+				.object({
+					mode: z.enum(["summary", "detailed", "graph"]).optional(),
+					fields: z.array(z.string()).min(1).optional(),
+					ids: z.array(z.string()).min(1).optional(),
+					types: z.array(z.string()).min(1).optional(),
+					viewport: z.boolean().optional(),
+					within: z
+						.object({
+							x: z.number(),
+							y: z.number(),
+							width: z.number(),
+							height: z.number(),
+						})
+						.optional(),
+					includeDeleted: z.boolean().optional(),
+					offset: z.number().int().min(0).optional(),
+					limit: z.number().int().min(1).optional(),
+				})
+				.strict();
+			const parsed = InputSchema.safeParse(input ?? {});
+			if (!parsed.success) {
+				return errorResponse("Invalid input for get_elements", {
+					issues: zodIssues(parsed.error),
+				});
+			}
+			try {
+				const q = parsed.data;
+				// The viewport belongs to the page on screen
+				if (q.viewport) showPage(page);
+				const elements =
+					q.includeDeleted && page === activePage()
+						? apiNow.getSceneElementsIncludingDeleted()
+						: sceneOf(page, apiNow);
+				// No arguments: the original compact list, unwrapped
+				if (Object.keys(q).length === 0) {
+					const summary = queryElements(elements, {
+						mode: "summary",
+						offset: 0,
+						limit: Number.POSITIVE_INFINITY,
+					});
+					return jsonContent(summary.elements);
+				}
+				const within = q.viewport
+					? viewportRect(apiNow.getAppState())
+					: q.within;
+				return jsonContent({
+					success: true,
+					mode: q.mode ?? "summary",
+					...queryElements(elements, {
+						mode: q.mode ?? "summary",
+						fields: q.fields,
+						ids: q.ids,
+						types: q.types,
+						within,
+						offset: q.offset ?? 0,
+						limit: q.limit ?? 200,
+					}),
+				});
+			} catch (err: any) {
+				return errorResponse("Failed to get elements", {
+					message: String(err?.message ?? err),
+				});
+			}
+		},
+	);
+
+	// Write tools
+	registerTool(
+		"set_scene",
+		{
+			title: "Set Scene",
+			description:
+				"Replace the entire scene. Pass [] or omit 'elements' to clear. Coordinates use top-left origin (x→right, y→down).",
+			inputSchema: {
+				elements: z
+					.array(ShapeSchema)
+					.optional()
+					.describe(
+						"Array of new elements to set as the scene. If omitted or [], the scene is cleared.",
+					),
+				keepIds: z
+					.boolean()
+					.optional()
+					.describe(
+						"If true, preserve supplied ids instead of regenerating new ones",
+					),
+			},
+		},
+		async (input, page) => runWrite("set_scene", input, page),
+	);
+
+	// clear_scene removed: use set_scene with no 'elements' or elements: [] to clear
+
+	registerTool(
+		"add_elements",
+		{
+			title: "Add Elements",
+			description:
+				"Append one or more elements to the current scene. For line/arrow, end = (x+width, y+height).",
+			inputSchema: {
+				elements: z
+					.array(ShapeSchema)
+					.describe("Array of elements to append to the current scene"),
+				keepIds: z
+					.boolean()
+					.optional()
+					.describe("If true, preserve supplied ids instead of regenerating"),
+				autoResolve: z
+					.boolean()
+					.optional()
+					.describe(
+						"If true, push the new elements off anything they overlap (24px grid) and report what moved",
+					),
+			},
+		},
+		async (input, page) => runWrite("add_elements", input, page),
+	);
+
+	registerTool(
+		"add_image",
+		{
+			title: "Add Image",
+			description:
+				"Place an image from a data URL, a fetchable URL or a chat attachment (base64 + mimeType). Registers the file with the canvas (persisted with it), sizes the element to the image's natural size (or the given width/height, keeping aspect ratio) and returns the fileId.",
+			inputSchema: {
+				id: z.string().describe("Stable id for the image element"),
+				dataUrl: z
+					.string()
+					.optional()
+					.describe("Image as a data URL (data:image/png;base64,...)"),
+				url: z.string().optional().describe("Image URL the host can fetch"),
+				attachment: z
+					.object({
+						data: z.string().describe("Base64 file content"),
+						mimeType: z.string().describe("e.g. image/png"),
+						name: z.string().optional(),
+					})
+					.optional()
+					.describe("File the user attached in chat"),
+				x: z
+					.number()
+					.optional()
+					.describe("Left position (default: below existing content)"),
+				y: z.number().optional().describe("Top position"),
+				width: z
+					.number()
+					.positive()
+					.optional()
+					.describe("Display width; height follows the aspect ratio"),
+				height: z
+					.number()
+					.positive()
+					.optional()
+					.describe("Display height; width follows the aspect ratio"),
+			},
+		},
+		async (input, page) => {
+			const InputSchema = z
+				.object({
+					id: z.string(),
+					dataUrl: z.string().optional(),
+					url: z.string().optional(),
+					attachment: z
+						.object({
+							data: z.string(),
+							mimeType: z.string(),
+							name: z.string().optional(),
+						})
+						.optional(),
+					x: z.number().optional(),
+					y: z.number().optional(),
+					width: z.number().positive().optional(),
+					height: z.number().positive().optional(),
+				})
+				.strict();
+			const parsed = InputSchema.safeParse(input ?? {});
+			if (!parsed.success) {
+				return errorResponse("Invalid input for add_image", {
+					issues: zodIssues(parsed.error),
+				});
+			}
+			const apiNow = api;
+			if (!apiNow) return errorResponse("Excalidraw API not ready");
+			const { id, dataUrl, url, attachment } = parsed.data;
+			const given = [dataUrl, url, attachment].filter((v) => v !== undefined);
+			if (given.length !== 1) {
+				return errorResponse(
+					"Provide exactly one of 'dataUrl', 'url' or 'attachment'",
+				);
+			}
+			let image: LoadedImage;
+			try {
+				image = await loadImage(
+					dataUrl !== undefined
+						? { dataUrl }
+						: url !== undefined
+							? { url }
+							: {
+									base64: attachment!.data,
+									mimeType: attachment!.mimeType,
+									name: attachment!.name,
+								},
+				);
+			} catch (err: any) {
+				return errorResponse("Failed to load image", {
+					message: String(err?.message ?? err),
+				});
+			}
+			try {
+				apiNow.addFiles([
+					{
+						id: image.fileId as FileId,
+						dataURL: image.dataURL as DataURL,
+						mimeType: image.mimeType as BinaryFileData["mimeType"],
+						created: Date.now(),
+					},
+				]);
+				const ratio = image.width / image.height;
+				const width =
+					parsed.data.width ??
+					(parsed.data.height ? parsed.data.height * ratio : image.width);
+				const height = parsed.data.height ?? width / ratio;
+				const prev = getS(page);
+				const bounds = skeletonBounds(prev.filter((e: any) => e.id !== id));
+				const element = {
+					type: "image",
+					id,
+					x: parsed.data.x ?? (bounds ? snap(bounds.minX) : 96),
+					y: parsed.data.y ?? (bounds ? snap(bounds.maxY + 96) : 96),
+					width: Math.round(width),
+					height: Math.round(height),
+					fileId: image.fileId,
+				};
+				const out = addElementsOp(prev, { elements: [element as any] });
+				if (!out.ok) return errorResponse(out.message, out.details);
+				commit("add_image", prev, out.next, page);
+				return jsonContent({
+					success: true,
+					id,
+					fileId: image.fileId,
+					mimeType: image.mimeType,
+					naturalWidth: image.width,
+					naturalHeight: image.height,
+					width: element.width,
+					height: element.height,
+				});
+			} catch (err: any) {
+				return errorResponse("Failed to add image", {
+					message: String(err?.message ?? err),
+				});
+			}
+		},
+	);
+
+	registerTool(
+		"update_elements",
+		{
+			title: "Update Elements",
+			description:
+				"Update element properties by id (position, size, style, text)",
+			inputSchema: {
 				updates: z
 					.array(ElementUpdateSchema)
 					.describe(
-						"List of updates; each item specifies an element id and a patch of properties",
+						"List of updates; each item specifies an element id and a patch of properties",
+					),
+			},
+		},
+		async (input, page) => runWrite("update_elements", input, page),
+	);
+
+	registerTool(
+		"remove_elements",
+		{
+			title: "Remove Elements",
+			description: "Remove elements by ids",
+			inputSchema: {
+				ids: z
+					.array(z.string())
+					.min(1)
+					.describe("Array of element ids to remove from the scene"),
+			},
+		},
+		async (input, page) => runWrite("remove_elements", input, page),
+	);
+
+	registerTool(
+		"get_viewport",
+		{
+			title: "Get Viewport",
+			description:
+				"Return what the user is looking at: the visible scene rectangle, zoom, scroll and theme.",
+			inputSchema: {},
+		},
+		async (_input, page) => {
+			const apiNow = api;
+			if (!apiNow) return errorResponse("Excalidraw API not ready");
+			showPage(page);
+			const appState = apiNow.getAppState();
+			return jsonContent({
+				success: true,
+				visible: viewportRect(appState),
+				zoom: appState.zoom.value,
+				scrollX: appState.scrollX,
+				scrollY: appState.scrollY,
+				width: appState.width,
+				height: appState.height,
+				theme: appState.theme,
+			});
+		},
+	);
+
+	registerTool(
+		"get_selection",
+		{
+			title: "Get Selection",
+			description:
+				"Return the elements the user currently has selected (selected labels resolve to their container). Use for requests like 'make these blue'.",
+			inputSchema: {},
+		},
+		async (_input, page) => {
+			const apiNow = api;
+			if (!apiNow) return errorResponse("Excalidraw API not ready");
+			showPage(page);
+			const selected = describeSelection(
+				apiNow.getSceneElements(),
+				apiNow.getAppState().selectedElementIds,
+			);
+			return jsonContent({
+				success: true,
+				ids: selected.map((e) => e.id),
+				elements: selected,
+			});
+		},
+	);
+
+	registerTool(
+		"select_elements",
+		{
+			title: "Select Elements",
+			description:
+				"Select elements on the canvas by id (replaces the selection unless add is true). Pass an empty list to clear the selection.",
+			inputSchema: {
+				ids: z.array(z.string()).describe("Ids to select"),
+				add: z
+					.boolean()
+					.optional()
+					.describe("Add to the current selection instead of replacing it"),
+			},
+		},
+		async (input, page) => {
+			const apiNow = api;
+			if (!apiNow) return errorResponse("Excalidraw API not ready");
+			const parsed = z
+				.object({ ids: z.array(z.string()), add: z.boolean().optional() })
+				.strict()
+				.safeParse(input ?? {});
+			if (!parsed.success) {
+				return errorResponse("Invalid input for select_elements", {
+					issues: zodIssues(parsed.error),
+				});
+			}
+			showPage(page);
+			const existing = new Set(apiNow.getSceneElements().map((e) => e.id));
+			const found = parsed.data.ids.filter((id) => existing.has(id));
+			const notFound = parsed.data.ids.filter((id) => !existing.has(id));
+			const selectedElementIds: Record<string, true> = parsed.data.add
+				? { ...(apiNow.getAppState().selectedElementIds as any) }
+				: {};
+			for (const id of found) selectedElementIds[id] = true;
+			apiNow.updateScene({
+				appState: { selectedElementIds, selectedGroupIds: {} } as any,
+			});
+			return jsonContent({
+				success: true,
+				selected: Object.keys(selectedElementIds),
+				notFound,
+			});
+		},
+	);
+
+	registerTool(
+		"scroll_to_elements",
+		{
+			title: "Scroll To Elements",
+			description:
+				"Scroll the user's view to the given elements, optionally zooming so they fit.",
+			inputSchema: {
+				ids: z.array(z.string()).min(1).describe("Ids to bring into view"),
+				fit: z
+					.boolean()
+					.optional()
+					.describe("Also zoom so the elements fill the view (default false)"),
+				animate: z.boolean().optional().describe("Animate the scroll"),
+			},
+		},
+		async (input, page) => {
+			const apiNow = api;
+			if (!apiNow) return errorResponse("Excalidraw API not ready");
+			const parsed = z
+				.object({
+					ids: z.array(z.string()).min(1),
+					fit: z.boolean().optional(),
+					animate: z.boolean().optional(),
+				})
+				.strict()
+				.safeParse(input ?? {});
+			if (!parsed.success) {
+				return errorResponse("Invalid input for scroll_to_elements", {
+					issues: zodIssues(parsed.error),
+				});
+			}
+			showPage(page);
+			const ids = new Set(parsed.data.ids);
+			const targets = apiNow.getSceneElements().filter((e) => ids.has(e.id));
+			if (targets.length === 0) {
+				return errorResponse("None of the ids were found", {
+					ids: parsed.data.ids,
+				});
+			}
+			apiNow.scrollToContent(
+				targets,
+				parsed.data.fit
+					? {
+							fitToViewport: true,
+							viewportZoomFactor: 0.8,
+							animate: parsed.data.animate,
+						}
+					: { animate: parsed.data.animate },
+			);
+			return jsonContent({
+				success: true,
+				visible: viewportRect(apiNow.getAppState()),
+			});
+		},
+	);
+
+	registerTool(
+		"zoom_to_fit",
+		{
+			title: "Zoom To Fit",
+			description:
+				"Zoom and scroll so the whole drawing (or the given ids) fits the user's view.",
+			inputSchema: {
+				ids: z
+					.array(z.string())
+					.min(1)
+					.optional()
+					.describe("Only fit these elements (default: everything)"),
+			},
+		},
+		async (input, page) => {
+			const apiNow = api;
+			if (!apiNow) return errorResponse("Excalidraw API not ready");
+			const parsed = z
+				.object({ ids: z.array(z.string()).min(1).optional() })
+				.strict()
+				.safeParse(input ?? {});
+			if (!parsed.success) {
+				return errorResponse("Invalid input for zoom_to_fit", {
+					issues: zodIssues(parsed.error),
+				});
+			}
+			showPage(page);
+			const ids = parsed.data.ids ? new Set(parsed.data.ids) : null;
+			const targets = apiNow
+				.getSceneElements()
+				.filter((e) => !ids || ids.has(e.id));
+			if (targets.length === 0) {
+				return errorResponse(
+					ids ? "None of the ids were found" : "Canvas is empty",
+				);
+			}
+			apiNow.scrollToContent(targets, {
+				fitToViewport: true,
+				viewportZoomFactor: 0.9,
+			});
+			return jsonContent({
+				success: true,
+				visible: viewportRect(apiNow.getAppState()),
+				zoom: apiNow.getAppState().zoom.value,
+			});
+		},
+	);
+
+	// Search elements helper
+	registerTool(
+		"search_elements",
+		{
+			title: "Search Elements",
+			description:
+				"Find element ids by type, by text substring, or within a bounding box.",
+			inputSchema: {
+				type: z
+					.enum([
+						"rectangle",
+						"ellipse",
+						"diamond",
+						"line",
+						"arrow",
+						"text",
+						"image",
+						"frame",
+						"magicframe",
+					])
+					.optional(),
+				textIncludes: z
+					.string()
+					.optional()
+					.describe("Substring to match in text content (case-insensitive)"),
+				within: z
+					.object({
+						x: z.number(),
+						y: z.number(),
+						width: z.number(),
+						height: z.number(),
+					})
+					.optional()
+					.describe(
+						"Bounding box filter: element's bounding box must intersect this rect",
+					),
+			},
+		},
+		async (input, page) => {
+			const InputSchema = z
+				.object({
+					type: z
+						.enum([
+							"rectangle",
+							"ellipse",
+							"diamond",
+							"line",
+							"arrow",
+							"text",
+							"image",
+							"frame",
+							"magicframe",
+						])
+						.optional(),
+					textIncludes: z.string().optional(),
+					within: z
+						.object({
+							x: z.number(),
+							y: z.number(),
+							width: z.number(),
+							height: z.number(),
+						})
+						.optional(),
+				})
+				.strict();
+			const parsed = InputSchema.safeParse(input ?? {});
+			if (!parsed.success) {
+				return errorResponse("Invalid input for search_elements", {
+					issues: zodIssues(parsed.error),
+				});
+			}
+			const apiNow = api;
+			if (!apiNow) return errorResponse("Excalidraw API not ready");
+			try {
+				const { type, textIncludes, within } = parsed.data;
+				const q = textIncludes?.toLowerCase();
+				const elements = sceneOf(page, apiNow);
+				const hits = elements.filter((e: any) => {
+					if (type && e.type !== type) return false;
+					if (q) {
+						const t = (e as any).text?.toLowerCase?.() || "";
+						if (!t.includes(q)) return false;
+					}
+					if (within) {
+						const ex1 = e.x;
+						const ey1 = e.y;
+						const ex2 = e.x + e.width;
+						const ey2 = e.y + e.height;
+						const wx1 = within.x;
+						const wy1 = within.y;
+						const wx2 = within.x + within.width;
+						const wy2 = within.y + within.height;
+						const intersects = !(
+							ex2 < wx1 ||
+							ex1 > wx2 ||
+							ey2 < wy1 ||
+							ey1 > wy2
+						);
+						if (!intersects) return false;
+					}
+					return true;
+				});
+				const out = hits.map((e: any) => ({
+					id: e.id,
+					type: e.type,
+					x: e.x,
+					y: e.y,
+					width: e.width,
+					height: e.height,
+					text: (e as any).text ?? undefined,
+				}));
+				return jsonContent(out);
+			} catch (err: any) {
+				return errorResponse("Failed to search elements", {
+					message: String(err?.message ?? err),
+				});
+			}
+		},
+	);
+
+	// Export the scene (or part of it) for other caps and documents
+	registerTool(
+		"export_scene",
+		{
+			title: "Export Scene",
+			description:
+				"Export the canvas as svg (markup), png (data URL), excalidraw (full .excalidraw JSON incl. files and appState) or mermaid (best-effort flowchart of shapes and bound arrows). Optionally restrict to the user's selection, a frame or a bounding box.",
+			inputSchema: {
+				format: z
+					.enum(["svg", "png", "excalidraw", "mermaid"])
+					.describe("Export format"),
+				selectionOnly: z
+					.boolean()
+					.optional()
+					.describe("Only export elements currently selected by the user"),
+				frameId: z
+					.string()
+					.optional()
+					.describe("Only export this frame and its children"),
+				bbox: z
+					.object({
+						x: z.number(),
+						y: z.number(),
+						width: z.number(),
+						height: z.number(),
+					})
+					.optional()
+					.describe("Only export elements intersecting this rect"),
+				padding: z
+					.number()
+					.optional()
+					.describe(
+						"Padding around the exported area in pixels (svg/png, default 16)",
+					),
+				maxWidthOrHeight: z
+					.number()
+					.optional()
+					.describe("Downscale png so its longest side fits this size"),
+				background: z
+					.boolean()
+					.optional()
+					.describe("Include the canvas background (svg/png, default true)"),
+				darkMode: z
+					.boolean()
+					.optional()
+					.describe("Render with the dark theme (svg/png)"),
+			},
+		},
+		async (input, page) => {
+			const InputSchema = z
+				.object({
+					format: z.enum(["svg", "png", "excalidraw", "mermaid"]),
+					selectionOnly: z.boolean().optional(),
+					frameId: z.string().optional(),
+					bbox: z
+						.object({
+							x: z.number(),
+							y: z.number(),
+							width: z.number(),
+							height: z.number(),
+						})
+						.optional(),
+					padding: z.number().optional(),
+					maxWidthOrHeight: z.number().optional(),
+					background: z.boolean().optional(),
+					darkMode: z.boolean().optional(),
+				})
+				.strict();
+			const parsed = InputSchema.safeParse(input ?? {});
+			if (!parsed.success) {
+				return errorResponse("Invalid input for export_scene", {
+					issues: zodIssues(parsed.error),
+				});
+			}
+			const apiNow = api;
+			if (!apiNow) return errorResponse("Excalidraw API not ready");
+			try {
+				const { format, selectionOnly, frameId, bbox } = parsed.data;
+				const all = sceneOf(page, apiNow);
+				const appState = apiNow.getAppState();
+				const files = apiNow.getFiles();
+				const frame = frameId
+					? all.find((e: any) => e.id === frameId)
+					: undefined;
+				if (
+					frameId &&
+					(!frame || (frame.type !== "frame" && frame.type !== "magicframe"))
+				) {
+					return errorResponse("Frame id not found", { frameId });
+				}
+				const elements = scopeElements(
+					all,
+					appState.selectedElementIds as Record<string, boolean>,
+					{ selectionOnly, frameId, bbox },
+				);
+				if (elements.length === 0) {
+					return errorResponse("Nothing to export in the requested scope");
+				}
+
+				let mimeType: string;
+				let data: string;
+				const renderOpts = {
+					elements: elements as any,
+					files,
+					exportPadding: parsed.data.padding ?? 16,
+					exportingFrame: (frame as any) ?? null,
+					appState: {
+						...appState,
+						exportBackground: parsed.data.background ?? true,
+						exportWithDarkMode:
+							parsed.data.darkMode ?? appState.theme === "dark",
+					},
+				};
+				if (format === "svg") {
+					const svg = await exportToSvg(renderOpts);
+					mimeType = "image/svg+xml";
+					data = svg.outerHTML;
+				} else if (format === "png") {
+					const blob = await exportToBlob({
+						...renderOpts,
+						mimeType: "image/png",
+						maxWidthOrHeight: parsed.data.maxWidthOrHeight,
+					});
+					mimeType = "image/png";
+					data = await getDataURL(blob);
+				} else if (format === "excalidraw") {
+					mimeType = "application/vnd.excalidraw+json";
+					data = serializeAsJSON(elements, appState, files, "local");
+				} else {
+					mimeType = "text/plain";
+					data = sceneToMermaid(elements);
+				}
+				return jsonContent({
+					success: true,
+					format,
+					mimeType,
+					elementCount: elements.length,
+					data,
+				});
+			} catch (err: any) {
+				return errorResponse("Failed to export scene", {
+					message: String(err?.message ?? err),
+				});
+			}
+		},
+	);
+
+	registerTool(
+		"snapshot_canvas",
+		{
+			title: "Snapshot Canvas",
+			description:
+				"Render the canvas (or the viewport, given ids or a rect) to a downscaled PNG returned as an image, so you can visually check overlaps, legibility and layout.",
+			inputSchema: {
+				region: z
+					.enum(["all", "viewport"])
+					.optional()
+					.describe("Whole drawing (default) or what the user currently sees"),
+				ids: z
+					.array(z.string())
+					.min(1)
+					.optional()
+					.describe("Only render these elements (and their labels)"),
+				bbox: z
+					.object({
+						x: z.number(),
+						y: z.number(),
+						width: z.number(),
+						height: z.number(),
+					})
+					.optional()
+					.describe("Only render elements intersecting this rect"),
+				maxSize: z
+					.number()
+					.int()
+					.min(SNAPSHOT_MIN_SIZE)
+					.max(SNAPSHOT_MAX_SIZE)
+					.optional()
+					.describe(
+						`Longest side of the image in pixels (default ${SNAPSHOT_DEFAULT_SIZE})`,
+					),
+			},
+		},
+		async (input, page) => {
+			const InputSchema = z
+				.object({
+					region: z.enum(["all", "viewport"]).optional(),
+					ids: z.array(z.string()).min(1).optional(),
+					bbox: z
+						.object({
+							x: z.number(),
+							y: z.number(),
+							width: z.number(),
+							height: z.number(),
+						})
+						.optional(),
+					maxSize: z
+						.number()
+						.int()
+						.min(SNAPSHOT_MIN_SIZE)
+						.max(SNAPSHOT_MAX_SIZE)
+						.optional(),
+				})
+				.strict();
+			const parsed = InputSchema.safeParse(input ?? {});
+			if (!parsed.success) {
+				return errorResponse("Invalid input for snapshot_canvas", {
+					issues: zodIssues(parsed.error),
+				});
+			}
+			const apiNow = api;
+			if (!apiNow) return errorResponse("Excalidraw API not ready");
+			try {
+				const { region, ids, maxSize } = parsed.data;
+				if (region === "viewport") showPage(page);
+				const appState = apiNow.getAppState();
+				const bbox =
+					parsed.data.bbox ??
+					(region === "viewport" ? viewportRect(appState) : undefined);
+				let elements = scopeElements(
+					sceneOf(page, apiNow),
+					appState.selectedElementIds as Record<string, boolean>,
+					{ bbox },
+				);
+				if (ids) {
+					const wanted = new Set(ids);
+					elements = elements.filter(
+						(e: any) =>
+							wanted.has(e.id) || (e.containerId && wanted.has(e.containerId)),
+					);
+				}
+				if (elements.length === 0) {
+					return errorResponse("Nothing to render in the requested region");
+				}
+				const blob = await exportToBlob({
+					elements: elements as any,
+					files: apiNow.getFiles(),
+					exportPadding: 16,
+					mimeType: "image/png",
+					maxWidthOrHeight: maxSize ?? SNAPSHOT_DEFAULT_SIZE,
+					appState: {
+						...appState,
+						exportBackground: true,
+						exportWithDarkMode: appState.theme === "dark",
+					},
+				});
+				const dataUrl = await getDataURL(blob);
+				return {
+					content: [
+						{
+							type: "image",
+							data: dataUrl.slice(dataUrl.indexOf(",") + 1),
+							mimeType: "image/png",
+						},
+						{
+							type: "text",
+							text: JSON.stringify({
+								success: true,
+								elementCount: elements.length,
+								bytes: blob.size,
+							}),
+						},
+					],
+				};
+			} catch (err: any) {
+				return errorResponse("Failed to snapshot canvas", {
+					message: String(err?.message ?? err),
+				});
+			}
+		},
+	);
+
+	registerTool(
+		"connect_elements",
+		{
+			title: "Connect Elements",
+			description:
+				"Create arrow(s) bound between element ids. Provide an array 'connections'. Set 'route' to 'orthogonal' or 'curved' to path around other shapes; labels are placed on the longest free segment. Returns the new arrow ids in 'created' (<fromId>_to_<toId>).",
+			inputSchema: {
+				connections: z
+					.array(ConnectionSchema)
+					.min(1)
+					.describe("Array of connections to create"),
+			},
+		},
+		async (input, page) => runWrite("connect_elements", input, page),
+	);
+
+	registerTool(
+		"layout_grid",
+		{
+			title: "Layout Grid",
+			description:
+				"Lay out the given element ids on a simple grid starting at origin (row-major).",
+			inputSchema: {
+				ids: z
+					.array(z.string())
+					.min(1)
+					.describe("Ids to layout in row-major order"),
+				origin: z
+					.object({ x: z.number(), y: z.number() })
+					.describe("Top-left starting point for the grid"),
+				cols: z.number().min(1).describe("Number of columns in the grid"),
+				gapX: z
+					.number()
+					.optional()
+					.describe("Horizontal gap between columns (default 200)"),
+				gapY: z
+					.number()
+					.optional()
+					.describe("Vertical gap between rows (default 120)"),
+			},
+		},
+		async (input, page) => runWrite("layout_grid", input, page),
+	);
+	registerTool(
+		"layout_graph",
+		{
+			title: "Layout Graph",
+			description:
+				"Auto-layout shapes as a graph, using arrows created by connect_elements as edges. Sizes come from the (label-measured) shapes; bound arrows are re-routed afterwards. Positions snap to the 24px grid.",
+			inputSchema: {
+				algorithm: z
+					.enum(["layered", "tree", "radial", "force"])
+					.describe(
+						"layered: flowcharts/DAGs by rank; tree: hierarchies; radial: root in the center; force: general networks",
+					),
+				ids: z
+					.array(z.string())
+					.min(1)
+					.optional()
+					.describe(
+						"Shape ids to lay out (default: every rectangle/ellipse/diamond)",
+					),
+				direction: z
+					.enum(["TB", "LR"])
+					.optional()
+					.describe("Flow direction for layered/tree (default TB)"),
+				origin: z
+					.object({ x: z.number(), y: z.number() })
+					.optional()
+					.describe(
+						"Top-left of the laid-out graph (default: current top-left of the shapes)",
+					),
+				gapX: z
+					.number()
+					.optional()
+					.describe("Horizontal gap between shapes (default 72)"),
+				gapY: z
+					.number()
+					.optional()
+					.describe("Vertical gap between shapes/ranks (default 96)"),
+				root: z
+					.string()
+					.optional()
+					.describe(
+						"Root id for tree/radial (default: first shape without incoming arrows)",
+					),
+			},
+		},
+		async (input, page) => runWrite("layout_graph", input, page),
+	);
+	registerTool(
+		"import_diagram",
+		{
+			title: "Import Diagram",
+			description:
+				"Convert Mermaid (flowchart/graph, sequenceDiagram, classDiagram, erDiagram) or Graphviz DOT source into shapes and bound arrows. Ids derive from node names (plus idPrefix), so re-importing updates the same elements.",
+			inputSchema: {
+				source: z.string().min(1).describe("Mermaid or DOT source text"),
+				format: z
+					.enum(["auto", "mermaid", "dot"])
+					.optional()
+					.describe("Source format (default auto-detect)"),
+				idPrefix: z
+					.string()
+					.optional()
+					.describe("Prefix for generated ids, e.g. 'auth_' (default none)"),
+				origin: z
+					.object({ x: z.number(), y: z.number() })
+					.optional()
+					.describe(
+						"Top-left of the imported diagram (default: below existing content)",
+					),
+				layout: z
+					.enum(["layered", "tree", "radial", "force"])
+					.optional()
+					.describe(
+						"Layout for graph diagrams (default layered; sequence diagrams ignore this)",
 					),
+				gapX: z.number().optional().describe("Horizontal gap (default 72)"),
+				gapY: z.number().optional().describe("Vertical gap (default 96)"),
+				replace: z
+					.boolean()
+					.optional()
+					.describe("If true, replace the whole scene instead of appending"),
 			},
 		},
-		async (input) => {
+		async (input, page) => runWrite("import_diagram", input, page),
+	);
+
+	registerTool(
+		"insert_template",
+		{
+			title: "Insert Template",
+			description:
+				"Insert a built-in diagram template (swimlane, sequence, er_table, kanban, mindmap, c4_container, timeline) or a saved component by name. All ids start with idPrefix, so inserting again with the same prefix updates the same elements. Call list_templates for parameters.",
+			inputSchema: {
+				template: z
+					.string()
+					.min(1)
+					.describe("Built-in template name or saved component name"),
+				idPrefix: z
+					.string()
+					.optional()
+					.describe("Prefix for every id (default '<template>_')"),
+				origin: z
+					.object({ x: z.number(), y: z.number() })
+					.optional()
+					.describe(
+						"Top-left of the inserted elements (default: previous position for the same prefix, else below existing content)",
+					),
+				params: z
+					.record(z.any())
+					.optional()
+					.describe(
+						"Template parameters, e.g. { lanes: ['Sales', 'Ops'] } for swimlane",
+					),
+			},
+		},
+		async (input, page) => runWrite("insert_template", input, page),
+	);
+
+	registerTool(
+		"list_templates",
+		{
+			title: "List Templates",
+			description:
+				"List built-in templates with their parameters, and the components saved with save_component.",
+			inputSchema: {},
+		},
+		async () => {
+			const components = opContext().components;
+			return jsonContent({
+				success: true,
+				templates: TEMPLATE_NAMES.map((name) => ({
+					name,
+					description: TEMPLATE_DOCS[name],
+				})),
+				components: Object.entries(components).map(([name, c]) => ({
+					name,
+					elementCount: c.elements.length,
+					savedAt: c.savedAt,
+				})),
+			});
+		},
+	);
+
+	registerTool(
+		"save_component",
+		{
+			title: "Save Component",
+			description:
+				"Save elements as a named reusable component (stored with the canvas). Defaults to the user's current selection. Insert copies with insert_template({ template: name }).",
+			inputSchema: {
+				name: z.string().min(1).describe("Component name"),
+				ids: z
+					.array(z.string())
+					.min(1)
+					.optional()
+					.describe("Element ids to save (default: current selection)"),
+			},
+		},
+		async (input, page) => {
+			const InputSchema = z
+				.object({
+					name: z.string().min(1),
+					ids: z.array(z.string()).min(1).optional(),
+				})
+				.strict();
+			const parsed = InputSchema.safeParse(input ?? {});
+			if (!parsed.success) {
+				return errorResponse("Invalid input for save_component", {
+					issues: zodIssues(parsed.error),
+				});
+			}
+			if (!state?.setComponents) {
+				return errorResponse("Component storage is not available");
+			}
+			const { name } = parsed.data;
+			if (isTemplateName(name)) {
+				return errorResponse("Name is taken by a built-in template", { name });
+			}
+			const all = getS(page);
+			// The selection only exists on the page on screen
+			const selected =
+				page === activePage()
+					? (api?.getAppState().selectedElementIds ?? {})
+					: {};
+			const ids = new Set(
+				parsed.data.ids ?? Object.keys(selected).filter((id) => selected[id]),
+			);
+			const elements = all.filter((e: any) => ids.has(e.id));
+			const bounds = skeletonBounds(elements);
+			if (!bounds) {
+				return errorResponse(
+					parsed.data.ids
+						? "None of the ids were found"
+						: "Nothing is selected; select elements or pass ids",
+					{ ids: parsed.data.ids },
+				);
+			}
+			const components = opContext().components;
+			state.setComponents({
+				...components,
+				[name]: toComponent(elements, bounds),
+			});
+			return jsonContent({
+				success: true,
+				name,
+				saved: elements.map((e: any) => e.id),
+				replaced: name in components,
+			});
+		},
+	);
+	registerTool(
+		"set_label",
+		{
+			title: "Set Label",
+			description:
+				"Attach or update a label on an existing rectangle/ellipse/diamond/arrow by id.",
+			inputSchema: {
+				id: z.string().describe("Id of the target element"),
+				label: LabelSchema.describe("Label to attach/update"),
+			},
+		},
+		async (input, page) => runWrite("set_label", input, page),
+	);
+
+	registerTool(
+		"resolve_overlaps",
+		{
+			title: "Resolve Overlaps",
+			description:
+				"Detect overlapping element boxes and connector labels sitting on shapes, then push elements apart in 24px grid steps while keeping their relative order. Returns { moved: [{ id, dx, dy }], unresolved, passes }.",
+			inputSchema: {
+				ids: z
+					.array(z.string())
+					.min(1)
+					.optional()
+					.describe(
+						"Only these ids may move (default: every unlocked shape/text/image)",
+					),
+				gap: z
+					.number()
+					.min(0)
+					.optional()
+					.describe("Minimum free space between elements (default 24)"),
+			},
+		},
+		async (input, page) => runWrite("resolve_overlaps", input, page),
+	);
+
+	registerTool(
+		"fit_to_content",
+		{
+			title: "Fit To Content",
+			description:
+				"Resize labelled rectangles/ellipses/diamonds to their label, word-wrapped at maxWidth and measured with the label's real font. Each shape keeps its center; bound connectors follow. Returns { resized: [{ id, width, height }], skipped, notFound }.",
+			inputSchema: {
+				ids: z
+					.array(z.string())
+					.min(1)
+					.optional()
+					.describe("Shapes to fit (default: every labelled shape)"),
+				maxWidth: z
+					.number()
+					.positive()
+					.optional()
+					.describe(
+						`Wrap width for the labels, remembered on each label (default: the label's maxWidth, else ${DEFAULT_LABEL_MAX_WIDTH})`,
+					),
+				padding: z
+					.number()
+					.min(0)
+					.optional()
+					.describe(
+						`Space between the label and the shape edge (default ${LABEL_PADDING})`,
+					),
+			},
+		},
+		async (input, page) => {
+			// Excalidraw loads fonts lazily; measure with the real ones
+			await loadFonts(
+				getS(page)
+					.filter((e: any) => e.label)
+					.map((e: any) => e.label),
+			);
+			return runWrite("fit_to_content", input, page);
+		},
+	);
+
+	registerTool(
+		"get_theme",
+		{
+			title: "Get Theme",
+			description:
+				"Return the active style theme (applied to new elements) and the available presets with their per-role styles.",
+			inputSchema: {},
+		},
+		async () =>
+			jsonContent({
+				success: true,
+				theme: opContext().theme,
+				presets: describePresets(),
+			}),
+	);
+
+	registerTool(
+		"set_theme",
+		{
+			title: "Set Theme",
+			description:
+				"Choose the style preset (clean, sketch, dark, brand) that fills in colors, fill, stroke and roughness for new elements by role (process, decision, datastore, actor), connectors and text. Optional per-role overrides, e.g. brand colors. Set restyle to also restyle the existing drawing. preset 'none' turns theming off. The theme applies to all pages: undo/redo it with scope 'theme'; a restyle is a separate step in the page's history.",
+			inputSchema: {
+				preset: z
+					.enum([...STYLE_PRESETS, "none"])
+					.describe("Preset name, or 'none'"),
+				overrides: z
+					.record(
+						z.enum([...ELEMENT_ROLES, "connector", "text"]),
+						StyleOverrideSchema,
+					)
+					.optional()
+					.describe(
+						"Per-role style overrides, e.g. { process: { backgroundColor: '#fde68a' } }",
+					),
+				restyle: z
+					.boolean()
+					.optional()
+					.describe("Also restyle every existing element (default false)"),
+			},
+		},
+		async (input, page) => {
+			const InputSchema = z
+				.object({
+					preset: z.enum([...STYLE_PRESETS, "none"]),
+					overrides: z
+						.record(
+							z.enum([...ELEMENT_ROLES, "connector", "text"]),
+							StyleOverrideSchema,
+						)
+						.optional(),
+					restyle: z.boolean().optional(),
+				})
+				.strict();
+			const parsed = InputSchema.safeParse(input ?? {});
+			if (!parsed.success) {
+				return errorResponse("Invalid input for set_theme", {
+					issues: zodIssues(parsed.error),
+				});
+			}
+			if (!state?.setTheme) {
+				return errorResponse("Theme storage is not available");
+			}
+			const { preset, overrides } = parsed.data;
+			const before = state.getTheme ? state.getTheme() : null;
+			const theme: Theme | null =
+				preset === "none" ? null : { preset, overrides };
+			applyTheme(theme);
+			const prev = getS(page);
+			let next = prev;
+			let restyled: Record<string, any> = {};
+			if (theme && parsed.data.restyle) {
+				try {
+					const out = applyStyleOp(prev, {}, opContext(page));
+					if (!out.ok) {
+						applyTheme(before);
+						return errorResponse(out.message, out.details);
+					}
+					next = out.next;
+					restyled = out.result;
+				} catch (err: any) {
+					applyTheme(before);
+					return errorResponse("Failed to apply style", {
+						message: String(err?.message ?? err),
+					});
+				}
+			}
+			themeHistory.record(before, theme);
+			commit("set_theme", prev, next, page);
+			return jsonContent({ success: true, theme, ...restyled });
+		},
+	);
+
+	registerTool(
+		"apply_style",
+		{
+			title: "Apply Style",
+			description:
+				"Restyle existing elements in bulk from a preset (default: the active theme) by their role. Optionally assign a role to the ids first, or pass explicit style props that win over the preset.",
+			inputSchema: {
+				ids: z
+					.array(z.string())
+					.min(1)
+					.optional()
+					.describe("Elements to restyle (default: all)"),
+				preset: z
+					.enum(STYLE_PRESETS)
+					.optional()
+					.describe("Preset to use (default: the active theme)"),
+				role: RoleEnum.optional().describe(
+					"Assign this role to the shapes among ids before restyling",
+				),
+				style: StyleOverrideSchema.optional().describe(
+					"Explicit style props applied on top",
+				),
+			},
+		},
+		async (input, page) => runWrite("apply_style", input, page),
+	);
+
+	registerTool(
+		"set_diagram_type",
+		{
+			title: "Set Diagram Type",
+			description:
+				"Declare what kind of diagram this canvas holds (flowchart, bpmn, uml_class, er) so shape roles are inferred for it and validate_diagram runs its checks. Returns the roles to use. 'none' clears it.",
+			inputSchema: {
+				diagramType: z
+					.enum([...DIAGRAM_TYPES, "none"])
+					.describe("Diagram type, or 'none'"),
+			},
+		},
+		async (input, page) => {
+			const InputSchema = z
+				.object({ diagramType: z.enum([...DIAGRAM_TYPES, "none"]) })
+				.strict();
+			const parsed = InputSchema.safeParse(input ?? {});
+			if (!parsed.success) {
+				return errorResponse("Invalid input for set_diagram_type", {
+					issues: zodIssues(parsed.error),
+				});
+			}
+			if (!state?.setDiagramType) {
+				return errorResponse("Diagram type storage is not available");
+			}
+			const { diagramType } = parsed.data;
+			if (diagramType === "none") {
+				state.setDiagramType(null, page);
+				return jsonContent({ success: true, diagramType: null });
+			}
+			state.setDiagramType(diagramType, page);
+			return jsonContent({
+				success: true,
+				diagramType,
+				roles: DIAGRAM_ROLES[diagramType],
+				relations:
+					diagramType === "uml_class"
+						? RELATION_KINDS
+						: diagramType === "er"
+							? { cardinality: CARDINALITIES }
+							: undefined,
+			});
+		},
+	);
+
+	registerTool(
+		"validate_diagram",
+		{
+			title: "Validate Diagram",
+			description:
+				"Check the diagram's structure: dangling arrows, decisions/gateways with fewer than 2 outgoing edges, nodes unreachable from a start node, missing start/end, ER relations without crowfoot_* cardinality, untyped UML relations. Returns { valid, issues: [{ code, severity, ids, message }] }.",
+			inputSchema: {
+				diagramType: z
+					.enum(DIAGRAM_TYPES)
+					.optional()
+					.describe(
+						"Checks to run (default: the type set with set_diagram_type)",
+					),
+				ids: z
+					.array(z.string())
+					.min(1)
+					.optional()
+					.describe("Only check these nodes and the edges touching them"),
+			},
+		},
+		async (input, page) => {
+			const InputSchema = z
+				.object({
+					diagramType: z.enum(DIAGRAM_TYPES).optional(),
+					ids: z.array(z.string()).min(1).optional(),
+				})
+				.strict();
+			const parsed = InputSchema.safeParse(input ?? {});
+			if (!parsed.success) {
+				return errorResponse("Invalid input for validate_diagram", {
+					issues: zodIssues(parsed.error),
+				});
+			}
+			const diagramType =
+				parsed.data.diagramType ?? opContext(page).diagramType ?? null;
+			const report = validateDiagram(
+				getS(page),
+				diagramType,
+				parsed.data.ids ? new Set(parsed.data.ids) : undefined,
+			);
+			return jsonContent({
+				success: true,
+				diagramType,
+				valid: !report.issues.some((i) => i.severity === "error"),
+				...report,
+			});
+		},
+	);
+
+	registerTool(
+		"align_elements",
+		{
+			title: "Align Elements",
+			description:
+				"Align elements to the shared bounding box of the given ids. Bound arrows stay attached (arrows bound at both ends are not moved themselves).",
+			inputSchema: {
+				ids: z.array(z.string()).min(2).describe("Ids to align"),
+				alignment: z
+					.enum(["left", "center", "right", "top", "middle", "bottom"])
+					.describe(
+						"Edge or center line to align to (center/middle are horizontal/vertical centers)",
+					),
+			},
+		},
+		async (input, page) => runWrite("align_elements", input, page),
+	);
+
+	registerTool(
+		"distribute_elements",
+		{
+			title: "Distribute Elements",
+			description:
+				"Space elements along an axis with equal gaps, ordered by their current position. Without 'gap' the outermost elements stay in place; with 'gap' the first stays and the rest follow.",
+			inputSchema: {
+				ids: z
+					.array(z.string())
+					.min(2)
+					.describe("Ids to distribute (at least three unless 'gap' is set)"),
+				axis: z
+					.enum(["horizontal", "vertical"])
+					.describe("Direction to distribute along"),
+				gap: z
+					.number()
+					.optional()
+					.describe("Fixed gap in pixels between neighbouring elements"),
+			},
+		},
+		async (input, page) => runWrite("distribute_elements", input, page),
+	);
+
+	registerTool(
+		"bring_to_front",
+		{
+			title: "Bring To Front",
+			description:
+				"Move elements to the top of the stacking order, keeping their relative order.",
+			inputSchema: {
+				ids: z.array(z.string()).min(1).describe("Ids to bring to front"),
+			},
+		},
+		async (input, page) => runWrite("bring_to_front", input, page),
+	);
+
+	registerTool(
+		"send_to_back",
+		{
+			title: "Send To Back",
+			description:
+				"Move elements to the bottom of the stacking order, keeping their relative order.",
+			inputSchema: {
+				ids: z.array(z.string()).min(1).describe("Ids to send to back"),
+			},
+		},
+		async (input, page) => runWrite("send_to_back", input, page),
+	);
+
+	registerTool(
+		"group_elements",
+		{
+			title: "Group Elements",
+			description:
+				"Group elements so they select and move together. Adds a new outermost group; returns its groupId.",
+			inputSchema: {
+				ids: z.array(z.string()).min(2).describe("Ids to group"),
+				groupId: z
+					.string()
+					.optional()
+					.describe("Id for the new group (default group_<n>)"),
+			},
+		},
+		async (input, page) => runWrite("group_elements", input, page),
+	);
+
+	registerTool(
+		"ungroup_elements",
+		{
+			title: "Ungroup Elements",
+			description:
+				"Dissolve a group by 'groupId', or the outermost group of each element in 'ids'.",
+			inputSchema: {
+				groupId: z.string().optional().describe("Group id to dissolve"),
+				ids: z
+					.array(z.string())
+					.min(1)
+					.optional()
+					.describe("Element ids whose outermost group is dissolved"),
+			},
+		},
+		async (input, page) => runWrite("ungroup_elements", input, page),
+	);
+
+	// Transactional batch: run several write ops on a draft and commit all or nothing
+	registerTool(
+		"batch",
+		{
+			title: "Batch",
+			description:
+				"Apply several write operations atomically as one undo step. If any operation fails validation (bad input, unknown ids), nothing is applied.",
+			inputSchema: {
+				operations: z
+					.array(
+						z
+							.object({
+								tool: WriteToolEnum.describe("Write tool to run"),
+								input: z
+									.record(z.any())
+									.optional()
+									.describe(
+										"Input for that tool, same shape as calling it directly",
+									),
+							})
+							.strict(),
+					)
+					.min(1)
+					.describe("Operations to apply in order"),
+			},
+		},
+		async (input, page) => {
 			const InputSchema = z
-				.object({ updates: z.array(ElementUpdateSchema).min(1) })
+				.object({
+					operations: z
+						.array(
+							z
+								.object({
+									tool: WriteToolEnum,
+									input: z.record(z.any()).optional(),
+								})
+								.strict(),
+						)
+						.min(1),
+				})
 				.strict();
-			const parsed = InputSchema.safeParse(input);
+			const parsed = InputSchema.safeParse(input ?? {});
 			if (!parsed.success) {
-				return errorResponse("Invalid input for update_elements", {
+				return errorResponse("Invalid input for batch", {
 					issues: zodIssues(parsed.error),
 				});
 			}
 			try {
-				const list = parsed.data.updates;
-				const existingIds = new Set((getS() || []).map((e: any) => e.id));
-				const notFound = list
-					.filter((u) => !existingIds.has(u.id))
-					.map((u) => u.id);
-				if (notFound.length > 0) {
-					return errorResponse("Some element ids were not found", { notFound });
-				}
-				setS((prev) => {
-					const byId = new Map<string, any>();
-					for (const u of list) {
-						const patch = { ...u.props } as any;
-						if (patch.startArrowhead === "none")
-							patch.startArrowhead = undefined;
-						if (patch.endArrowhead === "none") patch.endArrowhead = undefined;
-						byId.set(u.id, patch);
+				const prev = getS(page);
+				let draft = prev;
+				const results: any[] = [];
+				for (const [index, step] of parsed.data.operations.entries()) {
+					const op = WRITE_OPS[step.tool];
+					const stepInput = op.input.safeParse(step.input ?? {});
+					if (!stepInput.success) {
+						return errorResponse("Batch rolled back: invalid operation input", {
+							index,
+							tool: step.tool,
+							issues: zodIssues(stepInput.error),
+						});
 					}
-					return (prev || []).map((e: any) => {
-						const patch = byId.get(e.id);
-						return patch ? { ...e, ...patch } : e;
-					});
-				});
-				return jsonContent({ success: true, updated: list.length });
+					const out = op.run(draft, stepInput.data, opContext(page));
+					if (!out.ok) {
+						return errorResponse("Batch rolled back: operation failed", {
+							index,
+							tool: step.tool,
+							error: { message: out.message, details: out.details },
+						});
+					}
+					if (out.incomplete) {
+						return errorResponse("Batch rolled back: operation incomplete", {
+							index,
+							tool: step.tool,
+							...out.incomplete,
+						});
+					}
+					draft = out.next;
+					results.push({ tool: step.tool, ...out.result });
+				}
+				commit("batch", prev, draft, page);
+				return jsonContent({ success: true, results });
 			} catch (err: any) {
-				return errorResponse("Failed to update elements", {
+				return errorResponse("Failed to apply batch", {
 					message: String(err?.message ?? err),
 				});
 			}
 		},
 	);
 
+	// Page tools (these take the page as their own argument)
 	server.registerTool(
-		"remove_elements",
+		"list_pages",
 		{
-			title: "Remove Elements",
-			description: "Remove elements by ids",
+			title: "List Pages",
+			description:
+				"List the pages of this canvas document with their ids, element counts, diagram type and which one is shown.",
+			inputSchema: {},
+		},
+		async () => {
+			if (!state?.pages) return errorResponse("Pages are not available");
+			return jsonContent({ success: true, pages: state.pages.list() });
+		},
+	);
+
+	server.registerTool(
+		"create_page",
+		{
+			title: "Create Page",
+			description:
+				"Add a named page (e.g. 'Overview', 'Sequence', 'Data model') for a separate diagram. Shown right away unless show is false.",
 			inputSchema: {
-				ids: z
-					.array(z.string())
-					.min(1)
-					.describe("Array of element ids to remove from the scene"),
+				name: z.string().min(1).describe("Page name"),
+				show: z
+					.boolean()
+					.optional()
+					.describe("Switch to the new page (default true)"),
 			},
 		},
 		async (input) => {
 			const InputSchema = z
-				.object({ ids: z.array(z.string()).min(1) })
+				.object({ name: z.string().min(1), show: z.boolean().optional() })
 				.strict();
-			const parsed = InputSchema.safeParse(input);
+			const parsed = InputSchema.safeParse(input ?? {});
 			if (!parsed.success) {
-				return errorResponse("Invalid input for remove_elements", {
+				return errorResponse("Invalid input for create_page", {
 					issues: zodIssues(parsed.error),
 				});
 			}
-			try {
-				const ids = new Set(parsed.data.ids);
-				const current = getS();
-				const existingIds = new Set(current.map((e: any) => e.id));
-				const notFound: string[] = [];
-				for (const id of ids) if (!existingIds.has(id)) notFound.push(id);
-				setS((prev) => (prev || []).filter((e: any) => !ids.has(e.id)));
-				return jsonContent({
-					success: true,
-					removed: parsed.data.ids.filter((id) => existingIds.has(id)),
-					notFound,
+			if (!state?.pages) return errorResponse("Pages are not available");
+			const name = parsed.data.name.trim();
+			const existing = findPage(state.pages.list(), name);
+			if (existing) {
+				return errorResponse("A page with this name exists", {
+					page: existing,
 				});
-			} catch (err: any) {
-				return errorResponse("Failed to remove elements", {
-					message: String(err?.message ?? err),
+			}
+			const created = state.pages.create(name);
+			if (parsed.data.show ?? true) state.pages.switchTo(created.id);
+			return jsonContent({
+				success: true,
+				page: { ...created, active: state.pages.active() === created.id },
+			});
+		},
+	);
+
+	server.registerTool(
+		"switch_page",
+		{
+			title: "Switch Page",
+			description: "Show another page to the user.",
+			inputSchema: {
+				page: z.string().describe("Page id or name"),
+			},
+		},
+		async (input) => {
+			const parsed = z
+				.object({ page: z.string() })
+				.strict()
+				.safeParse(input ?? {});
+			if (!parsed.success) {
+				return errorResponse("Invalid input for switch_page", {
+					issues: zodIssues(parsed.error),
+				});
+			}
+			if (!state?.pages) return errorResponse("Pages are not available");
+			const pages = state.pages.list();
+			const target = findPage(pages, parsed.data.page);
+			if (!target) {
+				return errorResponse("Page not found", {
+					page: parsed.data.page,
+					pages: pages.map((p) => p.name),
 				});
 			}
+			state.pages.switchTo(target.id);
+			return jsonContent({ success: true, active: target.id });
 		},
 	);
 
-	// Search elements helper
 	server.registerTool(
-		"search_elements",
+		"delete_page",
 		{
-			title: "Search Elements",
+			title: "Delete Page",
 			description:
-				"Find element ids by type, by text substring, or within a bounding box.",
+				"Delete a page and its drawing. The last remaining page cannot be deleted.",
 			inputSchema: {
-				type: z
-					.enum([
-						"rectangle",
-						"ellipse",
-						"diamond",
-						"line",
-						"arrow",
-						"text",
-						"image",
-						"frame",
-						"magicframe",
-					])
-					.optional(),
-				textIncludes: z
-					.string()
-					.optional()
-					.describe("Substring to match in text content (case-insensitive)"),
-				within: z
-					.object({
-						x: z.number(),
-						y: z.number(),
-						width: z.number(),
-						height: z.number(),
-					})
-					.optional()
-					.describe(
-						"Bounding box filter: element's bounding box must intersect this rect",
-					),
+				page: z.string().describe("Page id or name"),
 			},
 		},
 		async (input) => {
-			const InputSchema = z
-				.object({
-					type: z
-						.enum([
-							"rectangle",
-							"ellipse",
-							"diamond",
-							"line",
-							"arrow",
-							"text",
-							"image",
-							"frame",
-							"magicframe",
-						])
-						.optional(),
-					textIncludes: z.string().optional(),
-					within: z
-						.object({
-							x: z.number(),
-							y: z.number(),
-							width: z.number(),
-							height: z.number(),
-						})
-						.optional(),
-				})
-				.strict();
-			const parsed = InputSchema.safeParse(input ?? {});
+			const parsed = z
+				.object({ page: z.string() })
+				.strict()
+				.safeParse(input ?? {});
 			if (!parsed.success) {
-				return errorResponse("Invalid input for search_elements", {
+				return errorResponse("Invalid input for delete_page", {
 					issues: zodIssues(parsed.error),
 				});
 			}
-			const apiNow = api;
-			if (!apiNow) return errorResponse("Excalidraw API not ready");
-			try {
-				const { type, textIncludes, within } = parsed.data;
-				const q = textIncludes?.toLowerCase();
-				const elements = apiNow.getSceneElements();
-				const hits = elements.filter((e: any) => {
-					if (type && e.type !== type) return false;
-					if (q) {
-						const t = (e as any).text?.toLowerCase?.() || "";
-						if (!t.includes(q)) return false;
-					}
-					if (within) {
-						const ex1 = e.x;
-						const ey1 = e.y;
-						const ex2 = e.x + e.width;
-						const ey2 = e.y + e.height;
-						const wx1 = within.x;
-						const wy1 = within.y;
-						const wx2 = within.x + within.width;
-						const wy2 = within.y + within.height;
-						const intersects = !(
-							ex2 < wx1 ||
-							ex1 > wx2 ||
-							ey2 < wy1 ||
-							ey1 > wy2
-						);
-						if (!intersects) return false;
-					}
-					return true;
-				});
-				const out = hits.map((e: any) => ({
-					id: e.id,
-					type: e.type,
-					x: e.x,
-					y: e.y,
-					width: e.width,
-					height: e.height,
-					text: (e as any).text ?? undefined,
-				}));
-				return jsonContent(out);
-			} catch (err: any) {
-				return errorResponse("Failed to search elements", {
-					message: String(err?.message ?? err),
+			if (!state?.pages) return errorResponse("Pages are not available");
+			const pages = state.pages.list();
+			const target = findPage(pages, parsed.data.page);
+			if (!target) {
+				return errorResponse("Page not found", {
+					page: parsed.data.page,
+					pages: pages.map((p) => p.name),
 				});
 			}
+			if (pages.length === 1) {
+				return errorResponse("Cannot delete the only page");
+			}
+			state.pages.remove(target.id);
+			histories.delete(target.id);
+			return jsonContent({
+				success: true,
+				deleted: target.id,
+				active: state.pages.active(),
+			});
 		},
 	);
 
-	// Connect two elements by id using a bound arrow.
-	// Implementation detail: we rebuild the scene via convertToExcalidrawElements with keepIds=true
-	// so the arrow can bind to existing shapes, per ElementSkeleton docs.
-server.registerTool(
-    "connect_elements",
-    {
-        title: "Connect Elements",
-        description:
-            "Create arrow(s) bound between element ids. Provide an array 'connections'.",
-        inputSchema: {
-            connections: z
-                .array(
-                    z
-                        .object({
-                            fromId: z.string(),
-                            toId: z.string(),
-                            label: LabelSchema.optional(),
-                            style: StylePropsSchema.extend({
-                                startArrowhead: ArrowheadEnum.optional(),
-                                endArrowhead: ArrowheadEnum.optional(),
-                                strokeWidth: z.number().optional(),
-                            }).optional(),
-                        })
-                        .strict(),
-                )
-                .min(1)
-                .describe("Array of connections to create"),
-        },
-    },
-		async (input) => {
-			const SingleConnectionSchema = z
+	// History tools
+	registerTool(
+		"undo",
+		{
+			title: "Undo",
+			description:
+				"Revert the most recent write tool call(s). Each tool call or batch is one step. Changes made since (e.g. by hand) are kept; if one touched an element the step also changed, nothing is reverted and the conflicting ids are returned.",
+			inputSchema: {
+				steps: z
+					.number()
+					.int()
+					.min(1)
+					.optional()
+					.describe("Number of steps to undo (default 1)"),
+				scope: z
+					.enum(["page", "theme"])
+					.optional()
+					.describe(
+						"'page' (default): the page's write steps; 'theme': set_theme switches, shared by all pages",
+					),
+			},
+		},
+		async (input, page) => {
+			const InputSchema = z
 				.object({
-					fromId: z.string(),
-					toId: z.string(),
-					label: LabelSchema.optional(),
-					style: StylePropsSchema.extend({
-						startArrowhead: ArrowheadEnum.optional(),
-						endArrowhead: ArrowheadEnum.optional(),
-						strokeWidth: z.number().optional(),
-					}).optional(),
+					steps: z.number().int().min(1).optional(),
+					scope: z.enum(["page", "theme"]).optional(),
 				})
 				.strict();
-        const InputSchema = z
-            .object({ connections: z.array(SingleConnectionSchema).min(1) })
-            .strict();
-        const parsed = InputSchema.safeParse(input ?? {});
+			const parsed = InputSchema.safeParse(input ?? {});
 			if (!parsed.success) {
-				return errorResponse("Invalid input for connect_elements", {
+				return errorResponse("Invalid input for undo", {
 					issues: zodIssues(parsed.error),
 				});
 			}
-			try {
-				const current = getS();
-				const ids = new Set(current.map((e: any) => e.id));
-            const pairs = (parsed.data as any).connections;
-
-				const created: string[] = [];
-				const failed: Array<{ fromId: string; toId: string; reason: string }> =
-					[];
-
-				const arrows: any[] = [];
-				for (const p of pairs) {
-					const { fromId, toId } = p;
-					if (!ids.has(fromId) || !ids.has(toId)) {
-						failed.push({
-							fromId,
-							toId,
-							reason: !ids.has(fromId) ? "fromId not found" : "toId not found",
-						});
-						continue;
-					}
-					const fromEl: any = current.find((e: any) => e.id === fromId);
-					const toEl: any = current.find((e: any) => e.id === toId);
-					const cFrom = centerPoint(fromEl);
-					const cTo = centerPoint(toEl);
-					const start = edgePoint(fromEl, cTo);
-					const end = edgePoint(toEl, cFrom);
-
-					const arrow: any = {
-						type: "arrow",
-						x: start.x,
-						y: start.y,
-						width: end.x - start.x,
-						height: end.y - start.y,
-						start: { id: fromId },
-						end: { id: toId },
-						endArrowhead: "arrow",
-					};
-					if (p.label) arrow.label = p.label;
-					if (p.style) {
-						const s: any = { ...p.style };
-						if (s.startArrowhead === "none") s.startArrowhead = undefined;
-						if (s.endArrowhead === "none") s.endArrowhead = undefined;
-						Object.assign(arrow, s);
-					}
-					arrows.push(arrow);
-				}
-
-				if (arrows.length === 0) {
-					return jsonContent({ success: true, created, failed });
+			if (parsed.data.scope === "theme") {
+				const theme = themeHistory.undo(parsed.data.steps ?? 1);
+				if (theme === undefined) {
+					return errorResponse("No theme change to undo");
 				}
-				setS((prev) => [...(prev || []), ...arrows]);
-				return jsonContent({ success: true, created, failed });
-			} catch (err: any) {
-				return errorResponse("Failed to connect elements", {
-					message: String(err?.message ?? err),
+				applyTheme(theme);
+				return jsonContent({
+					success: true,
+					theme,
+					canUndo: themeHistory.canUndo(),
+					canRedo: themeHistory.canRedo(),
 				});
 			}
+			const history = historyOf(page);
+			const prev = getS(page);
+			const step = history.undo(prev, parsed.data.steps ?? 1);
+			if (!step) return errorResponse("Nothing to undo");
+			if (!step.ok) {
+				return errorResponse(
+					"Cannot undo: elements were changed after this step",
+					{
+						step: { id: step.entry.id, tool: step.entry.tool },
+						conflicts: step.conflicts,
+						hint: "Edit these elements directly instead",
+					},
+				);
+			}
+			state?.changes?.record("agent", page, prev, step.snapshot, "undo");
+			setS(step.snapshot, page);
+			return jsonContent({
+				success: true,
+				undone: step.entries.map((e) => ({ id: e.id, tool: e.tool })),
+				canUndo: history.canUndo(),
+				canRedo: history.canRedo(),
+			});
 		},
 	);
 
-	// Attach or update a label on an existing container/arrow by rebuilding the scene.
-	// Simple grid layout tool to space a set of elements in row-major order
-	server.registerTool(
-		"layout_grid",
+	registerTool(
+		"redo",
 		{
-			title: "Layout Grid",
+			title: "Redo",
 			description:
-				"Lay out the given element ids on a simple grid starting at origin (row-major).",
+				"Re-apply tool call(s) reverted by undo. Any new write clears the redo stack. Refuses, returning the conflicting ids, when an element the step changes was edited since.",
 			inputSchema: {
-				ids: z
-					.array(z.string())
-					.min(1)
-					.describe("Ids to layout in row-major order"),
-				origin: z
-					.object({ x: z.number(), y: z.number() })
-					.describe("Top-left starting point for the grid"),
-				cols: z.number().min(1).describe("Number of columns in the grid"),
-				gapX: z
+				steps: z
 					.number()
+					.int()
+					.min(1)
 					.optional()
-					.describe("Horizontal gap between columns (default 200)"),
-				gapY: z
-					.number()
+					.describe("Number of steps to redo (default 1)"),
+				scope: z
+					.enum(["page", "theme"])
 					.optional()
-					.describe("Vertical gap between rows (default 120)"),
+					.describe(
+						"'page' (default): the page's write steps; 'theme': set_theme switches, shared by all pages",
+					),
 			},
 		},
-		async (input) => {
+		async (input, page) => {
 			const InputSchema = z
 				.object({
-					ids: z.array(z.string()).min(1),
-					origin: z.object({ x: z.number(), y: z.number() }),
-					cols: z.number().min(1),
-					gapX: z.number().optional(),
-					gapY: z.number().optional(),
+					steps: z.number().int().min(1).optional(),
+					scope: z.enum(["page", "theme"]).optional(),
 				})
 				.strict();
 			const parsed = InputSchema.safeParse(input ?? {});
 			if (!parsed.success) {
-				return errorResponse("Invalid input for layout_grid", {
+				return errorResponse("Invalid input for redo", {
 					issues: zodIssues(parsed.error),
 				});
 			}
-			try {
-				const ids = parsed.data.ids;
-				const origin = parsed.data.origin;
-				const cols = parsed.data.cols;
-				const gapX = Number.isFinite(parsed.data.gapX as any)
-					? (parsed.data.gapX as number)
-					: 200;
-				const gapY = Number.isFinite(parsed.data.gapY as any)
-					? (parsed.data.gapY as number)
-					: 120;
-
-				const current = getS();
-				const existing = new Set((current || []).map((e: any) => e.id));
-				const notFound = ids.filter((id) => !existing.has(id));
-				if (notFound.length === ids.length) {
-					return errorResponse("None of the ids were found", { ids });
+			if (parsed.data.scope === "theme") {
+				const theme = themeHistory.redo(parsed.data.steps ?? 1);
+				if (theme === undefined) {
+					return errorResponse("No theme change to redo");
 				}
-				const targetIds = ids.filter((id) => existing.has(id));
-				const posById = new Map<string, { x: number; y: number }>();
-				targetIds.forEach((id, i) => {
-					const row = Math.floor(i / cols);
-					const col = i % cols;
-					posById.set(id, {
-						x: origin.x + col * gapX,
-						y: origin.y + row * gapY,
-					});
+				applyTheme(theme);
+				return jsonContent({
+					success: true,
+					theme,
+					canUndo: themeHistory.canUndo(),
+					canRedo: themeHistory.canRedo(),
 				});
-
-				setS((prev) =>
-					(prev || []).map((e: any) =>
-						posById.has(e.id)
-							? { ...e, x: posById.get(e.id)!.x, y: posById.get(e.id)!.y }
-							: e,
-					),
+			}
+			const history = historyOf(page);
+			const prev = getS(page);
+			const step = history.redo(prev, parsed.data.steps ?? 1);
+			if (!step) return errorResponse("Nothing to redo");
+			if (!step.ok) {
+				return errorResponse(
+					"Cannot redo: elements were changed after this step",
+					{
+						step: { id: step.entry.id, tool: step.entry.tool },
+						conflicts: step.conflicts,
+						hint: "Edit these elements directly instead",
+					},
 				);
-
-				return jsonContent({ success: true, laidOut: targetIds, notFound });
-			} catch (err: any) {
-				return errorResponse("Failed to layout grid", {
-					message: String(err?.message ?? err),
-				});
 			}
+			state?.changes?.record("agent", page, prev, step.snapshot, "redo");
+			setS(step.snapshot, page);
+			return jsonContent({
+				success: true,
+				redone: step.entries.map((e) => ({ id: e.id, tool: e.tool })),
+				canUndo: history.canUndo(),
+				canRedo: history.canRedo(),
+			});
+		},
+	);
+
+	registerTool(
+		"list_history",
+		{
+			title: "List History",
+			description:
+				"List recorded write steps (oldest first). Entries with applied=false can be redone. `theme` tells whether undo/redo with scope 'theme' can go back or forward.",
+			inputSchema: {},
+		},
+		async (_input, page) => {
+			const history = historyOf(page);
+			return jsonContent({
+				entries: history.list(),
+				canUndo: history.canUndo(),
+				canRedo: history.canRedo(),
+				theme: {
+					canUndo: themeHistory.canUndo(),
+					canRedo: themeHistory.canRedo(),
+				},
+			});
 		},
 	);
+
+	// Change feed: spans all pages, so it takes `page` as a filter only
 	server.registerTool(
-		"set_label",
+		"get_changes_since",
 		{
-			title: "Set Label",
+			title: "Get Changes Since",
 			description:
-				"Attach or update a label on an existing rectangle/ellipse/diamond/arrow by id.",
+				"What changed on the canvas and who did it: the user by hand or the agent through a tool. Without `since`, returns everything since the previous call, so call it at the start of a turn to see what the user did in the meantime. Returns { changes: [{ seq, at, source, tool?, page, summary, elements: [{ id, type, label?, kind, fields? }] }], cursor }.",
 			inputSchema: {
-				id: z.string().describe("Id of the target element"),
-				label: LabelSchema.describe("Label to attach/update"),
+				since: z
+					.number()
+					.int()
+					.min(0)
+					.optional()
+					.describe(
+						"Return changes after this cursor (0 = everything kept); default: the cursor of the previous call",
+					),
+				source: z
+					.enum(["user", "agent"])
+					.optional()
+					.describe("Only changes by the user or by the agent"),
+				page: z
+					.string()
+					.optional()
+					.describe("Only changes on this page (id or name)"),
 			},
 		},
 		async (input) => {
 			const InputSchema = z
-				.object({ id: z.string(), label: LabelSchema })
+				.object({
+					since: z.number().int().min(0).optional(),
+					source: z.enum(["user", "agent"]).optional(),
+					page: z.string().optional(),
+				})
 				.strict();
 			const parsed = InputSchema.safeParse(input ?? {});
 			if (!parsed.success) {
-				return errorResponse("Invalid input for set_label", {
+				return errorResponse("Invalid input for get_changes_since", {
 					issues: zodIssues(parsed.error),
 				});
 			}
-			try {
-				const current = getS();
-				const target: any = current.find((e: any) => e.id === parsed.data.id);
-				if (!target) {
-					return errorResponse("Element id not found", { id: parsed.data.id });
-				}
-				if (
-					!["rectangle", "ellipse", "diamond", "arrow"].includes(target.type)
-				) {
-					return errorResponse(
-						"Label is only supported for rectangle/ellipse/diamond/arrow",
-						{ type: target.type },
-					);
-				}
-				setS((prev) =>
-					(prev || []).map((e: any) =>
-						e.id === parsed.data.id ? { ...e, label: parsed.data.label } : e,
-					),
-				);
-				return jsonContent({ success: true });
-			} catch (err: any) {
-				return errorResponse("Failed to set label", {
-					message: String(err?.message ?? err),
+			const feed = state?.changes;
+			if (!feed) return errorResponse("Change feed is not available");
+			const { since, source, page: ref } = parsed.data;
+			const page = ref === undefined ? undefined : resolvePage(ref);
+			if (page === null) {
+				return errorResponse("Page not found", {
+					page: ref,
+					pages: state?.pages?.list().map((p) => p.name) ?? [],
 				});
 			}
+			// Pending hand edits are recorded when the canvas is next read
+			getS();
+			const { entries, truncated } = feed.since(since ?? changeCursor.seq);
+			changeCursor.seq = feed.latest();
+			return jsonContent({
+				success: true,
+				changes: entries
+					.filter(
+						(e) =>
+							(!source || e.source === source) && (!page || e.page === page),
+					)
+					.map((e) => ({
+						seq: e.seq,
+						at: new Date(e.at).toISOString(),
+						source: e.source,
+						tool: e.tool,
+						page: e.page,
+						summary: describeEntry(e),
+						elements: e.changes,
+					})),
+				cursor: changeCursor.seq,
+				...(truncated ? { truncated } : {}),
+			});
 		},
 	);
 
 	useNuwaMCP(server);
 }
-
-// Geometry helpers: compute edge points for rectangle/ellipse/diamond
-type XY = { x: number; y: number };
-function centerPoint(el: any): XY {
-	const w = el.width ?? 0;
-	const h = el.height ?? 0;
-	return { x: (el.x ?? 0) + w / 2, y: (el.y ?? 0) + h / 2 };
-}
-function unitVec(from: XY, to: XY): XY {
-	const dx = to.x - from.x,
-		dy = to.y - from.y;
-	const L = Math.hypot(dx, dy) || 1;
-	return { x: dx / L, y: dy / L };
-}
-function rectEdge(el: any, toward: XY): XY {
-	const cx = (el.x ?? 0) + (el.width ?? 0) / 2;
-	const cy = (el.y ?? 0) + (el.height ?? 0) / 2;
-	const rx = (el.width ?? 0) / 2;
-	const ry = (el.height ?? 0) / 2;
-	const d = unitVec({ x: cx, y: cy }, toward);
-	const ux = d.x !== 0 ? rx / Math.abs(d.x) : Number.POSITIVE_INFINITY;
-	const uy = d.y !== 0 ? ry / Math.abs(d.y) : Number.POSITIVE_INFINITY;
-	const u = Math.min(ux, uy);
-	return { x: cx + d.x * u, y: cy + d.y * u };
-}
-function ellipseEdge(el: any, toward: XY): XY {
-	const cx = (el.x ?? 0) + (el.width ?? 0) / 2;
-	const cy = (el.y ?? 0) + (el.height ?? 0) / 2;
-	const rx = Math.max(1e-6, (el.width ?? 0) / 2);
-	const ry = Math.max(1e-6, (el.height ?? 0) / 2);
-	const d = unitVec({ x: cx, y: cy }, toward);
-	const t = 1 / Math.sqrt((d.x * d.x) / (rx * rx) + (d.y * d.y) / (ry * ry));
-	return { x: cx + d.x * t, y: cy + d.y * t };
-}
-function cross(a: XY, b: XY): number {
-	return a.x * b.y - a.y * b.x;
-}
-function sub(a: XY, b: XY): XY {
-	return { x: a.x - b.x, y: a.y - b.y };
-}
-function raySegHit(origin: XY, dir: XY, a: XY, b: XY): XY | null {
-	const r = sub(b, a);
-	const denom = cross(dir, r);
-	if (Math.abs(denom) < 1e-8) return null;
-	const ap = sub(a, origin);
-	const u = cross(ap, r) / denom;
-	const t = cross(ap, dir) / denom;
-	if (u < 0 || t < 0 || t > 1) return null;
-	return { x: origin.x + dir.x * u, y: origin.y + dir.y * u };
-}
-function diamondEdge(el: any, toward: XY): XY {
-	const cx = (el.x ?? 0) + (el.width ?? 0) / 2;
-	const cy = (el.y ?? 0) + (el.height ?? 0) / 2;
-	const x = el.x ?? 0,
-		y = el.y ?? 0,
-		w = el.width ?? 0,
-		h = el.height ?? 0;
-	const top: XY = { x: cx, y: y },
-		right: XY = { x: x + w, y: cy },
-		bottom: XY = { x: cx, y: y + h },
-		left: XY = { x: x, y: cy };
-	const segs: [XY, XY][] = [
-		[top, right],
-		[right, bottom],
-		[bottom, left],
-		[left, top],
-	];
-	const origin = { x: cx, y: cy };
-	const d = unitVec(origin, toward);
-	let best: XY | null = null;
-	let bestDist = Infinity;
-	for (const [a, b] of segs) {
-		const pt = raySegHit(origin, d, a, b);
-		if (!pt) continue;
-		const dist = Math.hypot(pt.x - origin.x, pt.y - origin.y);
-		if (dist < bestDist) {
-			bestDist = dist;
-			best = pt;
-		}
-	}
-	return best ?? origin;
-}
-function edgePoint(el: any, toward: XY): XY {
-	switch (el.type) {
-		case "ellipse":
-			return ellipseEdge(el, toward);
-		case "diamond":
-			return diamondEdge(el, toward);
-		default:
-			return rectEdge(el, toward);
-	}
-}
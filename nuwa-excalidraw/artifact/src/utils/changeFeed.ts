@@ -0,0 +1,171 @@
+// Feed of canvas changes and who made them: the user drawing by hand or the
+// agent through a tool call. Entries diff skeleton snapshots, so labels fold
+// into their containers and the ids match what the tools use.
+
+export type ChangeSource = "user" | "agent";
+
+export type ElementChange = {
+	id: string;
+	type: string;
+	label?: string;
+	kind: "added" | "removed" | "modified";
+	// What changed on a modified element: moved, resized, text, ...
+	fields?: string[];
+};
+
+export type ChangeEntry = {
+	seq: number;
+	at: number;
+	source: ChangeSource;
+	// Tool that made an agent change
+	tool?: string;
+	page: string;
+	changes: ElementChange[];
+};
+
+const STYLE_KEYS = [
+	"strokeColor",
+	"backgroundColor",
+	"fillStyle",
+	"strokeWidth",
+	"strokeStyle",
+	"roughness",
+	"opacity",
+	"roundness",
+	"fontSize",
+	"fontFamily",
+	"textAlign",
+	"verticalAlign",
+	"lineHeight",
+	"startArrowhead",
+	"endArrowhead",
+];
+
+// Each field name and the skeleton values it compares
+const FIELDS: [string, (e: any) => unknown][] = [
+	["moved", (e) => [e.x, e.y]],
+	["resized", (e) => [e.width, e.height]],
+	["rotated", (e) => e.angle ?? 0],
+	["text", (e) => e.text ?? e.label?.text],
+	["reshaped", (e) => e.points],
+	["restyled", (e) => [STYLE_KEYS.map((k) => e[k]), e.label?.strokeColor]],
+	["connected", (e) => [e.start?.id, e.end?.id]],
+	["grouped", (e) => e.groupIds ?? []],
+	["locked", (e) => !!e.locked],
+];
+
+const same = (a: unknown, b: unknown) =>
+	JSON.stringify(a) === JSON.stringify(b);
+
+function labelOf(e: any): string | undefined {
+	const text = e.label?.text ?? e.text ?? e.name;
+	return typeof text === "string" && text.trim()
+		? text.replace(/\s+/g, " ").trim().slice(0, 60)
+		: undefined;
+}
+
+function changeOf(e: any, kind: ElementChange["kind"]): ElementChange {
+	const label = labelOf(e);
+	return { id: e.id, type: e.type, ...(label ? { label } : {}), kind };
+}
+
+// Element-level difference between two skeleton snapshots
+export function diffSkeletons(
+	before: readonly any[],
+	after: readonly any[],
+): ElementChange[] {
+	const prev = new Map<string, any>(before.map((e: any) => [e.id, e]));
+	const next = new Map<string, any>(after.map((e: any) => [e.id, e]));
+	const out: ElementChange[] = [];
+	for (const e of after) {
+		const old = prev.get(e.id);
+		if (!old) {
+			out.push(changeOf(e, "added"));
+			continue;
+		}
+		if (old === e) continue;
+		const fields = FIELDS.filter(([, get]) => !same(get(old), get(e))).map(
+			([name]) => name,
+		);
+		if (fields.length > 0) out.push({ ...changeOf(e, "modified"), fields });
+	}
+	for (const e of before) {
+		if (!next.has(e.id)) out.push(changeOf(e, "removed"));
+	}
+	return out;
+}
+
+const VERBS: Record<string, string> = {
+	moved: "moved",
+	resized: "resized",
+	rotated: "rotated",
+	text: "edited the text of",
+	reshaped: "reshaped",
+	restyled: "restyled",
+	connected: "reconnected",
+	grouped: "regrouped",
+	locked: "locked/unlocked",
+};
+
+const nameOf = (c: ElementChange) =>
+	c.label ? `${c.type} "${c.label}" (${c.id})` : `${c.type} ${c.id}`;
+
+// One line such as: user moved rectangle "Login" (box_login); deleted arrow a1
+export function describeEntry(entry: ChangeEntry): string {
+	const parts = entry.changes.map((c) => {
+		if (c.kind === "added") return `added ${nameOf(c)}`;
+		if (c.kind === "removed") return `deleted ${nameOf(c)}`;
+		const verbs = (c.fields ?? []).map((f) => VERBS[f] ?? f);
+		return `${verbs.join(" and ")} ${nameOf(c)}`;
+	});
+	const who = entry.source === "agent" ? `agent (${entry.tool})` : "user";
+	return `${who} ${parts.join("; ")}`;
+}
+
+// Bounded, in-memory feed; `onRecord` sees every new entry
+export function createChangeFeed(
+	onRecord?: (entry: ChangeEntry) => void,
+	limit = 200,
+) {
+	const entries: ChangeEntry[] = [];
+	let seq = 0;
+
+	return {
+		// Diff two snapshots and append the result; null when nothing changed
+		record(
+			source: ChangeSource,
+			page: string,
+			before: readonly any[],
+			after: readonly any[],
+			tool?: string,
+		): ChangeEntry | null {
+			if (before === after) return null;
+			const changes = diffSkeletons(before, after);
+			if (changes.length === 0) return null;
+			const entry: ChangeEntry = {
+				seq: ++seq,
+				at: Date.now(),
+				source,
+				...(tool ? { tool } : {}),
+				page,
+				changes,
+			};
+			entries.push(entry);
+			if (entries.length > limit) entries.splice(0, entries.length - limit);
+			onRecord?.(entry);
+			return entry;
+		},
+
+		// Entries after `seq`, oldest first; `truncated` when older entries
+		// in that range were already dropped
+		since(after: number): { entries: ChangeEntry[]; truncated: boolean } {
+			const list = entries.filter((e) => e.seq > after);
+			const oldest = entries[0]?.seq ?? seq + 1;
+			return { entries: list, truncated: oldest > after + 1 };
+		},
+
+		latest: () => seq,
+	};
+}
+
+export type ChangeFeed = ReturnType<typeof createChangeFeed>;
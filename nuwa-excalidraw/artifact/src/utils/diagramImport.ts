@@ -0,0 +1,866 @@
+// Parse Mermaid (flowchart, sequence, class, ER) and Graphviz DOT sources
+// into a small intermediate model. The MCP layer turns that model into
+// skeletons, lays it out and binds arrows; nothing here knows about Excalidraw.
+
+export type ImportShape = "rectangle" | "ellipse" | "diamond";
+
+export type ImportNode = {
+	key: string;
+	label: string;
+	shape: ImportShape;
+	textAlign?: "left" | "center";
+};
+
+export type ImportEdge = {
+	from: string;
+	to: string;
+	label?: string;
+	strokeStyle?: "solid" | "dashed" | "dotted";
+	strokeWidth?: number;
+	// Arrowhead names from ArrowheadEnum; "none" for no head
+	startArrowhead?: string;
+	endArrowhead?: string;
+};
+
+export type ImportGroup = { key: string; label: string; members: string[] };
+
+export type ImportedGraph = {
+	kind: "flowchart" | "class" | "er" | "dot";
+	direction: "TB" | "LR";
+	nodes: ImportNode[];
+	edges: ImportEdge[];
+	groups: ImportGroup[];
+	warnings: string[];
+};
+
+export type ImportedSequence = {
+	kind: "sequence";
+	participants: { key: string; label: string; actor: boolean }[];
+	messages: {
+		from: string;
+		to: string;
+		label: string;
+		dashed: boolean;
+		endArrowhead: string;
+	}[];
+	warnings: string[];
+};
+
+export type ImportedDiagram = ImportedGraph | ImportedSequence;
+
+export type DiagramFormat = "auto" | "mermaid" | "dot";
+
+export function parseDiagram(
+	source: string,
+	format: DiagramFormat = "auto",
+): ImportedDiagram {
+	const isDot =
+		format === "dot" ||
+		(format === "auto" &&
+			/^\s*(?:strict\s+)?(?:di)?graph\b[^\n{]*\{/i.test(
+				stripDotComments(source),
+			));
+	return isDot ? parseDot(source) : parseMermaid(source);
+}
+
+// Turn a node name into an id-safe fragment (stable for the same name).
+// Names with non-ASCII characters get a short hash of the name appended, so
+// "用户" and "订单" do not both collapse to "node".
+export function slugId(name: string): string {
+	const trimmed = name.trim();
+	const s = trimmed.replace(/[^A-Za-z0-9_]+/g, "_").replace(/^_+|_+$/g, "");
+	if (!/[^\x00-\x7f]/.test(trimmed)) return s || "node";
+	return s ? `${s}_${nameHash(trimmed)}` : `n_${nameHash(trimmed)}`;
+}
+
+// FNV-1a over the UTF-16 code units, in base 36
+function nameHash(text: string): string {
+	let h = 0x811c9dc5;
+	for (let i = 0; i < text.length; i++) {
+		h ^= text.charCodeAt(i);
+		h = Math.imul(h, 0x01000193);
+	}
+	return (h >>> 0).toString(36);
+}
+
+// Ids for one import. Each node key keeps its own id even when two keys slug
+// alike ("A-B" and "A_B"), and ids handed out for edges, frames and the like
+// never land on a node id. `taken` are ids already in use elsewhere.
+export function idAllocator(prefix = "", taken: Iterable<string> = []) {
+	const used = new Set<string>(taken);
+	const byKey = new Map<string, string>();
+	const unique = (base: string) => {
+		let id = `${prefix}${base}`;
+		for (let n = 2; used.has(id); n++) id = `${prefix}${base}_${n}`;
+		used.add(id);
+		return id;
+	};
+	const node = (key: string) => {
+		let id = byKey.get(key);
+		if (id === undefined) {
+			id = unique(slugId(key));
+			byKey.set(key, id);
+		}
+		return id;
+	};
+	return { prefix, node, unique };
+}
+
+export type IdAllocator = ReturnType<typeof idAllocator>;
+
+function unquote(s: string): string {
+	const t = s.trim();
+	if (t.length >= 2 && t.startsWith('"') && t.endsWith('"')) {
+		return t.slice(1, -1);
+	}
+	return t;
+}
+
+// Mermaid labels use <br> for line breaks and may carry simple markup
+function cleanLabel(s: string): string {
+	return unquote(s)
+		.replace(/<br\s*\/?>/gi, "\n")
+		.replace(/<[^>]+>/g, "")
+		.replace(/#quot;/g, '"')
+		.trim();
+}
+
+function graphBuilder(kind: ImportedGraph["kind"], defaultShape: ImportShape) {
+	const nodes = new Map<string, ImportNode>();
+	const graph: ImportedGraph = {
+		kind,
+		direction: "TB",
+		nodes: [],
+		edges: [],
+		groups: [],
+		warnings: [],
+	};
+	const node = (key: string, label?: string, shape?: ImportShape) => {
+		let n = nodes.get(key);
+		if (!n) {
+			n = { key, label: label ?? key, shape: shape ?? defaultShape };
+			nodes.set(key, n);
+			graph.nodes.push(n);
+		} else {
+			if (label !== undefined) n.label = label;
+			if (shape) n.shape = shape;
+		}
+		return n;
+	};
+	return { graph, node };
+}
+
+function toDirection(dir: string | undefined): "TB" | "LR" {
+	const d = (dir ?? "").toUpperCase();
+	return d === "LR" || d === "RL" ? "LR" : "TB";
+}
+
+// ---------------------------------------------------------------------------
+// Mermaid
+
+function parseMermaid(source: string): ImportedDiagram {
+	const lines = source
+		.split(/\r?\n/)
+		.map((l) => l.replace(/%%.*$/, "").trim())
+		.filter((l) => l.length > 0 && !/^---/.test(l));
+	const header = lines.shift() ?? "";
+	const flow = /^(flowchart|graph)(?:\s+(\w+))?\s*;?$/i.exec(header);
+	if (flow) return parseFlowchart(lines, toDirection(flow[2]));
+	if (/^sequenceDiagram\b/i.test(header)) return parseSequence(lines);
+	if (/^classDiagram(-v2)?\b/i.test(header)) return parseClassDiagram(lines);
+	if (/^erDiagram\b/i.test(header)) return parseErDiagram(lines);
+	throw new Error(
+		`Unsupported Mermaid diagram header: "${header}". Expected flowchart/graph, sequenceDiagram, classDiagram or erDiagram.`,
+	);
+}
+
+// Mermaid flowchart node shapes, longest delimiters first
+const FLOW_SHAPES: [string, string, ImportShape][] = [
+	["(((", ")))", "ellipse"],
+	["((", "))", "ellipse"],
+	["([", "])", "ellipse"],
+	["[[", "]]", "rectangle"],
+	["[(", ")]", "rectangle"],
+	["{{", "}}", "rectangle"],
+	["[/", "/]", "rectangle"],
+	["[\\", "\\]", "rectangle"],
+	["[/", "\\]", "rectangle"],
+	["[\\", "/]", "rectangle"],
+	["[", "]", "rectangle"],
+	["(", ")", "rectangle"],
+	["{", "}", "diamond"],
+	[">", "]", "rectangle"],
+];
+
+const FLOW_ID = /^\s*(\w+(?:-\w+)*)/;
+// `-- text -->`, `== text ==>`, `-. text .->`
+const FLOW_LINK_TEXT =
+	/^\s*(<?)(--|==|-\.)\s+(.+?)\s+(-{2,}|={2,}|\.-+)([>ox]?)(?=\s|\w)/;
+// `-->`, `---`, `==>`, `-.->`, `<-->`, `--o`, `--x`, optionally `|text|`
+const FLOW_LINK =
+	/^\s*(<?)(-{2,}|={2,}|-\.+-|~~~)(>|o(?=\s)|x(?=\s))?(?:\s*\|([^|]*)\|)?/;
+
+function parseFlowchart(
+	lines: string[],
+	direction: "TB" | "LR",
+): ImportedGraph {
+	const { graph, node } = graphBuilder("flowchart", "rectangle");
+	graph.direction = direction;
+	const groupStack: ImportGroup[] = [];
+
+	// Read one node reference (id plus optional shape/label); null if none
+	const readNode = (s: string, pos: number) => {
+		const m = FLOW_ID.exec(s.slice(pos));
+		if (!m) return null;
+		const key = m[1];
+		let end = pos + m[0].length;
+		let label: string | undefined;
+		let shape: ImportShape | undefined;
+		for (const [open, close, kind] of FLOW_SHAPES) {
+			if (!s.startsWith(open, end)) continue;
+			let from = end + open.length;
+			// Quoted labels may contain delimiter characters
+			if (s[from] === '"') {
+				const q = s.indexOf('"', from + 1);
+				if (q > 0) from = q;
+			}
+			const stop = s.indexOf(close, from);
+			if (stop < 0) continue;
+			label = cleanLabel(s.slice(end + open.length, stop));
+			shape = kind;
+			end = stop + close.length;
+			break;
+		}
+		const cls = /^:::\w+/.exec(s.slice(end));
+		if (cls) end += cls[0].length;
+		const n = node(key, label, shape);
+		const group = groupStack[groupStack.length - 1];
+		if (group && !group.members.includes(n.key)) group.members.push(n.key);
+		return { key, end };
+	};
+
+	// Read `A & B & C`
+	const readNodes = (s: string, pos: number) => {
+		const keys: string[] = [];
+		let end = pos;
+		for (;;) {
+			const n = readNode(s, end);
+			if (!n) return keys.length ? { keys, end } : null;
+			keys.push(n.key);
+			end = n.end;
+			const amp = /^\s*&/.exec(s.slice(end));
+			if (!amp) return { keys, end };
+			end += amp[0].length;
+		}
+	};
+
+	const readLink = (s: string, pos: number) => {
+		const rest = s.slice(pos);
+		const t = FLOW_LINK_TEXT.exec(rest);
+		const m = t ?? FLOW_LINK.exec(rest);
+		if (!m) return null;
+		const body = t ? `${t[2]}${t[4]}` : m[2];
+		const head = t ? t[5] : m[3];
+		const text = t ? t[3] : m[4];
+		const edge: Omit<ImportEdge, "from" | "to"> & { hidden?: boolean } = {};
+		if (body === "~~~") edge.hidden = true;
+		if (body.includes("=")) edge.strokeWidth = 3;
+		if (body.includes(".")) edge.strokeStyle = "dashed";
+		edge.endArrowhead =
+			head === ">"
+				? "arrow"
+				: head === "o"
+					? "circle"
+					: head === "x"
+						? "bar"
+						: "none";
+		if (m[1] === "<") edge.startArrowhead = "arrow";
+		if (text && text.trim()) edge.label = cleanLabel(text);
+		return { edge, end: pos + m[0].length };
+	};
+
+	for (const raw of lines) {
+		for (const part of raw.split(";")) {
+			const line = part.trim();
+			if (!line) continue;
+			if (/^subgraph\b/i.test(line)) {
+				const rest = line.replace(/^subgraph\s*/i, "");
+				const m = /^(\S+?)\s*\[(.*)\]$/.exec(rest);
+				const group: ImportGroup = m
+					? { key: m[1], label: cleanLabel(m[2]), members: [] }
+					: {
+							key: slugId(unquote(rest) || `group_${graph.groups.length + 1}`),
+							label: cleanLabel(rest),
+							members: [],
+						};
+				groupStack.push(group);
+				graph.groups.push(group);
+				continue;
+			}
+			if (/^end$/i.test(line)) {
+				groupStack.pop();
+				continue;
+			}
+			if (/^(classDef|class|style|linkStyle|click|direction)\b/.test(line)) {
+				continue;
+			}
+
+			let left = readNodes(line, 0);
+			if (!left) {
+				graph.warnings.push(`Skipped line: ${line}`);
+				continue;
+			}
+			let pos = left.end;
+			for (;;) {
+				const link = readLink(line, pos);
+				if (!link) break;
+				const right = readNodes(line, link.end);
+				if (!right) break;
+				const { hidden, ...edge } = link.edge;
+				if (!hidden) {
+					for (const from of left.keys) {
+						for (const to of right.keys)
+							graph.edges.push({ from, to, ...edge });
+					}
+				}
+				left = right;
+				pos = right.end;
+			}
+			if (line.slice(pos).trim()) {
+				graph.warnings.push(`Ignored trailing text: ${line.slice(pos).trim()}`);
+			}
+		}
+	}
+	return graph;
+}
+
+const SEQ_MESSAGE =
+	/^([\w.]+)\s*(--?>>|--?>|--?x|--?\))\s*[+-]?\s*([\w.]+)\s*(?::\s*(.*))?$/;
+
+function parseSequence(lines: string[]): ImportedSequence {
+	const seq: ImportedSequence = {
+		kind: "sequence",
+		participants: [],
+		messages: [],
+		warnings: [],
+	};
+	const known = new Map<string, ImportedSequence["participants"][number]>();
+	const participant = (key: string, label?: string, actor = false) => {
+		let p = known.get(key);
+		if (!p) {
+			p = { key, label: label ?? key, actor };
+			known.set(key, p);
+			seq.participants.push(p);
+		} else if (label !== undefined) {
+			p.label = label;
+		}
+		return p;
+	};
+	for (const line of lines) {
+		const decl = /^(participant|actor)\s+(.+?)(?:\s+as\s+(.+))?$/i.exec(line);
+		if (decl) {
+			const key = unquote(decl[2]);
+			participant(
+				key,
+				decl[3] ? cleanLabel(decl[3]) : undefined,
+				decl[1].toLowerCase() === "actor",
+			);
+			continue;
+		}
+		const msg = SEQ_MESSAGE.exec(line);
+		if (msg) {
+			const [, from, arrow, to, text] = msg;
+			participant(from);
+			participant(to);
+			seq.messages.push({
+				from,
+				to,
+				label: cleanLabel(text ?? ""),
+				dashed: arrow.startsWith("--"),
+				endArrowhead: arrow.endsWith("x")
+					? "bar"
+					: arrow.endsWith(")")
+						? "triangle_outline"
+						: "arrow",
+			});
+			continue;
+		}
+		// Blocks, notes and activations have no skeleton equivalent
+		if (
+			/^(autonumber|activate|deactivate|note|loop|alt|else|opt|par|and|critical|break|rect|box|end|title)\b/i.test(
+				line,
+			)
+		) {
+			continue;
+		}
+		seq.warnings.push(`Skipped line: ${line}`);
+	}
+	return seq;
+}
+
+// Class relation: left marker, line, right marker, with optional cardinalities
+const CLASS_RELATION =
+	/^([\w.]+)(?:\s+"([^"]*)")?\s*(<\||\*|(?<=\s)o|<)?(--|\.\.)(\|>|\*|o(?=\s)|>)?\s*(?:"([^"]*)"\s*)?([\w.]+)\s*(?::\s*(.*))?$/;
+
+const CLASS_HEADS: Record<string, string> = {
+	"<|": "triangle_outline",
+	"|>": "triangle_outline",
+	"*": "diamond",
+	o: "diamond_outline",
+	"<": "arrow",
+	">": "arrow",
+};
+
+function parseClassDiagram(lines: string[]): ImportedGraph {
+	const { graph, node } = graphBuilder("class", "rectangle");
+	const members = new Map<string, string[]>();
+	const annotations = new Map<string, string>();
+	const addMember = (key: string, text: string) => {
+		node(key);
+		if (!members.has(key)) members.set(key, []);
+		members.get(key)!.push(text.trim());
+	};
+	const className = (s: string) => s.replace(/~[^~]*~/g, "").trim();
+
+	let openClass: string | null = null;
+	for (const line of lines) {
+		if (openClass) {
+			if (line === "}") {
+				openClass = null;
+				continue;
+			}
+			const ann = /^<<(.+)>>$/.exec(line);
+			if (ann) annotations.set(openClass, ann[1]);
+			else addMember(openClass, line);
+			continue;
+		}
+		const dir = /^direction\s+(\w+)$/i.exec(line);
+		if (dir) {
+			graph.direction = toDirection(dir[1]);
+			continue;
+		}
+		const cls =
+			/^class\s+([\w.~]+)(?:\s*\["?([^"\]]*)"?\])?\s*(\{)?\s*(\})?$/.exec(line);
+		if (cls) {
+			const key = className(cls[1]);
+			node(key, cls[2] ? cls[2] : undefined);
+			if (cls[3] && !cls[4]) openClass = key;
+			continue;
+		}
+		const ann = /^<<(.+)>>\s+([\w.]+)$/.exec(line);
+		if (ann) {
+			node(ann[2]);
+			annotations.set(ann[2], ann[1]);
+			continue;
+		}
+		const rel = CLASS_RELATION.exec(line);
+		if (rel) {
+			const [, from, cardFrom, headFrom, body, headTo, cardTo, to, text] = rel;
+			node(from);
+			node(to);
+			const label = [cardFrom, text, cardTo]
+				.map((s) => (s ?? "").trim())
+				.filter(Boolean)
+				.join(" · ");
+			graph.edges.push({
+				from,
+				to,
+				label: label || undefined,
+				strokeStyle: body === ".." ? "dashed" : undefined,
+				startArrowhead: headFrom ? CLASS_HEADS[headFrom] : "none",
+				endArrowhead: headTo ? CLASS_HEADS[headTo] : "none",
+			});
+			continue;
+		}
+		const member = /^([\w.]+)\s*:\s*(.+)$/.exec(line);
+		if (member) {
+			addMember(member[1], member[2]);
+			continue;
+		}
+		if (/^(note|link|click|callback|classDef|style|cssClass)\b/.test(line)) {
+			continue;
+		}
+		graph.warnings.push(`Skipped line: ${line}`);
+	}
+
+	for (const n of graph.nodes) {
+		const ann = annotations.get(n.key);
+		const list = members.get(n.key) ?? [];
+		const head = ann ? `«${ann}»\n${n.label}` : n.label;
+		if (list.length > 0) {
+			n.label = `${head}\n${"─".repeat(12)}\n${list.join("\n")}`;
+			n.textAlign = "left";
+		} else {
+			n.label = head;
+		}
+	}
+	return graph;
+}
+
+const ER_RELATION =
+	/^([\w-]+)\s*(\|o|\|\||\}o|\}\|)(--|\.\.)(o\||\|\||o\{|\|\{)\s*([\w-]+)\s*:\s*(.+)$/;
+
+// Crow's foot cardinality → ArrowheadEnum; zero-or-one renders as "one"
+function erHead(card: string): string {
+	const many = card.includes("{") || card.includes("}");
+	if (!many) return "crowfoot_one";
+	return card.includes("|") ? "crowfoot_one_or_many" : "crowfoot_many";
+}
+
+function parseErDiagram(lines: string[]): ImportedGraph {
+	const { graph, node } = graphBuilder("er", "rectangle");
+	const attrs = new Map<string, string[]>();
+	let openEntity: string | null = null;
+	for (const line of lines) {
+		if (openEntity) {
+			if (line === "}") {
+				openEntity = null;
+				continue;
+			}
+			const a =
+				/^([\w()[\],-]+)\s+([\w-]+)((?:\s+(?:PK|FK|UK)\s*,?)*)\s*(?:"[^"]*")?$/.exec(
+					line,
+				);
+			const text = a
+				? `${a[2]}: ${a[1]}${a[3].trim() ? ` ${a[3].replace(/\s+/g, " ").trim()}` : ""}`
+				: line;
+			attrs.get(openEntity)!.push(text);
+			continue;
+		}
+		const dir = /^direction\s+(\w+)$/i.exec(line);
+		if (dir) {
+			graph.direction = toDirection(dir[1]);
+			continue;
+		}
+		const entity =
+			/^([\w-]+)(?:\s*\[\s*"?([^"\]]*)"?\s*\])?\s*\{\s*(\})?$/.exec(line);
+		if (entity) {
+			node(entity[1], entity[2] || undefined);
+			if (!attrs.has(entity[1])) attrs.set(entity[1], []);
+			if (!entity[3]) openEntity = entity[1];
+			continue;
+		}
+		const rel = ER_RELATION.exec(line);
+		if (rel) {
+			const [, from, cardFrom, body, cardTo, to, text] = rel;
+			node(from);
+			node(to);
+			graph.edges.push({
+				from,
+				to,
+				label: cleanLabel(text) || undefined,
+				strokeStyle: body === ".." ? "dashed" : undefined,
+				startArrowhead: erHead(cardFrom),
+				endArrowhead: erHead(cardTo),
+			});
+			continue;
+		}
+		if (/^[\w-]+$/.test(line)) {
+			node(line);
+			continue;
+		}
+		graph.warnings.push(`Skipped line: ${line}`);
+	}
+	for (const n of graph.nodes) {
+		const list = attrs.get(n.key) ?? [];
+		if (list.length > 0) {
+			n.label = `${n.label}\n${"─".repeat(12)}\n${list.join("\n")}`;
+			n.textAlign = "left";
+		}
+	}
+	return graph;
+}
+
+// ---------------------------------------------------------------------------
+// Graphviz DOT
+
+function stripDotComments(source: string): string {
+	return source
+		.replace(/\/\*[\s\S]*?\*\//g, " ")
+		.replace(/(^|[^:"])\/\/.*$/gm, "$1")
+		.replace(/^\s*#.*$/gm, "");
+}
+
+type DotToken = { kind: "id" | "op"; value: string };
+
+function tokenizeDot(source: string): DotToken[] {
+	const src = stripDotComments(source);
+	const tokens: DotToken[] = [];
+	let i = 0;
+	while (i < src.length) {
+		const c = src[i];
+		if (/\s/.test(c)) {
+			i++;
+			continue;
+		}
+		if (c === '"') {
+			let j = i + 1;
+			let value = "";
+			while (j < src.length && src[j] !== '"') {
+				if (src[j] === "\\" && src[j + 1] === '"') {
+					value += '"';
+					j += 2;
+					continue;
+				}
+				value += src[j++];
+			}
+			tokens.push({ kind: "id", value });
+			i = j + 1;
+			continue;
+		}
+		if (c === "<") {
+			// HTML-like label: keep the text content only
+			let depth = 0;
+			let j = i;
+			for (; j < src.length; j++) {
+				if (src[j] === "<") depth++;
+				else if (src[j] === ">" && --depth === 0) break;
+			}
+			const html = src.slice(i + 1, j);
+			tokens.push({
+				kind: "id",
+				value: html
+					.replace(/<br\s*\/?>/gi, "\n")
+					.replace(/<[^>]+>/g, "")
+					.trim(),
+			});
+			i = j + 1;
+			continue;
+		}
+		const two = src.slice(i, i + 2);
+		if (two === "->" || two === "--") {
+			tokens.push({ kind: "op", value: two });
+			i += 2;
+			continue;
+		}
+		if ("{}[];,=:".includes(c)) {
+			tokens.push({ kind: "op", value: c });
+			i++;
+			continue;
+		}
+		const m =
+			/^(-?(?:\.\d+|\d+(?:\.\d*)?)|[A-Za-z_\u0080-\uffff][\w\u0080-\uffff]*)/.exec(
+				src.slice(i),
+			);
+		if (!m) throw new Error(`Unexpected character "${c}" in DOT source`);
+		tokens.push({ kind: "id", value: m[1] });
+		i += m[1].length;
+	}
+	return tokens;
+}
+
+const DOT_SHAPES: Record<string, ImportShape> = {
+	box: "rectangle",
+	rect: "rectangle",
+	rectangle: "rectangle",
+	square: "rectangle",
+	record: "rectangle",
+	Mrecord: "rectangle",
+	plaintext: "rectangle",
+	plain: "rectangle",
+	note: "rectangle",
+	tab: "rectangle",
+	folder: "rectangle",
+	component: "rectangle",
+	cylinder: "rectangle",
+	diamond: "diamond",
+	Mdiamond: "diamond",
+	ellipse: "ellipse",
+	oval: "ellipse",
+	circle: "ellipse",
+	doublecircle: "ellipse",
+	point: "ellipse",
+};
+
+function dotLabel(raw: string, nodeName: string): string {
+	return raw
+		.replace(/\\N/g, nodeName)
+		.replace(/\\[nlr]/g, "\n")
+		.trim();
+}
+
+function parseDot(source: string): ImportedGraph {
+	const tokens = tokenizeDot(source);
+	let i = 0;
+	const peek = (o = 0) => tokens[i + o];
+	const isOp = (v: string, o = 0) =>
+		peek(o)?.kind === "op" && peek(o)?.value === v;
+	const expect = (v: string) => {
+		if (!isOp(v)) {
+			throw new Error(`Expected "${v}" in DOT source near token ${i + 1}`);
+		}
+		i++;
+	};
+
+	if (peek()?.value.toLowerCase() === "strict") i++;
+	const head = peek()?.value.toLowerCase();
+	if (head !== "graph" && head !== "digraph") {
+		throw new Error('DOT source must start with "graph" or "digraph"');
+	}
+	const directed = head === "digraph";
+	i++;
+	if (peek()?.kind === "id") i++;
+
+	const { graph, node } = graphBuilder("dot", "ellipse");
+
+	type Attrs = Record<string, string>;
+	const readAttrs = (): Attrs => {
+		const attrs: Attrs = {};
+		while (isOp("[")) {
+			i++;
+			while (!isOp("]")) {
+				const key = peek();
+				if (!key) throw new Error("Unterminated attribute list in DOT source");
+				i++;
+				if (isOp("=")) {
+					i++;
+					attrs[key.value] = peek()?.value ?? "";
+					i++;
+				}
+				if (isOp(",") || isOp(";")) i++;
+			}
+			i++;
+		}
+		return attrs;
+	};
+
+	const declareNode = (name: string, attrs: Attrs, defaults: Attrs) => {
+		const known = graph.nodes.some((n) => n.key === name);
+		// `node [...]` defaults only apply when a node is first seen
+		const merged = known ? attrs : { ...defaults, ...attrs };
+		node(
+			name,
+			merged.label !== undefined ? dotLabel(merged.label, name) : undefined,
+			merged.shape
+				? (DOT_SHAPES[merged.shape] ?? "rectangle")
+				: known
+					? undefined
+					: "ellipse",
+		);
+	};
+
+	const edgeFrom = (from: string, to: string, attrs: Attrs): ImportEdge => {
+		const dir = attrs.dir ?? (directed ? "forward" : "none");
+		const forward = dir === "forward" || dir === "both";
+		const back = dir === "back" || dir === "both";
+		const edge: ImportEdge = {
+			from,
+			to,
+			endArrowhead: forward && attrs.arrowhead !== "none" ? "arrow" : "none",
+			startArrowhead: back && attrs.arrowtail !== "none" ? "arrow" : "none",
+		};
+		if (attrs.label) edge.label = dotLabel(attrs.label, "");
+		if (attrs.style === "dashed") edge.strokeStyle = "dashed";
+		if (attrs.style === "dotted") edge.strokeStyle = "dotted";
+		if (attrs.style === "bold") edge.strokeWidth = 3;
+		return edge;
+	};
+
+	// Parses statements until "}" and returns the node names it mentioned
+	const readBlock = (
+		nodeDefaults: Attrs,
+		edgeDefaults: Attrs,
+		group: ImportGroup | null,
+	): string[] => {
+		const nd = { ...nodeDefaults };
+		const ed = { ...edgeDefaults };
+		const mentioned: string[] = [];
+		const applyGraphAttrs = (attrs: Attrs) => {
+			if (attrs.rankdir && !group) graph.direction = toDirection(attrs.rankdir);
+			if (attrs.label !== undefined && group) {
+				group.label = dotLabel(attrs.label, "");
+			}
+		};
+		const mention = (name: string) => {
+			if (!mentioned.includes(name)) mentioned.push(name);
+			if (group && !group.members.includes(name)) group.members.push(name);
+		};
+
+		// node_id or subgraph; returns the node names it stands for
+		const readOperand = (): string[] | null => {
+			const t = peek();
+			if (!t) return null;
+			if (isOp("{") || t.value === "subgraph") {
+				let name: string | undefined;
+				if (t.value === "subgraph") {
+					i++;
+					if (peek()?.kind === "id") name = peek()!.value;
+					if (name) i++;
+				}
+				expect("{");
+				const cluster = name?.startsWith("cluster")
+					? { key: name, label: name.replace(/^cluster_?/, ""), members: [] }
+					: null;
+				if (cluster) graph.groups.push(cluster);
+				const names = readBlock(nd, ed, cluster);
+				expect("}");
+				if (cluster && !cluster.label) cluster.label = cluster.key;
+				for (const n of names) mention(n);
+				return names;
+			}
+			if (t.kind !== "id") return null;
+			i++;
+			// Ports (a:port:compass) are not representable; drop them
+			while (isOp(":")) i += 2;
+			declareNode(t.value, {}, nd);
+			mention(t.value);
+			return [t.value];
+		};
+
+		while (peek() && !isOp("}")) {
+			if (isOp(";") || isOp(",")) {
+				i++;
+				continue;
+			}
+			const t = peek()!;
+			const kw = t.kind === "id" ? t.value.toLowerCase() : "";
+			if ((kw === "graph" || kw === "node" || kw === "edge") && isOp("[", 1)) {
+				i++;
+				const attrs = readAttrs();
+				if (kw === "node") Object.assign(nd, attrs);
+				else if (kw === "edge") Object.assign(ed, attrs);
+				else applyGraphAttrs(attrs);
+				continue;
+			}
+			if (t.kind === "id" && isOp("=", 1)) {
+				i += 2;
+				const value = peek()?.value ?? "";
+				i++;
+				applyGraphAttrs({ [t.value]: value });
+				continue;
+			}
+			let left = readOperand();
+			if (!left) {
+				graph.warnings.push(`Skipped token: ${t.value}`);
+				i++;
+				continue;
+			}
+			const chain: string[][] = [left];
+			while (isOp("->") || isOp("--")) {
+				i++;
+				const right = readOperand();
+				if (!right) throw new Error("Edge without a target in DOT source");
+				chain.push(right);
+				left = right;
+			}
+			const attrs = readAttrs();
+			if (chain.length === 1) {
+				for (const name of chain[0]) declareNode(name, attrs, nd);
+				continue;
+			}
+			for (let c = 0; c + 1 < chain.length; c++) {
+				for (const from of chain[c]) {
+					for (const to of chain[c + 1]) {
+						graph.edges.push(edgeFrom(from, to, { ...ed, ...attrs }));
+					}
+				}
+			}
+		}
+		return mentioned;
+	};
+
+	expect("{");
+	readBlock({}, {}, null);
+	expect("}");
+	return graph;
+}
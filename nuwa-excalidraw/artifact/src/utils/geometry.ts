@@ -0,0 +1,107 @@
+// Geometry helpers: compute edge points for rectangle/ellipse/diamond
+export type XY = { x: number; y: number };
+export function centerPoint(el: any): XY {
+	const w = el.width ?? 0;
+	const h = el.height ?? 0;
+	return { x: (el.x ?? 0) + w / 2, y: (el.y ?? 0) + h / 2 };
+}
+function unitVec(from: XY, to: XY): XY {
+	const dx = to.x - from.x,
+		dy = to.y - from.y;
+	const L = Math.hypot(dx, dy) || 1;
+	return { x: dx / L, y: dy / L };
+}
+function rectEdge(el: any, toward: XY): XY {
+	const cx = (el.x ?? 0) + (el.width ?? 0) / 2;
+	const cy = (el.y ?? 0) + (el.height ?? 0) / 2;
+	const rx = (el.width ?? 0) / 2;
+	const ry = (el.height ?? 0) / 2;
+	const d = unitVec({ x: cx, y: cy }, toward);
+	const ux = d.x !== 0 ? rx / Math.abs(d.x) : Number.POSITIVE_INFINITY;
+	const uy = d.y !== 0 ? ry / Math.abs(d.y) : Number.POSITIVE_INFINITY;
+	const u = Math.min(ux, uy);
+	return { x: cx + d.x * u, y: cy + d.y * u };
+}
+function ellipseEdge(el: any, toward: XY): XY {
+	const cx = (el.x ?? 0) + (el.width ?? 0) / 2;
+	const cy = (el.y ?? 0) + (el.height ?? 0) / 2;
+	const rx = Math.max(1e-6, (el.width ?? 0) / 2);
+	const ry = Math.max(1e-6, (el.height ?? 0) / 2);
+	const d = unitVec({ x: cx, y: cy }, toward);
+	const t = 1 / Math.sqrt((d.x * d.x) / (rx * rx) + (d.y * d.y) / (ry * ry));
+	return { x: cx + d.x * t, y: cy + d.y * t };
+}
+function cross(a: XY, b: XY): number {
+	return a.x * b.y - a.y * b.x;
+}
+function sub(a: XY, b: XY): XY {
+	return { x: a.x - b.x, y: a.y - b.y };
+}
+function raySegHit(origin: XY, dir: XY, a: XY, b: XY): XY | null {
+	const r = sub(b, a);
+	const denom = cross(dir, r);
+	if (Math.abs(denom) < 1e-8) return null;
+	const ap = sub(a, origin);
+	const u = cross(ap, r) / denom;
+	const t = cross(ap, dir) / denom;
+	if (u < 0 || t < 0 || t > 1) return null;
+	return { x: origin.x + dir.x * u, y: origin.y + dir.y * u };
+}
+function diamondEdge(el: any, toward: XY): XY {
+	const cx = (el.x ?? 0) + (el.width ?? 0) / 2;
+	const cy = (el.y ?? 0) + (el.height ?? 0) / 2;
+	const x = el.x ?? 0,
+		y = el.y ?? 0,
+		w = el.width ?? 0,
+		h = el.height ?? 0;
+	const top: XY = { x: cx, y: y },
+		right: XY = { x: x + w, y: cy },
+		bottom: XY = { x: cx, y: y + h },
+		left: XY = { x: x, y: cy };
+	const segs: [XY, XY][] = [
+		[top, right],
+		[right, bottom],
+		[bottom, left],
+		[left, top],
+	];
+	const origin = { x: cx, y: cy };
+	const d = unitVec(origin, toward);
+	let best: XY | null = null;
+	let bestDist = Infinity;
+	for (const [a, b] of segs) {
+		const pt = raySegHit(origin, d, a, b);
+		if (!pt) continue;
+		const dist = Math.hypot(pt.x - origin.x, pt.y - origin.y);
+		if (dist < bestDist) {
+			bestDist = dist;
+			best = pt;
+		}
+	}
+	return best ?? origin;
+}
+export function edgePoint(el: any, toward: XY): XY {
+	switch (el.type) {
+		case "ellipse":
+			return ellipseEdge(el, toward);
+		case "diamond":
+			return diamondEdge(el, toward);
+		default:
+			return rectEdge(el, toward);
+	}
+}
+
+// Straight connector geometry between two shapes, ending on their edges.
+// Returns the skeleton fields of a line/arrow: start (x, y) and delta to end.
+export function connectorBetween(
+	fromEl: any,
+	toEl: any,
+): { x: number; y: number; width: number; height: number } {
+	const start = edgePoint(fromEl, centerPoint(toEl));
+	const end = edgePoint(toEl, centerPoint(fromEl));
+	return {
+		x: start.x,
+		y: start.y,
+		width: end.x - start.x,
+		height: end.y - start.y,
+	};
+}
@@ -0,0 +1,178 @@
+// Snapshot-based undo/redo history for the skeleton store.
+// Each entry keeps the skeleton arrays before/after one MCP write (or batch).
+// Tool ops never mutate skeletons in place, so storing references is enough.
+// Undo/redo replay an entry by element id, so hand edits made since survive.
+import { diffSkeletons } from "./changeFeed";
+import type { Theme } from "./styles";
+
+export type HistoryEntry = {
+	id: number;
+	tool: string;
+	at: number;
+	before: any[];
+	after: any[];
+};
+
+export type HistoryEntrySummary = {
+	id: number;
+	tool: string;
+	at: string;
+	elementCount: number;
+	applied: boolean;
+};
+
+// Result of undo/redo: the skeletons to restore, or the elements that were
+// changed since the step and would be overwritten (nothing is applied then)
+export type HistoryStep =
+	| { ok: true; snapshot: any[]; entries: HistoryEntry[] }
+	| { ok: false; entry: HistoryEntry; conflicts: string[] };
+
+// Apply the change `from` -> `to` to `current` by element id. Elements the
+// change touched must still match `from`; their ids come back as conflicts.
+export function replayStep(
+	current: any[],
+	from: any[],
+	to: any[],
+): { next: any[] } | { conflicts: string[] } {
+	if (current === from) return { next: to };
+	// Every field counts for what the step did; only what the change feed
+	// tracks counts as a later edit (canvas round-trips reshape skeletons)
+	const prev = new Map<string, any>(from.map((e: any) => [e.id, e]));
+	const touched = new Set<string>(from.map((e: any) => e.id));
+	for (const e of to) {
+		const old = prev.get(e.id);
+		const changed = old !== e && JSON.stringify(old) !== JSON.stringify(e);
+		if (changed) touched.add(e.id);
+		else touched.delete(e.id);
+	}
+	const conflicts = diffSkeletons(from, current)
+		.map((c) => c.id)
+		.filter((id) => touched.has(id));
+	if (conflicts.length > 0) return { conflicts: [...new Set(conflicts)] };
+
+	const target = new Map<string, any>(to.map((e: any) => [e.id, e]));
+	const next = current.flatMap((e: any) =>
+		!touched.has(e.id) ? [e] : target.has(e.id) ? [target.get(e.id)] : [],
+	);
+	// Re-insert elements `current` lacks after their predecessor in `to`
+	const present = new Set(next.map((e: any) => e.id));
+	let at = 0;
+	for (const e of to) {
+		if (present.has(e.id)) {
+			at = next.findIndex((n: any) => n.id === e.id) + 1;
+		} else if (touched.has(e.id)) {
+			next.splice(at++, 0, e);
+		}
+	}
+	return { next };
+}
+
+export function createSkeletonHistory(limit = 50) {
+	const entries: HistoryEntry[] = [];
+	// Number of entries currently applied; entries[cursor..] are redoable
+	let cursor = 0;
+	let seq = 0;
+
+	return {
+		record(tool: string, before: any[], after: any[]): HistoryEntry {
+			// A new write discards anything that was undone
+			entries.splice(cursor);
+			const entry: HistoryEntry = {
+				id: ++seq,
+				tool,
+				at: Date.now(),
+				before,
+				after,
+			};
+			entries.push(entry);
+			if (entries.length > limit) entries.splice(0, entries.length - limit);
+			cursor = entries.length;
+			return entry;
+		},
+
+		// Step back from `current`; the cursor only moves when every undone
+		// entry replays without conflicts
+		undo(current: any[], steps = 1): HistoryStep | null {
+			if (cursor === 0) return null;
+			const n = Math.min(Math.max(1, steps), cursor);
+			const undone = entries.slice(cursor - n, cursor).reverse();
+			let snapshot = current;
+			for (const entry of undone) {
+				const out = replayStep(snapshot, entry.after, entry.before);
+				if ("conflicts" in out) {
+					return { ok: false, entry, conflicts: out.conflicts };
+				}
+				snapshot = out.next;
+			}
+			cursor -= n;
+			return { ok: true, snapshot, entries: undone };
+		},
+
+		// Step forward again from `current`, same rules as undo
+		redo(current: any[], steps = 1): HistoryStep | null {
+			if (cursor >= entries.length) return null;
+			const n = Math.min(Math.max(1, steps), entries.length - cursor);
+			const redone = entries.slice(cursor, cursor + n);
+			let snapshot = current;
+			for (const entry of redone) {
+				const out = replayStep(snapshot, entry.before, entry.after);
+				if ("conflicts" in out) {
+					return { ok: false, entry, conflicts: out.conflicts };
+				}
+				snapshot = out.next;
+			}
+			cursor += n;
+			return { ok: true, snapshot, entries: redone };
+		},
+
+		canUndo: () => cursor > 0,
+		canRedo: () => cursor < entries.length,
+
+		// Oldest first; `applied` is false for entries that can be redone
+		list(): HistoryEntrySummary[] {
+			return entries.map((e, i) => ({
+				id: e.id,
+				tool: e.tool,
+				at: new Date(e.at).toISOString(),
+				elementCount: e.after.length,
+				applied: i < cursor,
+			}));
+		},
+	};
+}
+
+export type SkeletonHistory = ReturnType<typeof createSkeletonHistory>;
+
+// The style theme is global, so its changes get one history shared by all
+// pages instead of entries in a page's skeleton history
+export type ThemeChange = { before: Theme | null; after: Theme | null };
+
+export function createThemeHistory(limit = 50) {
+	const changes: ThemeChange[] = [];
+	let cursor = 0;
+
+	return {
+		record(before: Theme | null, after: Theme | null) {
+			changes.splice(cursor);
+			changes.push({ before, after });
+			if (changes.length > limit) changes.splice(0, changes.length - limit);
+			cursor = changes.length;
+		},
+
+		// Theme to switch back to; undefined when there is nothing to undo
+		undo(steps = 1): Theme | null | undefined {
+			if (cursor === 0) return undefined;
+			cursor -= Math.min(Math.max(1, steps), cursor);
+			return changes[cursor].before;
+		},
+
+		redo(steps = 1): Theme | null | undefined {
+			if (cursor >= changes.length) return undefined;
+			cursor += Math.min(Math.max(1, steps), changes.length - cursor);
+			return changes[cursor - 1].after;
+		},
+
+		canUndo: () => cursor > 0,
+		canRedo: () => cursor < changes.length,
+	};
+}
@@ -0,0 +1,92 @@
+// Load image sources handed to the agent (data URLs, fetchable URLs or raw
+// base64 attachments) into what Excalidraw needs to register a file.
+
+export type ImageSource =
+	| { dataUrl: string }
+	| { url: string }
+	| { base64: string; mimeType: string; name?: string };
+
+export type LoadedImage = {
+	fileId: string;
+	dataURL: string;
+	mimeType: string;
+	width: number;
+	height: number;
+};
+
+const SUPPORTED_MIME_TYPES = [
+	"image/png",
+	"image/jpeg",
+	"image/gif",
+	"image/webp",
+	"image/svg+xml",
+	"image/bmp",
+	"image/x-icon",
+	"image/avif",
+];
+
+// SVGs without intrinsic size report 0×0; fall back to a square
+const FALLBACK_SIZE = 300;
+
+function mimeOfDataUrl(dataUrl: string): string | null {
+	const m = /^data:([^;,]+)[;,]/.exec(dataUrl);
+	return m ? m[1].toLowerCase() : null;
+}
+
+function blobToDataUrl(blob: Blob): Promise<string> {
+	return new Promise((resolve, reject) => {
+		const reader = new FileReader();
+		reader.onload = () => resolve(String(reader.result));
+		reader.onerror = () => reject(reader.error ?? new Error("Read failed"));
+		reader.readAsDataURL(blob);
+	});
+}
+
+function naturalSize(
+	dataURL: string,
+): Promise<{ width: number; height: number }> {
+	return new Promise((resolve, reject) => {
+		const img = new Image();
+		img.onload = () =>
+			resolve({
+				width: img.naturalWidth || FALLBACK_SIZE,
+				height: img.naturalHeight || FALLBACK_SIZE,
+			});
+		img.onerror = () => reject(new Error("Image data could not be decoded"));
+		img.src = dataURL;
+	});
+}
+
+// Content hash, so the same image registered twice shares one file
+async function fileIdOf(dataURL: string): Promise<string> {
+	const bytes = new TextEncoder().encode(dataURL);
+	const digest = await crypto.subtle.digest("SHA-1", bytes);
+	return Array.from(new Uint8Array(digest))
+		.map((b) => b.toString(16).padStart(2, "0"))
+		.join("");
+}
+
+async function toDataUrl(source: ImageSource): Promise<string> {
+	if ("dataUrl" in source) return source.dataUrl.trim();
+	if ("base64" in source) {
+		const data = source.base64.replace(/^data:[^,]*,/, "").replace(/\s+/g, "");
+		return `data:${source.mimeType};base64,${data}`;
+	}
+	const res = await fetch(source.url);
+	if (!res.ok) {
+		throw new Error(`Fetching ${source.url} failed with status ${res.status}`);
+	}
+	return blobToDataUrl(await res.blob());
+}
+
+export async function loadImage(source: ImageSource): Promise<LoadedImage> {
+	const dataURL = await toDataUrl(source);
+	const mimeType = mimeOfDataUrl(dataURL);
+	if (!mimeType || !SUPPORTED_MIME_TYPES.includes(mimeType)) {
+		throw new Error(
+			`Unsupported image type ${mimeType ?? "(unknown)"}; expected one of ${SUPPORTED_MIME_TYPES.join(", ")}`,
+		);
+	}
+	const { width, height } = await naturalSize(dataURL);
+	return { fileId: await fileIdOf(dataURL), dataURL, mimeType, width, height };
+}
@@ -0,0 +1,520 @@
+// Graph auto-layout for connected diagrams.
+// Pure functions: nodes carry their (label-measured) size, edges are id pairs.
+// Results are top-left positions relative to (0, 0); callers offset and snap.
+import type { XY } from "./geometry";
+
+export type LayoutNode = { id: string; width: number; height: number };
+export type LayoutEdge = { from: string; to: string };
+export type LayoutAlgorithm = "layered" | "tree" | "radial" | "force";
+export type LayoutDirection = "TB" | "LR";
+
+export type LayoutOptions = {
+	algorithm: LayoutAlgorithm;
+	direction?: LayoutDirection;
+	gapX: number;
+	gapY: number;
+	root?: string;
+};
+
+export function computeGraphLayout(
+	nodes: LayoutNode[],
+	edges: LayoutEdge[],
+	options: LayoutOptions,
+): Map<string, XY> {
+	const ids = new Set(nodes.map((n) => n.id));
+	const valid = edges.filter(
+		(e) => ids.has(e.from) && ids.has(e.to) && e.from !== e.to,
+	);
+	const { algorithm, gapX, gapY, root } = options;
+	if (algorithm === "radial") {
+		return normalize(radialLayout(nodes, valid, gapX, gapY, root), nodes);
+	}
+	if (algorithm === "force") {
+		return normalize(forceLayout(nodes, valid, gapX), nodes);
+	}
+	// Layered and tree layouts are computed top-to-bottom; LR transposes
+	// node sizes and gaps in, and positions back out.
+	const lr = options.direction === "LR";
+	const oriented = lr
+		? nodes.map((n) => ({ id: n.id, width: n.height, height: n.width }))
+		: nodes;
+	const gx = lr ? gapY : gapX;
+	const gy = lr ? gapX : gapY;
+	const pos =
+		algorithm === "tree"
+			? treeLayout(oriented, valid, gx, gy, root)
+			: layeredLayout(oriented, valid, gx, gy);
+	if (lr) {
+		for (const [id, p] of pos) pos.set(id, { x: p.y, y: p.x });
+	}
+	return normalize(pos, nodes);
+}
+
+// Shift positions so the layout's bounding box starts at (0, 0)
+function normalize(pos: Map<string, XY>, nodes: LayoutNode[]): Map<string, XY> {
+	let minX = Infinity;
+	let minY = Infinity;
+	for (const n of nodes) {
+		const p = pos.get(n.id);
+		if (!p) continue;
+		minX = Math.min(minX, p.x);
+		minY = Math.min(minY, p.y);
+	}
+	if (!Number.isFinite(minX)) return pos;
+	const out = new Map<string, XY>();
+	for (const [id, p] of pos) out.set(id, { x: p.x - minX, y: p.y - minY });
+	return out;
+}
+
+function adjacency(nodes: LayoutNode[], edges: LayoutEdge[]) {
+	const succ = new Map<string, string[]>();
+	const pred = new Map<string, string[]>();
+	for (const n of nodes) {
+		succ.set(n.id, []);
+		pred.set(n.id, []);
+	}
+	for (const e of edges) {
+		succ.get(e.from)!.push(e.to);
+		pred.get(e.to)!.push(e.from);
+	}
+	return { succ, pred };
+}
+
+// Layered (Sugiyama-style): break cycles, rank by longest path, insert dummy
+// nodes on long edges, order layers by barycenter sweeps, then place.
+function layeredLayout(
+	nodes: LayoutNode[],
+	edges: LayoutEdge[],
+	gapX: number,
+	gapY: number,
+): Map<string, XY> {
+	const size = new Map(nodes.map((n) => [n.id, n]));
+
+	// 1) Cycle removal: reverse edges that point back to a node on the DFS stack
+	const { succ } = adjacency(nodes, edges);
+	const state = new Map<string, 0 | 1 | 2>();
+	const backEdges = new Set<string>();
+	const visit = (id: string) => {
+		state.set(id, 1);
+		for (const to of succ.get(id) ?? []) {
+			const s = state.get(to) ?? 0;
+			if (s === 1) backEdges.add(`${id}->${to}`);
+			else if (s === 0) visit(to);
+		}
+		state.set(id, 2);
+	};
+	for (const n of nodes) if (!state.get(n.id)) visit(n.id);
+	const dag = edges.map((e) =>
+		backEdges.has(`${e.from}->${e.to}`) ? { from: e.to, to: e.from } : e,
+	);
+
+	// 2) Rank assignment: longest path from sources (Kahn order)
+	const adj = adjacency(nodes, dag);
+	const indeg = new Map(nodes.map((n) => [n.id, adj.pred.get(n.id)!.length]));
+	const rank = new Map<string, number>();
+	const queue = nodes.filter((n) => indeg.get(n.id) === 0).map((n) => n.id);
+	for (const id of queue) rank.set(id, 0);
+	while (queue.length > 0) {
+		const id = queue.shift()!;
+		for (const to of adj.succ.get(id)!) {
+			rank.set(to, Math.max(rank.get(to) ?? 0, rank.get(id)! + 1));
+			indeg.set(to, indeg.get(to)! - 1);
+			if (indeg.get(to) === 0) queue.push(to);
+		}
+	}
+
+	// 3) Dummy nodes so every edge spans exactly one layer
+	const up = new Map<string, string[]>();
+	const down = new Map<string, string[]>();
+	const link = (a: string, b: string) => {
+		if (!down.has(a)) down.set(a, []);
+		if (!up.has(b)) up.set(b, []);
+		down.get(a)!.push(b);
+		up.get(b)!.push(a);
+	};
+	const layerCount = Math.max(0, ...rank.values()) + 1;
+	const layers: string[][] = Array.from({ length: layerCount }, () => []);
+	for (const n of nodes) layers[rank.get(n.id) ?? 0].push(n.id);
+	const dummies = new Set<string>();
+	dag.forEach((e, i) => {
+		let prev = e.from;
+		for (let r = rank.get(e.from)! + 1; r < rank.get(e.to)!; r++) {
+			const d = `__dummy_${i}_${r}`;
+			dummies.add(d);
+			layers[r].push(d);
+			link(prev, d);
+			prev = d;
+		}
+		link(prev, e.to);
+	});
+
+	// 4) Crossing reduction: alternate barycenter sweeps down and up
+	const order = new Map<string, number>();
+	const reindex = () =>
+		layers.forEach((layer) => layer.forEach((id, i) => order.set(id, i)));
+	reindex();
+	const barycenter = (id: string, neighbors: Map<string, string[]>) => {
+		const ns = neighbors.get(id) ?? [];
+		if (ns.length === 0) return order.get(id)!;
+		return ns.reduce((s, n) => s + order.get(n)!, 0) / ns.length;
+	};
+	for (let sweep = 0; sweep < 8; sweep++) {
+		const downward = sweep % 2 === 0;
+		const range = downward
+			? layers.map((_, i) => i).slice(1)
+			: layers
+					.map((_, i) => i)
+					.reverse()
+					.slice(1);
+		for (const r of range) {
+			const bc = new Map(
+				layers[r].map((id) => [id, barycenter(id, downward ? up : down)]),
+			);
+			// Stable sort keeps input order among ties for deterministic output
+			layers[r] = layers[r]
+				.map((id, i) => ({ id, i }))
+				.sort((a, b) => bc.get(a.id)! - bc.get(b.id)! || a.i - b.i)
+				.map((x) => x.id);
+			reindex();
+		}
+	}
+
+	// 5) Coordinates: layers stacked by their tallest node; nodes packed left
+	// to right, then pulled toward their upper neighbours without overlapping.
+	const w = (id: string) => (dummies.has(id) ? 0 : size.get(id)!.width);
+	const h = (id: string) => (dummies.has(id) ? 0 : size.get(id)!.height);
+	const cx = new Map<string, number>();
+	for (const layer of layers) {
+		let x = 0;
+		for (const id of layer) {
+			cx.set(id, x + w(id) / 2);
+			x += w(id) + gapX;
+		}
+	}
+	for (let pass = 0; pass < 4; pass++) {
+		const downward = pass % 2 === 0;
+		const range = downward
+			? layers.map((_, i) => i).slice(1)
+			: layers
+					.map((_, i) => i)
+					.reverse()
+					.slice(1);
+		for (const r of range) {
+			const layer = layers[r];
+			const wanted = layer.map((id) => {
+				const ns = (downward ? up : down).get(id) ?? [];
+				if (ns.length === 0) return cx.get(id)!;
+				return ns.reduce((s, n) => s + cx.get(n)!, 0) / ns.length;
+			});
+			// Left-to-right: no node may start before its left neighbour ends
+			let minLeft = -Infinity;
+			layer.forEach((id, i) => {
+				const c = Math.max(wanted[i], minLeft + w(id) / 2);
+				cx.set(id, c);
+				minLeft = c + w(id) / 2 + gapX;
+			});
+		}
+	}
+	const pos = new Map<string, XY>();
+	let y = 0;
+	for (const layer of layers) {
+		const layerH = Math.max(0, ...layer.map(h));
+		for (const id of layer) {
+			if (dummies.has(id)) continue;
+			// Center nodes vertically within their layer band
+			pos.set(id, {
+				x: cx.get(id)! - w(id) / 2,
+				y: y + (layerH - h(id)) / 2,
+			});
+		}
+		y += layerH + gapY;
+	}
+	return pos;
+}
+
+// Spanning forest via BFS from the requested root, then from sources,
+// then from any node not reached yet (cycles). First parent wins.
+function spanningForest(
+	nodes: LayoutNode[],
+	edges: LayoutEdge[],
+	root?: string,
+): { roots: string[]; children: Map<string, string[]> } {
+	const { succ, pred } = adjacency(nodes, edges);
+	const children = new Map<string, string[]>(nodes.map((n) => [n.id, []]));
+	const seen = new Set<string>();
+	const roots: string[] = [];
+	const candidates = [
+		...(root && succ.has(root) ? [root] : []),
+		...nodes.filter((n) => pred.get(n.id)!.length === 0).map((n) => n.id),
+		...nodes.map((n) => n.id),
+	];
+	for (const start of candidates) {
+		if (seen.has(start)) continue;
+		roots.push(start);
+		seen.add(start);
+		const queue = [start];
+		while (queue.length > 0) {
+			const id = queue.shift()!;
+			for (const to of succ.get(id)!) {
+				if (seen.has(to)) continue;
+				seen.add(to);
+				children.get(id)!.push(to);
+				queue.push(to);
+			}
+		}
+	}
+	return { roots, children };
+}
+
+// Tidy tree: each subtree gets the width of its widest row of children and
+// the parent is centered above them; depth rows use the tallest node per depth.
+function treeLayout(
+	nodes: LayoutNode[],
+	edges: LayoutEdge[],
+	gapX: number,
+	gapY: number,
+	root?: string,
+): Map<string, XY> {
+	const size = new Map(nodes.map((n) => [n.id, n]));
+	const { roots, children } = spanningForest(nodes, edges, root);
+
+	const depth = new Map<string, number>();
+	const rowH: number[] = [];
+	const walk = (id: string, d: number) => {
+		depth.set(id, d);
+		rowH[d] = Math.max(rowH[d] ?? 0, size.get(id)!.height);
+		for (const c of children.get(id)!) walk(c, d + 1);
+	};
+	for (const r of roots) walk(r, 0);
+	const rowY: number[] = [];
+	rowH.forEach((rh, d) => {
+		rowY[d] = d === 0 ? 0 : rowY[d - 1] + rowH[d - 1] + gapY;
+	});
+
+	const span = new Map<string, number>();
+	const measure = (id: string): number => {
+		const kids = children.get(id)!;
+		const kidsW =
+			kids.reduce((s, c) => s + measure(c), 0) +
+			Math.max(0, kids.length - 1) * gapX;
+		const sw = Math.max(size.get(id)!.width, kidsW);
+		span.set(id, sw);
+		return sw;
+	};
+	const pos = new Map<string, XY>();
+	const place = (id: string, left: number) => {
+		const sw = span.get(id)!;
+		const n = size.get(id)!;
+		const d = depth.get(id)!;
+		pos.set(id, {
+			x: left + (sw - n.width) / 2,
+			y: rowY[d] + (rowH[d] - n.height) / 2,
+		});
+		const kids = children.get(id)!;
+		const kidsW =
+			kids.reduce((s, c) => s + span.get(c)!, 0) +
+			Math.max(0, kids.length - 1) * gapX;
+		let x = left + (sw - kidsW) / 2;
+		for (const c of kids) {
+			place(c, x);
+			x += span.get(c)! + gapX;
+		}
+	};
+	let left = 0;
+	for (const r of roots) {
+		measure(r);
+		place(r, left);
+		left += span.get(r)! + gapX;
+	}
+	return pos;
+}
+
+// Radial: the root sits in the center, each depth on a ring; angular
+// sectors are proportional to the number of leaves below each node.
+function radialLayout(
+	nodes: LayoutNode[],
+	edges: LayoutEdge[],
+	gapX: number,
+	gapY: number,
+	root?: string,
+): Map<string, XY> {
+	const size = new Map(nodes.map((n) => [n.id, n]));
+	const forest = spanningForest(nodes, edges, root);
+	// Several roots hang off a virtual center so the whole forest is one tree
+	const CENTER = "__center__";
+	const children = new Map(forest.children);
+	const single = forest.roots.length === 1;
+	const top = single ? forest.roots[0] : CENTER;
+	if (!single) children.set(CENTER, forest.roots);
+
+	const leaves = new Map<string, number>();
+	const countLeaves = (id: string): number => {
+		const kids = children.get(id) ?? [];
+		const n =
+			kids.length === 0 ? 1 : kids.reduce((s, c) => s + countLeaves(c), 0);
+		leaves.set(id, n);
+		return n;
+	};
+	countLeaves(top);
+
+	const maxDim = Math.max(
+		1,
+		...nodes.map((n) => Math.hypot(n.width, n.height)),
+	);
+	// Ring radii grow by at least one node + gap, and leave room on the
+	// circumference for every leaf at that depth
+	const byDepth: number[] = [];
+	const collect = (id: string, d: number) => {
+		byDepth[d] = (byDepth[d] ?? 0) + 1;
+		for (const c of children.get(id) ?? []) collect(c, d + 1);
+	};
+	collect(top, 0);
+	const radius: number[] = [0];
+	for (let d = 1; d < byDepth.length; d++) {
+		const ring = radius[d - 1] + maxDim + gapY;
+		const fit = (byDepth[d] * (maxDim + gapX)) / (2 * Math.PI);
+		radius[d] = Math.max(ring, fit);
+	}
+
+	const centers = new Map<string, XY>();
+	const place = (id: string, d: number, from: number, to: number) => {
+		const a = (from + to) / 2;
+		centers.set(id, {
+			x: radius[d] * Math.cos(a),
+			y: radius[d] * Math.sin(a),
+		});
+		const kids = children.get(id) ?? [];
+		const total = leaves.get(id)!;
+		let start = from;
+		for (const c of kids) {
+			const sweep = ((to - from) * leaves.get(c)!) / total;
+			place(c, d + 1, start, start + sweep);
+			start += sweep;
+		}
+	};
+	place(top, 0, -Math.PI / 2, (3 * Math.PI) / 2);
+
+	const pos = new Map<string, XY>();
+	for (const [id, c] of centers) {
+		const n = size.get(id);
+		if (!n) continue;
+		pos.set(id, { x: c.x - n.width / 2, y: c.y - n.height / 2 });
+	}
+	return pos;
+}
+
+// Force-directed (Fruchterman–Reingold) from a deterministic circular start,
+// followed by a box-overlap pass since the simulation treats nodes as points.
+function forceLayout(
+	nodes: LayoutNode[],
+	edges: LayoutEdge[],
+	gap: number,
+): Map<string, XY> {
+	const n = nodes.length;
+	const maxDim = Math.max(
+		1,
+		...nodes.map((node) => Math.max(node.width, node.height)),
+	);
+	const k = maxDim + gap;
+	const p = nodes.map((_, i) => {
+		const a = (2 * Math.PI * i) / Math.max(1, n);
+		const r = (k * Math.sqrt(n)) / 2;
+		return { x: r * Math.cos(a), y: r * Math.sin(a) };
+	});
+	const index = new Map(nodes.map((node, i) => [node.id, i]));
+	const links = edges.map((e) => [index.get(e.from)!, index.get(e.to)!]);
+
+	const iterations = 300;
+	let temp = k * 2;
+	for (let it = 0; it < iterations; it++) {
+		const disp = p.map(() => ({ x: 0, y: 0 }));
+		for (let i = 0; i < n; i++) {
+			for (let j = i + 1; j < n; j++) {
+				let dx = p[i].x - p[j].x;
+				let dy = p[i].y - p[j].y;
+				let d = Math.hypot(dx, dy);
+				if (d < 1e-6) {
+					// Coincident points: separate along a fixed direction
+					dx = 1;
+					dy = 0;
+					d = 1;
+				}
+				const f = (k * k) / d;
+				disp[i].x += (dx / d) * f;
+				disp[i].y += (dy / d) * f;
+				disp[j].x -= (dx / d) * f;
+				disp[j].y -= (dy / d) * f;
+			}
+		}
+		for (const [a, b] of links) {
+			const dx = p[a].x - p[b].x;
+			const dy = p[a].y - p[b].y;
+			const d = Math.max(1e-6, Math.hypot(dx, dy));
+			const f = (d * d) / k;
+			disp[a].x -= (dx / d) * f;
+			disp[a].y -= (dy / d) * f;
+			disp[b].x += (dx / d) * f;
+			disp[b].y += (dy / d) * f;
+		}
+		// Weak gravity keeps disconnected components from drifting apart
+		for (let i = 0; i < n; i++) {
+			const d = Math.hypot(p[i].x, p[i].y);
+			disp[i].x -= (p[i].x * d) / (k * 4);
+			disp[i].y -= (p[i].y * d) / (k * 4);
+		}
+		for (let i = 0; i < n; i++) {
+			const d = Math.max(1e-6, Math.hypot(disp[i].x, disp[i].y));
+			const step = Math.min(d, temp);
+			p[i].x += (disp[i].x / d) * step;
+			p[i].y += (disp[i].y / d) * step;
+		}
+		temp *= 0.97;
+	}
+
+	const boxes = nodes.map((node, i) => ({
+		x: p[i].x - node.width / 2,
+		y: p[i].y - node.height / 2,
+		width: node.width,
+		height: node.height,
+	}));
+	separateBoxes(boxes, gap);
+	return new Map(nodes.map((node, i) => [node.id, boxes[i]]));
+}
+
+// Push overlapping boxes apart (in place) along the axis of least overlap,
+// keeping at least `gap` between them. Deterministic; bounded passes.
+export function separateBoxes(
+	boxes: { x: number; y: number; width: number; height: number }[],
+	gap: number,
+	maxPasses = 100,
+): void {
+	for (let pass = 0; pass < maxPasses; pass++) {
+		let moved = false;
+		for (let i = 0; i < boxes.length; i++) {
+			for (let j = i + 1; j < boxes.length; j++) {
+				const a = boxes[i];
+				const b = boxes[j];
+				const ox =
+					Math.min(a.x + a.width, b.x + b.width) - Math.max(a.x, b.x) + gap;
+				const oy =
+					Math.min(a.y + a.height, b.y + b.height) - Math.max(a.y, b.y) + gap;
+				if (ox <= 0 || oy <= 0) continue;
+				moved = true;
+				const acx = a.x + a.width / 2;
+				const bcx = b.x + b.width / 2;
+				const acy = a.y + a.height / 2;
+				const bcy = b.y + b.height / 2;
+				if (ox < oy) {
+					const dir = acx <= bcx ? -1 : 1;
+					a.x += (dir * ox) / 2;
+					b.x -= (dir * ox) / 2;
+				} else {
+					const dir = acy <= bcy ? -1 : 1;
+					a.y += (dir * oy) / 2;
+					b.y -= (dir * oy) / 2;
+				}
+			}
+		}
+		if (!moved) return;
+	}
+}
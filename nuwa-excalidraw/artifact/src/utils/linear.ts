@@ -0,0 +1,111 @@
+// Point paths of lines, arrows and freedraw strokes. Skeleton points are
+// relative to the element's x/y; Excalidraw expects the first one at [0, 0]
+// and the element's width/height to span them.
+import { restoreElements } from "@excalidraw/excalidraw";
+
+export type Point = [number, number];
+
+// Edit of a single point; negative indices count from the end (-1 = last)
+export type PointEdit =
+	| { op: "set"; index: number; point: Point }
+	| { op: "move"; index: number; dx: number; dy: number }
+	| { op: "insert"; index: number; point: Point }
+	| { op: "remove"; index: number };
+
+const PATH_TYPES = new Set(["line", "arrow", "freedraw"]);
+
+export function hasPath(e: any): boolean {
+	return PATH_TYPES.has(e?.type) && Array.isArray(e.points);
+}
+
+// A line whose last point returns to its first is filled like a polygon
+export function isClosed(points: readonly Point[]): boolean {
+	if (points.length < 3) return false;
+	const [fx, fy] = points[0];
+	const [lx, ly] = points[points.length - 1];
+	return fx === lx && fy === ly;
+}
+
+function close(points: Point[], closed: boolean): Point[] {
+	if (closed === isClosed(points)) return points;
+	return closed ? [...points, points[0]] : points.slice(0, -1);
+}
+
+// Shift points so the first is at [0, 0] and size the element to them
+export function normalizePath(e: any): any {
+	if (!hasPath(e)) return e;
+	const { closed, ...rest } = e;
+	let points = (e.points as Point[]).map(([x, y]) => [x, y] as Point);
+	if (e.type === "line" && closed !== undefined) points = close(points, closed);
+	const [ox, oy] = points[0];
+	points = points.map(([x, y]) => [x - ox, y - oy]);
+	const xs = points.map((p) => p[0]);
+	const ys = points.map((p) => p[1]);
+	return {
+		...rest,
+		x: Number(e.x ?? 0) + ox,
+		y: Number(e.y ?? 0) + oy,
+		width: Math.max(...xs) - Math.min(...xs),
+		height: Math.max(...ys) - Math.min(...ys),
+		points,
+	};
+}
+
+// Apply point edits in order. Returns an error message instead when an
+// index is out of range or the path would drop below two points.
+export function editPoints(
+	points: readonly Point[],
+	edits: readonly PointEdit[],
+): { points: Point[] } | { error: string } {
+	const wasClosed = isClosed(points);
+	let next = points.map(([x, y]) => [x, y] as Point);
+	for (const edit of edits) {
+		const size = edit.op === "insert" ? next.length + 1 : next.length;
+		const i = edit.index < 0 ? size + edit.index : edit.index;
+		if (i < 0 || i >= size) {
+			return {
+				error: `Point index ${edit.index} is out of range for ${next.length} points`,
+			};
+		}
+		if (edit.op === "set") next[i] = [edit.point[0], edit.point[1]];
+		else if (edit.op === "move") {
+			next[i] = [next[i][0] + edit.dx, next[i][1] + edit.dy];
+		} else if (edit.op === "insert") {
+			// Appending to a polygon goes before the point that closes it
+			const at = wasClosed && i === next.length ? i - 1 : i;
+			next.splice(at, 0, [edit.point[0], edit.point[1]]);
+		} else {
+			if (next.length <= 2) {
+				return { error: "A path needs at least 2 points" };
+			}
+			next.splice(i, 1);
+		}
+	}
+	// Keep a polygon closed when one of its shared end points was moved
+	const last = next.length - 1;
+	if (wasClosed && !isClosed(next) && last === points.length - 1) {
+		const movedLast = edits.some(
+			(e) => e.op !== "insert" && (e.index === -1 || e.index === last),
+		);
+		next[movedLast ? 0 : last] = [...next[movedLast ? last : 0]];
+	}
+	return { points: next };
+}
+
+// convertToExcalidrawElements passes freedraw through untouched, so build
+// the full element here. Without pressures the stroke simulates them.
+export function freedrawElement(e: any): any {
+	const normalized = normalizePath(e);
+	const pressures = Array.isArray(e.pressures) ? e.pressures : [];
+	const [element] = restoreElements(
+		[
+			{
+				...normalized,
+				pressures,
+				simulatePressure: e.simulatePressure ?? pressures.length === 0,
+			} as any,
+		],
+		null,
+	);
+	return element;
+}
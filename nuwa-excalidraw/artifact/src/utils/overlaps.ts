@@ -0,0 +1,241 @@
+// Detect and resolve overlapping shapes and connector labels that sit on
+// shapes. Elements are pushed apart in whole grid steps, later elements (in
+// reading order) moving right/down, so the relative order is preserved.
+import { connectorLabelCenter, rerouteBoundArrows } from "./routing";
+
+type Rect = { x: number; y: number; width: number; height: number };
+
+export type OverlapMove = { id: string; dx: number; dy: number };
+
+export type OverlapReport = {
+	moved: OverlapMove[];
+	// Conflicts that could not be resolved (e.g. both elements pinned)
+	unresolved: Array<{ a: string; b: string; kind: "element" | "label" }>;
+	passes: number;
+};
+
+export type ResolveOverlapsOptions = {
+	// Ids allowed to move (default: every unlocked node)
+	movable?: Set<string>;
+	// Minimum free space between elements
+	gap: number;
+	grid: number;
+	// Rendered box of a node skeleton
+	boxOf: (e: any) => Rect;
+	// Rendered size of a label
+	labelSize: (label: any) => { w: number; h: number };
+	maxPasses?: number;
+};
+
+const NODE_TYPES = new Set([
+	"rectangle",
+	"ellipse",
+	"diamond",
+	"text",
+	"image",
+]);
+
+// Penetration depth of two rects grown by `gap` (≤ 0 means clear)
+function penetration(
+	a: Rect,
+	b: Rect,
+	gap: number,
+): { ox: number; oy: number } {
+	return {
+		ox: Math.min(a.x + a.width, b.x + b.width) - Math.max(a.x, b.x) + gap,
+		oy: Math.min(a.y + a.height, b.y + b.height) - Math.max(a.y, b.y) + gap,
+	};
+}
+
+const center = (r: Rect) => ({ x: r.x + r.width / 2, y: r.y + r.height / 2 });
+
+function contains(outer: Rect, inner: Rect): boolean {
+	return (
+		inner.x >= outer.x &&
+		inner.y >= outer.y &&
+		inner.x + inner.width <= outer.x + outer.width &&
+		inner.y + inner.height <= outer.y + outer.height
+	);
+}
+
+function containsPoint(r: Rect, p: { x: number; y: number }): boolean {
+	return p.x > r.x && p.x < r.x + r.width && p.y > r.y && p.y < r.y + r.height;
+}
+
+export function resolveOverlaps(
+	skeletons: any[],
+	opts: ResolveOverlapsOptions,
+): { next: any[]; report: OverlapReport } {
+	const { gap, grid } = opts;
+	const steps = (d: number) => Math.ceil(d / grid) * grid;
+	const nodes = skeletons.filter((e: any) => NODE_TYPES.has(e.type));
+	// Reading order: top to bottom, then left to right
+	const order = [...nodes].sort(
+		(a, b) =>
+			Number(a.y ?? 0) - Number(b.y ?? 0) ||
+			Number(a.x ?? 0) - Number(b.x ?? 0),
+	);
+	const rects = new Map<string, Rect>(
+		order.map((e: any) => [e.id, { ...opts.boxOf(e) }]),
+	);
+	// Shapes drawn inside another (kanban cards, swimlane and container
+	// contents) are not overlaps; pairs nested at the start are left alone
+	const nested = new Set<string>();
+	for (let i = 0; i < order.length; i++) {
+		for (let j = i + 1; j < order.length; j++) {
+			const a = rects.get(order[i].id)!;
+			const b = rects.get(order[j].id)!;
+			if (contains(a, b) || contains(b, a)) {
+				nested.add(`${order[i].id}|${order[j].id}`);
+			}
+		}
+	}
+	const canMove = (id: string | undefined) => {
+		if (!id) return false;
+		const e = nodes.find((n: any) => n.id === id);
+		if (!e || e.locked) return false;
+		return opts.movable ? opts.movable.has(id) : true;
+	};
+	const shift = new Map<string, { dx: number; dy: number }>();
+	const move = (id: string, dx: number, dy: number) => {
+		const r = rects.get(id)!;
+		r.x += dx;
+		r.y += dy;
+		const s = shift.get(id) ?? { dx: 0, dy: 0 };
+		shift.set(id, { dx: s.dx + dx, dy: s.dy + dy });
+	};
+	// Skeletons with the current shifts applied and bound arrows rerouted
+	const current = () => {
+		const placed = skeletons.map((e: any) => {
+			const s = shift.get(e.id);
+			return s
+				? { ...e, x: Number(e.x ?? 0) + s.dx, y: Number(e.y ?? 0) + s.dy }
+				: e;
+		});
+		return rerouteBoundArrows(placed, new Set(shift.keys()));
+	};
+
+	const unresolved = new Map<string, OverlapReport["unresolved"][number]>();
+	const maxPasses = opts.maxPasses ?? 50;
+	let passes = 0;
+	while (passes < maxPasses) {
+		passes++;
+		let changed = false;
+		unresolved.clear();
+
+		// Node vs node: push the later one forward, or the earlier one back
+		// when the later one is pinned
+		for (let i = 0; i < order.length; i++) {
+			for (let j = i + 1; j < order.length; j++) {
+				if (nested.has(`${order[i].id}|${order[j].id}`)) continue;
+				const a = rects.get(order[i].id)!;
+				const b = rects.get(order[j].id)!;
+				const { ox, oy } = penetration(a, b, gap);
+				if (ox <= 0 || oy <= 0) continue;
+				const ca = center(a);
+				const cb = center(b);
+				const horizontal = cb.x >= ca.x && (ox <= oy || cb.y < ca.y);
+				const dx = horizontal ? steps(ox) : 0;
+				const dy = horizontal ? 0 : steps(oy);
+				if (canMove(order[j].id)) move(order[j].id, dx, dy);
+				else if (canMove(order[i].id)) move(order[i].id, -dx, -dy);
+				else {
+					unresolved.set(`${order[i].id}|${order[j].id}`, {
+						a: order[i].id,
+						b: order[j].id,
+						kind: "element",
+					});
+					continue;
+				}
+				changed = true;
+			}
+		}
+
+		// Connector labels vs nodes
+		for (const e of current()) {
+			if (e.type !== "arrow" && e.type !== "line") continue;
+			if (!e.label?.text) continue;
+			const { w, h } = opts.labelSize(e.label);
+			const c = connectorLabelCenter(e);
+			const label: Rect = {
+				x: c.x - w / 2,
+				y: c.y - h / 2,
+				width: w,
+				height: h,
+			};
+			const fromId = e.start?.id;
+			const toId = e.end?.id;
+			const ends = [fromId, toId]
+				.map((id) => (id ? rects.get(id) : undefined))
+				.filter((r): r is Rect => !!r)
+				.map(center);
+			for (const n of order) {
+				const r = rects.get(n.id)!;
+				const { ox, oy } = penetration(label, r, 0);
+				if (ox <= 0 || oy <= 0) continue;
+				// A shape enclosing an end of the connector is its background
+				// (a lane or container), not something sitting under the label
+				if (
+					n.id !== fromId &&
+					n.id !== toId &&
+					ends.some((p) => containsPoint(r, p))
+				) {
+					continue;
+				}
+				if (n.id === fromId || n.id === toId) {
+					// Connector too short for its label: lengthen it by moving an
+					// end shape along the dominant direction
+					const from = fromId ? rects.get(fromId) : undefined;
+					const to = toId ? rects.get(toId) : undefined;
+					if (!from || !to) continue;
+					const cf = center(from);
+					const ct = center(to);
+					const horizontal = Math.abs(ct.x - cf.x) >= Math.abs(ct.y - cf.y);
+					const d = steps(2 * (horizontal ? ox : oy) + gap);
+					const sx = horizontal ? Math.sign(ct.x - cf.x) || 1 : 0;
+					const sy = horizontal ? 0 : Math.sign(ct.y - cf.y) || 1;
+					if (canMove(toId)) move(toId, sx * d, sy * d);
+					else if (canMove(fromId)) move(fromId, -sx * d, -sy * d);
+					else {
+						unresolved.set(`${e.id}|${n.id}`, {
+							a: e.id,
+							b: n.id,
+							kind: "label",
+						});
+						continue;
+					}
+				} else {
+					// Some other shape sits under the label: push it away
+					if (!canMove(n.id)) {
+						unresolved.set(`${e.id}|${n.id}`, {
+							a: e.id,
+							b: n.id,
+							kind: "label",
+						});
+						continue;
+					}
+					const cr = center(r);
+					if (ox <= oy) {
+						const d = steps(ox + gap);
+						move(n.id, cr.x >= c.x ? d : -d, 0);
+					} else {
+						const d = steps(oy + gap);
+						move(n.id, 0, cr.y >= c.y ? d : -d);
+					}
+				}
+				changed = true;
+				// Geometry changed; re-check labels on the next pass
+				break;
+			}
+		}
+		if (!changed) break;
+	}
+
+	const moved = [...shift.entries()]
+		.filter(([, s]) => s.dx !== 0 || s.dy !== 0)
+		.map(([id, s]) => ({ id, dx: s.dx, dy: s.dy }));
+	return {
+		next: moved.length > 0 ? current() : skeletons,
+		report: { moved, unresolved: [...unresolved.values()], passes },
+	};
+}
@@ -0,0 +1,72 @@
+// Named pages of one canvas document. Only the active page is rendered in
+// Excalidraw; the others keep their elements and skeletons here until the
+// user or a tool switches to them.
+import { slugId } from "./diagramImport";
+import type { DiagramType } from "./semantics";
+
+export type PageView = { scrollX: number; scrollY: number; zoom: number };
+
+export type StoredPage = {
+	id: string;
+	name: string;
+	elements: any[];
+	skeletons: any[];
+	// Scroll and zoom to restore when switching back
+	view?: PageView;
+	diagramType: DiagramType | null;
+};
+
+export type PageInfo = {
+	id: string;
+	name: string;
+	active: boolean;
+	elementCount: number;
+	diagramType: DiagramType | null;
+};
+
+// Page operations the MCP hook needs from the artifact
+export type PageStore = {
+	list: () => PageInfo[];
+	active: () => string;
+	create: (name: string) => PageInfo;
+	switchTo: (id: string) => void;
+	remove: (id: string) => void;
+	// Live elements of a page (the canvas for the active one)
+	elements: (id: string) => readonly any[];
+};
+
+export const DEFAULT_PAGE_NAME = "Page 1";
+
+export function emptyPage(id: string, name: string): StoredPage {
+	return { id, name, elements: [], skeletons: [], diagramType: null };
+}
+
+// Stable id from the name, unique among the given pages
+export function pageIdFor(name: string, pages: readonly StoredPage[]): string {
+	const base = `page_${slugId(name).toLowerCase()}`;
+	let id = base;
+	for (let n = 2; pages.some((p) => p.id === id); n++) id = `${base}_${n}`;
+	return id;
+}
+
+// Look a page up by id, else by case-insensitive name
+export function findPage<T extends { id: string; name: string }>(
+	pages: readonly T[],
+	ref: string,
+): T | undefined {
+	const wanted = ref.trim().toLowerCase();
+	return (
+		pages.find((p) => p.id === ref) ??
+		pages.find((p) => p.name.trim().toLowerCase() === wanted)
+	);
+}
+
+export function pageInfo(page: StoredPage, activeId: string): PageInfo {
+	return {
+		id: page.id,
+		name: page.name,
+		active: page.id === activeId,
+		elementCount: page.elements.filter((e: any) => !e.isDeleted).length,
+		diagramType: page.diagramType,
+	};
+}
@@ -0,0 +1,133 @@
+// Shape of the canvas state saved through nuwa.saveState, plus migration of
+// older saves. Bump STATE_VERSION and add a step to migrateState whenever the
+// format changes.
+import { DEFAULT_PAGE_NAME, type StoredPage } from "./pages";
+import { elementsToSkeletons } from "./reconcile";
+import { DIAGRAM_TYPES, type DiagramType } from "./semantics";
+import type { Theme } from "./styles";
+import type { SavedComponent } from "./templates";
+
+export const STATE_VERSION = 5;
+
+export type PersistedState = {
+	version: typeof STATE_VERSION;
+	// Every page with its elements and the skeleton model behind them, so
+	// MCP tools can keep editing each drawing
+	pages: StoredPage[];
+	activePage: string;
+	appState: Record<string, any>;
+	// Image files, shared by all pages
+	files: Record<string, any>;
+	// Reusable components saved from selections, by name
+	components: Record<string, SavedComponent>;
+	// Style preset applied to new elements, if one was chosen
+	theme: Theme | null;
+};
+
+// Excalidraw keeps runtime-only data in appState that must not be persisted
+const VOLATILE_APP_STATE = ["collaborators", "contextMenu", "openDialog"];
+
+export function buildPersistedState(
+	pages: readonly StoredPage[],
+	activePage: string,
+	appState: Record<string, any>,
+	files: Record<string, any>,
+	components: Record<string, SavedComponent>,
+	theme: Theme | null,
+): PersistedState {
+	const persistedAppState = { ...appState };
+	for (const k of VOLATILE_APP_STATE) delete persistedAppState[k];
+	return {
+		version: STATE_VERSION,
+		pages: pages.map((p) => ({
+			...p,
+			elements: p.elements.filter((e: any) => !e.isDeleted),
+		})),
+		activePage,
+		appState: persistedAppState,
+		files,
+		components,
+		theme,
+	};
+}
+
+// Normalize whatever was saved into the current format. Returns null when
+// nothing usable was stored.
+export function migrateState(raw: unknown): PersistedState | null {
+	if (!raw || typeof raw !== "object") return null;
+	const state = raw as Record<string, any>;
+	// Saves from a newer version load best-effort: unknown fields are dropped
+	const version = typeof state.version === "number" ? state.version : 0;
+	const appState =
+		state.appState && typeof state.appState === "object" ? state.appState : {};
+	const files =
+		state.files && typeof state.files === "object" ? state.files : {};
+
+	// v1: no component library yet
+	const components =
+		version >= 2 && state.components && typeof state.components === "object"
+			? state.components
+			: {};
+
+	// v2: no theme
+	const theme =
+		version >= 3 && state.theme && typeof state.theme === "object"
+			? state.theme
+			: null;
+
+	// v4: a single drawing at the top level instead of pages
+	const pages: StoredPage[] =
+		version >= 5 && Array.isArray(state.pages) && state.pages.length > 0
+			? state.pages.map(migratePage)
+			: [legacyPage(state, version)];
+	const activePage = pages.some((p) => p.id === state.activePage)
+		? state.activePage
+		: pages[0].id;
+
+	return {
+		version: STATE_VERSION,
+		pages,
+		activePage,
+		appState,
+		files,
+		components,
+		theme,
+	};
+}
+
+function diagramTypeOf(value: unknown): DiagramType | null {
+	return DIAGRAM_TYPES.includes(value as DiagramType)
+		? (value as DiagramType)
+		: null;
+}
+
+function migratePage(page: any, index: number): StoredPage {
+	const elements = Array.isArray(page?.elements) ? page.elements : [];
+	return {
+		id: typeof page?.id === "string" ? page.id : `page_${index + 1}`,
+		name: typeof page?.name === "string" ? page.name : `Page ${index + 1}`,
+		elements,
+		skeletons: Array.isArray(page?.skeletons)
+			? page.skeletons
+			: elementsToSkeletons(elements),
+		view: page?.view,
+		diagramType: diagramTypeOf(page?.diagramType),
+	};
+}
+
+function legacyPage(state: Record<string, any>, version: number): StoredPage {
+	const elements = Array.isArray(state.elements) ? state.elements : [];
+	return {
+		id: "page_1",
+		name: DEFAULT_PAGE_NAME,
+		elements,
+		// v0: plain { elements, appState, files } without a skeleton model;
+		// regenerate it from the saved elements
+		skeletons:
+			version >= 1 && Array.isArray(state.skeletons)
+				? state.skeletons
+				: elementsToSkeletons(elements),
+		// v3: no diagram type
+		diagramType: version >= 4 ? diagramTypeOf(state.diagramType) : null,
+	};
+}
@@ -0,0 +1,145 @@
+// Derive skeletons from live Excalidraw elements so edits made by hand on the
+// canvas flow back into the skeleton store used by the MCP tools.
+// Output feeds convertToExcalidrawElements (ids preserved) without loss of
+// what the user drew: geometry, style, bound labels, bindings and frames.
+
+// Generic props every skeleton keeps as-is when present
+const COMMON_PROPS = [
+	"angle",
+	"strokeColor",
+	"backgroundColor",
+	"fillStyle",
+	"strokeWidth",
+	"strokeStyle",
+	"roughness",
+	"opacity",
+	"roundness",
+	"seed",
+	"groupIds",
+	"locked",
+	"link",
+	"customData",
+] as const;
+
+function pick(el: any, keys: readonly string[]): Record<string, any> {
+	const out: Record<string, any> = {};
+	for (const k of keys) {
+		if (el[k] !== undefined && el[k] !== null) out[k] = el[k];
+	}
+	return out;
+}
+
+function labelOf(text: any): any {
+	return {
+		text: String(text.originalText ?? text.text ?? ""),
+		...pick(text, [
+			"fontSize",
+			"fontFamily",
+			"lineHeight",
+			"textAlign",
+			"verticalAlign",
+			"strokeColor",
+		]),
+	};
+}
+
+export function elementsToSkeletons(elements: readonly any[]): any[] {
+	const live = elements.filter((e: any) => !e.isDeleted);
+	const byId = new Map<string, any>(live.map((e: any) => [e.id, e]));
+	// Bound text becomes the `label` of its container
+	const labels = new Map<string, any>();
+	for (const e of live) {
+		if (e.type === "text" && e.containerId && byId.has(e.containerId)) {
+			labels.set(e.containerId, labelOf(e));
+		}
+	}
+
+	const out: any[] = [];
+	for (const e of live) {
+		const base = {
+			type: e.type,
+			id: e.id,
+			x: e.x,
+			y: e.y,
+			...pick(e, COMMON_PROPS),
+		};
+		switch (e.type) {
+			case "rectangle":
+			case "ellipse":
+			case "diamond": {
+				const s: any = { ...base, width: e.width, height: e.height };
+				if (labels.has(e.id)) s.label = labels.get(e.id);
+				out.push(s);
+				break;
+			}
+			case "arrow":
+			case "line": {
+				const s: any = {
+					...base,
+					width: e.width,
+					height: e.height,
+					points: e.points,
+					...pick(e, ["elbowed", "polygon"]),
+				};
+				if (e.type === "arrow") {
+					// Keep null ("no arrowhead"): the converter would otherwise
+					// default the end to an arrow after a JSON round trip
+					s.startArrowhead = e.startArrowhead ?? null;
+					s.endArrowhead = e.endArrowhead ?? null;
+				}
+				const startId = e.startBinding?.elementId;
+				const endId = e.endBinding?.elementId;
+				if (startId && byId.has(startId)) s.start = { id: startId };
+				if (endId && byId.has(endId)) s.end = { id: endId };
+				if (labels.has(e.id)) s.label = labels.get(e.id);
+				out.push(s);
+				break;
+			}
+			case "text": {
+				if (e.containerId && byId.has(e.containerId)) break;
+				out.push({
+					...base,
+					text: String(e.originalText ?? e.text ?? ""),
+					...pick(e, [
+						"fontSize",
+						"fontFamily",
+						"textAlign",
+						"verticalAlign",
+						"lineHeight",
+						"autoResize",
+					]),
+					// Fixed-width text keeps wrapping at its width
+					...(e.autoResize === false ? { maxWidth: e.width } : {}),
+				});
+				break;
+			}
+			case "image": {
+				out.push({
+					...base,
+					width: e.width,
+					height: e.height,
+					fileId: e.fileId,
+					...pick(e, ["scale", "crop"]),
+				});
+				break;
+			}
+			case "frame":
+			case "magicframe": {
+				out.push({
+					...base,
+					width: e.width,
+					height: e.height,
+					name: e.name ?? undefined,
+					children: live
+						.filter((c: any) => c.frameId === e.id && !c.containerId)
+						.map((c: any) => c.id),
+				});
+				break;
+			}
+			default:
+				// freedraw, iframe, embeddable: the converter accepts full elements
+				out.push(e);
+		}
+	}
+	return out;
+}
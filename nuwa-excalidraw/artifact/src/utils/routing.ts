@@ -0,0 +1,438 @@
+// Connector routing between shapes: straight, orthogonal (elbow) or curved
+// paths that go around the bounding boxes of other elements. Curved routes
+// are the orthogonal path drawn with rounded corners, so the curve can cut
+// into the clearance kept around obstacles at its bends; it stays clear of
+// the shapes themselves as long as the clearance is larger than the rounding.
+import { centerPoint, connectorBetween, type XY } from "./geometry";
+import { measureLabelSize } from "./textLayout";
+
+export type RouteStyle = "straight" | "orthogonal" | "curved";
+
+type Box = { x1: number; y1: number; x2: number; y2: number };
+
+// Clearance kept between a routed connector and any obstacle
+const CLEARANCE = 16;
+// Extra cost per bend so routes prefer fewer elbows over slightly shorter paths
+const BEND_PENALTY = 48;
+// Search budget; beyond this the route falls back to a straight connector
+const MAX_VISITS = 200_000;
+
+// Skeleton fields of a routed line/arrow
+export type RoutedConnector = {
+	x: number;
+	y: number;
+	width: number;
+	height: number;
+	points?: [number, number][];
+	roundness?: { type: number } | null;
+};
+
+const OBSTACLE_TYPES = new Set([
+	"rectangle",
+	"ellipse",
+	"diamond",
+	"text",
+	"image",
+]);
+
+function boxOf(el: any): Box {
+	const x = Number(el.x ?? 0);
+	const y = Number(el.y ?? 0);
+	const w = Number(el.width ?? 0);
+	const h = Number(el.height ?? 0);
+	return {
+		x1: Math.min(x, x + w),
+		y1: Math.min(y, y + h),
+		x2: Math.max(x, x + w),
+		y2: Math.max(y, y + h),
+	};
+}
+
+function inflate(b: Box, d: number): Box {
+	return { x1: b.x1 - d, y1: b.y1 - d, x2: b.x2 + d, y2: b.y2 + d };
+}
+
+function strictlyInside(b: Box, p: XY): boolean {
+	return p.x > b.x1 && p.x < b.x2 && p.y > b.y1 && p.y < b.y2;
+}
+
+function boxesOverlap(a: Box, b: Box): boolean {
+	return a.x1 < b.x2 && a.x2 > b.x1 && a.y1 < b.y2 && a.y2 > b.y1;
+}
+
+// Boxes of the shapes a connector between fromEl and toEl must avoid.
+// Shapes enclosing either endpoint (e.g. a background panel) are ignored,
+// otherwise no route could leave them.
+function obstaclesFor(skeletons: any[], fromEl: any, toEl: any): Box[] {
+	const a = centerPoint(fromEl);
+	const b = centerPoint(toEl);
+	const out: Box[] = [];
+	for (const e of skeletons) {
+		if (e.id === fromEl.id || e.id === toEl.id) continue;
+		if (!OBSTACLE_TYPES.has(e.type)) continue;
+		if (!(Number(e.width) > 0) || !(Number(e.height) > 0)) continue;
+		const box = boxOf(e);
+		if (strictlyInside(box, a) || strictlyInside(box, b)) continue;
+		out.push(box);
+	}
+	return out;
+}
+
+function insideShape(el: any, p: XY): boolean {
+	const b = boxOf(el);
+	const cx = (b.x1 + b.x2) / 2;
+	const cy = (b.y1 + b.y2) / 2;
+	const rx = Math.max(1e-6, (b.x2 - b.x1) / 2);
+	const ry = Math.max(1e-6, (b.y2 - b.y1) / 2);
+	const nx = (p.x - cx) / rx;
+	const ny = (p.y - cy) / ry;
+	switch (el.type) {
+		case "ellipse":
+			return nx * nx + ny * ny < 1;
+		case "diamond":
+			return Math.abs(nx) + Math.abs(ny) < 1;
+		default:
+			return Math.abs(nx) < 1 && Math.abs(ny) < 1;
+	}
+}
+
+// Point where the segment inside→outside crosses the outline of el
+function shapeBoundary(el: any, inside: XY, outside: XY): XY {
+	let lo = 0;
+	let hi = 1;
+	for (let i = 0; i < 24; i++) {
+		const mid = (lo + hi) / 2;
+		const p = {
+			x: inside.x + (outside.x - inside.x) * mid,
+			y: inside.y + (outside.y - inside.y) * mid,
+		};
+		if (insideShape(el, p)) lo = mid;
+		else hi = mid;
+	}
+	return {
+		x: inside.x + (outside.x - inside.x) * hi,
+		y: inside.y + (outside.y - inside.y) * hi,
+	};
+}
+
+// Drop points that sit on a straight run between their neighbours
+function simplify(pts: XY[]): XY[] {
+	const out: XY[] = [];
+	for (const p of pts) {
+		const n = out.length;
+		if (n > 0 && out[n - 1].x === p.x && out[n - 1].y === p.y) continue;
+		if (
+			n >= 2 &&
+			((out[n - 2].x === out[n - 1].x && out[n - 1].x === p.x) ||
+				(out[n - 2].y === out[n - 1].y && out[n - 1].y === p.y))
+		) {
+			out[n - 1] = p;
+			continue;
+		}
+		out.push(p);
+	}
+	return out;
+}
+
+// Minimal binary heap keyed by priority
+class MinHeap {
+	private items: Array<[number, number]> = [];
+	get size(): number {
+		return this.items.length;
+	}
+	push(priority: number, value: number): void {
+		const a = this.items;
+		a.push([priority, value]);
+		let i = a.length - 1;
+		while (i > 0) {
+			const parent = (i - 1) >> 1;
+			if (a[parent][0] <= a[i][0]) break;
+			[a[parent], a[i]] = [a[i], a[parent]];
+			i = parent;
+		}
+	}
+	pop(): number {
+		const a = this.items;
+		const top = a[0][1];
+		const last = a.pop()!;
+		if (a.length > 0) {
+			a[0] = last;
+			let i = 0;
+			for (;;) {
+				const l = i * 2 + 1;
+				const r = l + 1;
+				let m = i;
+				if (l < a.length && a[l][0] < a[m][0]) m = l;
+				if (r < a.length && a[r][0] < a[m][0]) m = r;
+				if (m === i) break;
+				[a[m], a[i]] = [a[i], a[m]];
+				i = m;
+			}
+		}
+		return top;
+	}
+}
+
+// Shortest orthogonal path from the centre of fromEl to the centre of toEl
+// on a sparse grid built from the obstacle edges (plus clearance). Costs are
+// path length plus a penalty per bend. Returns null when no path exists.
+function orthogonalPath(fromEl: any, toEl: any, obstacles: Box[]): XY[] | null {
+	const start = centerPoint(fromEl);
+	const goal = centerPoint(toEl);
+	const blocked = obstacles.map((b) => inflate(b, CLEARANCE - 1));
+
+	const xsSet = new Set<number>([start.x, goal.x]);
+	const ysSet = new Set<number>([start.y, goal.y]);
+	for (const b of [...obstacles, boxOf(fromEl), boxOf(toEl)]) {
+		const c = inflate(b, CLEARANCE);
+		xsSet.add(c.x1);
+		xsSet.add(c.x2);
+		ysSet.add(c.y1);
+		ysSet.add(c.y2);
+	}
+	const xs = [...xsSet].sort((a, b) => a - b);
+	const ys = [...ysSet].sort((a, b) => a - b);
+	const W = xs.length;
+	const H = ys.length;
+
+	const freeCache = new Map<number, boolean>();
+	const isFree = (p: XY, key: number): boolean => {
+		let free = freeCache.get(key);
+		if (free === undefined) {
+			free = !blocked.some((b) => strictlyInside(b, p));
+			freeCache.set(key, free);
+		}
+		return free;
+	};
+	// A grid edge either lies fully inside an obstacle's span or fully outside,
+	// so testing its midpoint is enough
+	const edgeFree = (a: XY, b: XY): boolean => {
+		const mid = { x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 };
+		return !blocked.some((box) => strictlyInside(box, mid));
+	};
+
+	const si = xs.indexOf(start.x);
+	const sj = ys.indexOf(start.y);
+	const gi = xs.indexOf(goal.x);
+	const gj = ys.indexOf(goal.y);
+	// State: cell * 5 + incoming direction (0..3, 4 = none)
+	const DIRS: Array<[number, number]> = [
+		[1, 0],
+		[-1, 0],
+		[0, 1],
+		[0, -1],
+	];
+	const startState = (sj * W + si) * 5 + 4;
+	const cost = new Map<number, number>([[startState, 0]]);
+	const cameFrom = new Map<number, number>();
+	const heuristic = (i: number, j: number) =>
+		Math.abs(xs[i] - goal.x) + Math.abs(ys[j] - goal.y);
+	const open = new MinHeap();
+	open.push(heuristic(si, sj), startState);
+
+	let visits = 0;
+	while (open.size > 0 && visits++ < MAX_VISITS) {
+		const state = open.pop();
+		const dir = state % 5;
+		const cell = (state - dir) / 5;
+		const i = cell % W;
+		const j = (cell - i) / W;
+		const g = cost.get(state)!;
+		if (i === gi && j === gj) {
+			const path: XY[] = [];
+			for (
+				let s: number | undefined = state;
+				s !== undefined;
+				s = cameFrom.get(s)
+			) {
+				const c = Math.floor(s / 5);
+				path.push({ x: xs[c % W], y: ys[Math.floor(c / W)] });
+			}
+			return path.reverse();
+		}
+		for (let d = 0; d < 4; d++) {
+			const ni = i + DIRS[d][0];
+			const nj = j + DIRS[d][1];
+			if (ni < 0 || nj < 0 || ni >= W || nj >= H) continue;
+			const p = { x: xs[i], y: ys[j] };
+			const q = { x: xs[ni], y: ys[nj] };
+			if (!isFree(q, nj * W + ni) || !edgeFree(p, q)) continue;
+			const step =
+				Math.abs(q.x - p.x) +
+				Math.abs(q.y - p.y) +
+				(dir !== 4 && dir !== d ? BEND_PENALTY : 0);
+			const next = (nj * W + ni) * 5 + d;
+			const ng = g + step;
+			if (ng < (cost.get(next) ?? Number.POSITIVE_INFINITY)) {
+				cost.set(next, ng);
+				cameFrom.set(next, state);
+				open.push(ng + heuristic(ni, nj), next);
+			}
+		}
+	}
+	return null;
+}
+
+// Trim a centre-to-centre path so it starts and ends on the shape outlines
+function clipToShapes(path: XY[], fromEl: any, toEl: any): XY[] | null {
+	let first = 0;
+	while (first < path.length && insideShape(fromEl, path[first])) first++;
+	let last = path.length - 1;
+	while (last >= 0 && insideShape(toEl, path[last])) last--;
+	if (first === 0 || last === path.length - 1 || first > last) return null;
+	return [
+		shapeBoundary(fromEl, path[first - 1], path[first]),
+		...path.slice(first, last + 1),
+		shapeBoundary(toEl, path[last + 1], path[last]),
+	];
+}
+
+// Excalidraw puts an arrow label on the middle point (odd point count) or the
+// middle segment (even count). Split other segments so that the longest
+// segment whose label box does not hit an obstacle becomes the middle one.
+function centreLabelSegment(
+	pts: XY[],
+	obstacles: Box[],
+	label?: { w: number; h: number },
+): XY[] {
+	if (pts.length < 2) return pts;
+	const segs = pts.slice(1).map((p, k) => ({
+		k,
+		len: Math.abs(p.x - pts[k].x) + Math.abs(p.y - pts[k].y),
+	}));
+	const free = (k: number) => {
+		if (!label) return true;
+		const a = pts[k];
+		const b = pts[k + 1];
+		const cx = (a.x + b.x) / 2;
+		const cy = (a.y + b.y) / 2;
+		const box = {
+			x1: cx - label.w / 2,
+			y1: cy - label.h / 2,
+			x2: cx + label.w / 2,
+			y2: cy + label.h / 2,
+		};
+		return !obstacles.some((o) => boxesOverlap(o, box));
+	};
+	const ranked = [...segs].sort((a, b) => b.len - a.len);
+	const target = (ranked.find((s) => free(s.k)) ?? ranked[0]).k;
+
+	const before = pts.slice(0, target + 1);
+	const after = pts.slice(target + 1);
+	// Split the longest segment of a side in half until both sides hold the
+	// same number of segments. A side without segments takes a quarter of the
+	// label segment instead.
+	const carve = (toward: XY, from: XY): XY => ({
+		x: from.x + (toward.x - from.x) * 0.25,
+		y: from.y + (toward.y - from.y) * 0.25,
+	});
+	const split = (side: XY[]) => {
+		let best = 0;
+		let bestLen = -1;
+		for (let k = 0; k < side.length - 1; k++) {
+			const len =
+				Math.abs(side[k + 1].x - side[k].x) +
+				Math.abs(side[k + 1].y - side[k].y);
+			if (len > bestLen) {
+				bestLen = len;
+				best = k;
+			}
+		}
+		const a = side[best];
+		const b = side[best + 1];
+		side.splice(best + 1, 0, { x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 });
+	};
+	while (before.length !== after.length) {
+		const a = before[before.length - 1];
+		const b = after[0];
+		if (before.length < after.length) {
+			if (before.length === 1) before.push(carve(b, a));
+			else split(before);
+		} else if (after.length === 1) after.unshift(carve(a, b));
+		else split(after);
+	}
+	return [...before, ...after];
+}
+
+// Geometry for a connector from fromEl to toEl. Orthogonal and curved routes
+// avoid the other shapes in `skeletons`; when no such path exists they fall
+// back to a straight connector. `label` is the measured label size, used to
+// keep it on a free segment.
+export function routeConnector(
+	fromEl: any,
+	toEl: any,
+	route: RouteStyle,
+	skeletons: any[],
+	label?: { w: number; h: number },
+): RoutedConnector {
+	if (route === "straight") return connectorBetween(fromEl, toEl);
+	const obstacles = obstaclesFor(skeletons, fromEl, toEl);
+	const raw = orthogonalPath(fromEl, toEl, obstacles);
+	const clipped = raw ? clipToShapes(simplify(raw), fromEl, toEl) : null;
+	if (!clipped || clipped.length < 2) return connectorBetween(fromEl, toEl);
+
+	const pts = centreLabelSegment(simplify(clipped), obstacles, label).map(
+		(p) => ({ x: Math.round(p.x * 100) / 100, y: Math.round(p.y * 100) / 100 }),
+	);
+	const origin = pts[0];
+	const end = pts[pts.length - 1];
+	return {
+		x: origin.x,
+		y: origin.y,
+		width: end.x - origin.x,
+		height: end.y - origin.y,
+		points: pts.map((p) => [p.x - origin.x, p.y - origin.y]),
+		// Proportional rounding turns the elbow path into a smooth curve; the
+		// corners are not re-checked against the obstacles
+		roundness: route === "curved" ? { type: 2 } : null,
+	};
+}
+
+// Where Excalidraw renders the label of a line/arrow skeleton
+export function connectorLabelCenter(e: any): XY {
+	const x = Number(e.x ?? 0);
+	const y = Number(e.y ?? 0);
+	const pts: [number, number][] = Array.isArray(e.points)
+		? e.points
+		: [
+				[0, 0],
+				[Number(e.width ?? 0), Number(e.height ?? 0)],
+			];
+	const n = pts.length;
+	if (n % 2 === 1) {
+		const [px, py] = pts[(n - 1) / 2];
+		return { x: x + px, y: y + py };
+	}
+	const [ax, ay] = pts[n / 2 - 1];
+	const [bx, by] = pts[n / 2];
+	return { x: x + (ax + bx) / 2, y: y + (ay + by) / 2 };
+}
+
+// Recompute bound connectors (start.id/end.id) after their shapes moved.
+// Only connectors touching `movedIds` are rerouted; others are kept as-is.
+// The route style stored in customData.route is kept, and labelled
+// connectors keep room for their label.
+export function rerouteBoundArrows(
+	skeletons: any[],
+	movedIds: Set<string>,
+): any[] {
+	const byId = new Map<string, any>(skeletons.map((e: any) => [e.id, e]));
+	return skeletons.map((e: any) => {
+		if (e.type !== "arrow" && e.type !== "line") return e;
+		const fromId = e.start?.id;
+		const toId = e.end?.id;
+		if (!fromId || !toId) return e;
+		if (!movedIds.has(fromId) && !movedIds.has(toId)) return e;
+		const fromEl = byId.get(fromId);
+		const toEl = byId.get(toId);
+		if (!fromEl || !toEl) return e;
+		const route: RouteStyle = e.customData?.route ?? "straight";
+		// Drop old points; straight connectors derive them from their size
+		const { points: _points, ...rest } = e;
+		const label = e.label ? measureLabelSize(e.label) : undefined;
+		return {
+			...rest,
+			...routeConnector(fromEl, toEl, route, skeletons, label),
+		};
+	});
+}
@@ -0,0 +1,138 @@
+// Helpers for exporting live scene elements: scoping to a selection, frame
+// or bounding box, and a best-effort reverse conversion to Mermaid.
+import { slugId } from "./diagramImport";
+
+export type ExportScope = {
+	selectionOnly?: boolean;
+	frameId?: string;
+	bbox?: { x: number; y: number; width: number; height: number };
+};
+
+function intersects(
+	e: any,
+	box: { x: number; y: number; width: number; height: number },
+): boolean {
+	const x1 = Math.min(e.x, e.x + e.width);
+	const y1 = Math.min(e.y, e.y + e.height);
+	const x2 = Math.max(e.x, e.x + e.width);
+	const y2 = Math.max(e.y, e.y + e.height);
+	return !(
+		x2 < box.x ||
+		x1 > box.x + box.width ||
+		y2 < box.y ||
+		y1 > box.y + box.height
+	);
+}
+
+// Narrow live (non-deleted) elements to the requested scope. Filters combine;
+// bound text follows its container so labels are never cut off.
+export function scopeElements(
+	elements: readonly any[],
+	selectedIds: Record<string, boolean>,
+	scope: ExportScope,
+): any[] {
+	const live = elements.filter((e: any) => !e.isDeleted);
+	const keep = new Set<string>();
+	for (const e of live) {
+		if (scope.selectionOnly && !selectedIds[e.id]) continue;
+		if (
+			scope.frameId &&
+			e.id !== scope.frameId &&
+			e.frameId !== scope.frameId
+		) {
+			continue;
+		}
+		if (scope.bbox && !intersects(e, scope.bbox)) continue;
+		keep.add(e.id);
+	}
+	return live.filter(
+		(e: any) => keep.has(e.id) || (e.containerId && keep.has(e.containerId)),
+	);
+}
+
+const MERMAID_SHAPES: Record<string, [string, string]> = {
+	rectangle: ['["', '"]'],
+	ellipse: ['(["', '"])'],
+	diamond: ['{"', '"}'],
+};
+
+function mermaidText(s: string): string {
+	return s.replace(/"/g, "#quot;").replace(/\n/g, "<br>");
+}
+
+// Reverse-convert shapes and bound arrows into a Mermaid flowchart.
+// Standalone text, images and free-floating lines have no equivalent and
+// are skipped; frames become subgraphs.
+export function sceneToMermaid(elements: readonly any[]): string {
+	const live = elements.filter((e: any) => !e.isDeleted);
+	const textOf = new Map<string, string>();
+	for (const e of live) {
+		if (e.type === "text" && e.containerId) {
+			textOf.set(e.containerId, String(e.originalText ?? e.text ?? ""));
+		}
+	}
+	const nodes = live.filter((e: any) => MERMAID_SHAPES[e.type]);
+	const nodeIds = new Set(nodes.map((e: any) => e.id));
+	// Mermaid ids must be plain words; keep them unique after slugging
+	const mid = new Map<string, string>();
+	for (const e of nodes) {
+		let id = slugId(e.id);
+		for (let n = 2; [...mid.values()].includes(id); n++) {
+			id = `${slugId(e.id)}_${n}`;
+		}
+		mid.set(e.id, id);
+	}
+	const edges = live.filter(
+		(e: any) =>
+			(e.type === "arrow" || e.type === "line") &&
+			nodeIds.has(e.startBinding?.elementId) &&
+			nodeIds.has(e.endBinding?.elementId),
+	);
+
+	// Guess the flow direction from the dominant arrow orientation
+	let dx = 0;
+	let dy = 0;
+	for (const e of edges) {
+		dx += Math.abs(e.width ?? 0);
+		dy += Math.abs(e.height ?? 0);
+	}
+	const lines = [dx > dy ? "flowchart LR" : "flowchart TD"];
+
+	const nodeLine = (e: any) => {
+		const [open, close] = MERMAID_SHAPES[e.type];
+		const label = textOf.get(e.id) ?? e.id;
+		return `${mid.get(e.id)}${open}${mermaidText(label)}${close}`;
+	};
+	const frames = live.filter(
+		(e: any) => e.type === "frame" || e.type === "magicframe",
+	);
+	const framed = new Set<string>();
+	for (const f of frames) {
+		const members = nodes.filter((e: any) => e.frameId === f.id);
+		if (members.length === 0) continue;
+		lines.push(`  subgraph ${slugId(f.id)} ["${mermaidText(f.name ?? f.id)}"]`);
+		for (const e of members) {
+			lines.push(`    ${nodeLine(e)}`);
+			framed.add(e.id);
+		}
+		lines.push("  end");
+	}
+	for (const e of nodes) if (!framed.has(e.id)) lines.push(`  ${nodeLine(e)}`);
+
+	for (const e of edges) {
+		const dashed = e.strokeStyle !== "solid";
+		const head = e.endArrowhead ? ">" : "";
+		const both = e.startArrowhead && head ? "<" : "";
+		const body = dashed
+			? `${both}-.-${head}`
+			: e.strokeWidth >= 3
+				? `${both}==${head || "="}`
+				: `${both}--${head || "-"}`;
+		const label = textOf.get(e.id);
+		const text = label ? `|"${mermaidText(label)}"|` : "";
+		lines.push(
+			`  ${mid.get(e.startBinding.elementId)} ${body}${text} ${mid.get(e.endBinding.elementId)}`,
+		);
+	}
+	return lines.join("\n");
+}
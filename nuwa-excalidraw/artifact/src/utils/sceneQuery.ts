@@ -0,0 +1,197 @@
+// Read-side views of live scene elements for get_elements: a compact
+// summary, a detailed record with bindings/groups/frames, or a graph of
+// nodes and edges; with field projection, viewport filtering and paging.
+
+export type QueryMode = "summary" | "detailed" | "graph";
+
+export type Rect = { x: number; y: number; width: number; height: number };
+
+export type SceneQuery = {
+	mode: QueryMode;
+	fields?: string[];
+	ids?: string[];
+	types?: string[];
+	// Keep only elements intersecting this scene-space rectangle
+	within?: Rect;
+	offset: number;
+	limit: number;
+};
+
+const SUMMARY_FIELDS = [
+	"id",
+	"type",
+	"x",
+	"y",
+	"width",
+	"height",
+	"angle",
+	"text",
+	"strokeColor",
+	"backgroundColor",
+];
+
+const DETAILED_FIELDS = [
+	...SUMMARY_FIELDS,
+	"label",
+	"originalText",
+	"fontSize",
+	"fontFamily",
+	"textAlign",
+	"verticalAlign",
+	"lineHeight",
+	"fillStyle",
+	"strokeStyle",
+	"strokeWidth",
+	"roughness",
+	"opacity",
+	"roundness",
+	"groupIds",
+	"frameId",
+	"containerId",
+	"boundElements",
+	"startBinding",
+	"endBinding",
+	"startArrowhead",
+	"endArrowhead",
+	"points",
+	"elbowed",
+	"fileId",
+	"name",
+	"link",
+	"locked",
+	"isDeleted",
+];
+
+// Scene-space rectangle currently visible in the editor
+export function viewportRect(appState: any): Rect {
+	const zoom = Number(appState?.zoom?.value ?? 1) || 1;
+	return {
+		x: -Number(appState?.scrollX ?? 0),
+		y: -Number(appState?.scrollY ?? 0),
+		width: Number(appState?.width ?? 0) / zoom,
+		height: Number(appState?.height ?? 0) / zoom,
+	};
+}
+
+function intersects(e: any, r: Rect): boolean {
+	const x1 = Math.min(e.x, e.x + e.width);
+	const y1 = Math.min(e.y, e.y + e.height);
+	const x2 = Math.max(e.x, e.x + e.width);
+	const y2 = Math.max(e.y, e.y + e.height);
+	return !(x2 < r.x || x1 > r.x + r.width || y2 < r.y || y1 > r.y + r.height);
+}
+
+function project(record: Record<string, any>, fields: string[]) {
+	const out: Record<string, any> = {};
+	for (const f of fields) {
+		if (record[f] !== undefined) out[f] = record[f];
+	}
+	return out;
+}
+
+function page<T>(items: T[], offset: number, limit: number) {
+	const slice = items.slice(offset, offset + limit);
+	const next = offset + slice.length;
+	return {
+		slice,
+		total: items.length,
+		offset,
+		count: slice.length,
+		nextOffset: next < items.length ? next : null,
+	};
+}
+
+export function queryElements(elements: readonly any[], q: SceneQuery) {
+	const byId = new Map<string, any>(elements.map((e: any) => [e.id, e]));
+	// Text bound to a container reads as that container's label
+	const labelOf = new Map<string, string>();
+	for (const e of elements) {
+		if (e.type === "text" && e.containerId && !e.isDeleted) {
+			labelOf.set(e.containerId, String(e.originalText ?? e.text ?? ""));
+		}
+	}
+	const ids = q.ids ? new Set(q.ids) : null;
+	const types = q.types ? new Set(q.types) : null;
+	const matches = (e: any) =>
+		(!ids || ids.has(e.id)) &&
+		(!types || types.has(e.type)) &&
+		(!q.within || intersects(e, q.within));
+
+	if (q.mode === "graph") {
+		const isEdge = (e: any) => e.type === "arrow" || e.type === "line";
+		const nodes = elements.filter(
+			(e: any) =>
+				!isEdge(e) &&
+				!(e.type === "text" && e.containerId && byId.has(e.containerId)) &&
+				matches(e),
+		);
+		const p = page(nodes, q.offset, q.limit);
+		const onPage = new Set(p.slice.map((e: any) => e.id));
+		const firstPage = q.offset === 0;
+		// Each edge is listed once: on the page of its source node, else of
+		// its target, else (unbound at both ends) on the first page
+		const nodeIds = new Set(nodes.map((e: any) => e.id));
+		const edges = elements.filter((e: any) => {
+			if (!isEdge(e)) return false;
+			const from = e.startBinding?.elementId;
+			const to = e.endBinding?.elementId;
+			if (ids && !ids.has(e.id) && !ids.has(from) && !ids.has(to)) {
+				return false;
+			}
+			if (nodeIds.has(from)) return onPage.has(from);
+			if (nodeIds.has(to)) return onPage.has(to);
+			return firstPage && (!q.within || intersects(e, q.within));
+		});
+		const nodeView = (e: any) => ({
+			id: e.id,
+			type: e.type,
+			label: labelOf.get(e.id) ?? (e.type === "text" ? e.text : undefined),
+			x: e.x,
+			y: e.y,
+			width: e.width,
+			height: e.height,
+			frameId: e.frameId ?? undefined,
+			groupIds: e.groupIds?.length ? e.groupIds : undefined,
+			name: e.name ?? undefined,
+		});
+		const edgeView = (e: any) => ({
+			id: e.id,
+			type: e.type,
+			from: e.startBinding?.elementId ?? null,
+			to: e.endBinding?.elementId ?? null,
+			label: labelOf.get(e.id),
+			startArrowhead: e.startArrowhead ?? null,
+			endArrowhead: e.endArrowhead ?? null,
+			strokeStyle: e.strokeStyle,
+		});
+		const fields = q.fields ? ["id", ...q.fields] : null;
+		return {
+			total: p.total,
+			offset: p.offset,
+			count: p.count,
+			nextOffset: p.nextOffset,
+			nodes: p.slice.map((e: any) =>
+				fields ? project(nodeView(e), fields) : nodeView(e),
+			),
+			edges: edges.map((e: any) =>
+				fields ? project(edgeView(e), fields) : edgeView(e),
+			),
+		};
+	}
+
+	const fields = q.fields
+		? ["id", ...q.fields]
+		: q.mode === "detailed"
+			? DETAILED_FIELDS
+			: SUMMARY_FIELDS;
+	const p = page(elements.filter(matches), q.offset, q.limit);
+	return {
+		total: p.total,
+		offset: p.offset,
+		count: p.count,
+		nextOffset: p.nextOffset,
+		elements: p.slice.map((e: any) =>
+			project({ ...e, label: labelOf.get(e.id) }, fields),
+		),
+	};
+}
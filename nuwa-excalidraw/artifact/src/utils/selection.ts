@@ -0,0 +1,69 @@
+// Describe the user's canvas selection in terms the agent can act on:
+// element ids as used by the MCP tools, with labels instead of bound text.
+
+export type SelectedElement = {
+	id: string;
+	type: string;
+	label?: string;
+	x: number;
+	y: number;
+	width: number;
+	height: number;
+};
+
+export function describeSelection(
+	elements: readonly any[],
+	selectedIds: Record<string, boolean>,
+): SelectedElement[] {
+	const byId = new Map<string, any>(elements.map((e: any) => [e.id, e]));
+	const labelOf = new Map<string, string>();
+	for (const e of elements) {
+		if (e.type === "text" && e.containerId) {
+			labelOf.set(e.containerId, String(e.originalText ?? e.text ?? ""));
+		}
+	}
+	const out: SelectedElement[] = [];
+	const seen = new Set<string>();
+	for (const e of elements) {
+		if (!selectedIds[e.id] || e.isDeleted) continue;
+		// Selecting a label means its container
+		const target =
+			e.type === "text" && e.containerId && byId.has(e.containerId)
+				? byId.get(e.containerId)
+				: e;
+		if (seen.has(target.id)) continue;
+		seen.add(target.id);
+		out.push({
+			id: target.id,
+			type: target.type,
+			label:
+				labelOf.get(target.id) ??
+				(target.type === "text" ? String(target.text ?? "") : undefined),
+			x: target.x,
+			y: target.y,
+			width: target.width,
+			height: target.height,
+		});
+	}
+	return out;
+}
+
+// Short chip label and prompt text for nuwa.addSelection
+export function selectionForChat(selected: SelectedElement[]): {
+	label: string;
+	message: string;
+} {
+	const names = selected.map((e) => e.label || e.id);
+	const label =
+		selected.length === 1
+			? `Canvas: ${names[0]}`
+			: `Canvas: ${selected.length} elements`;
+	const lines = selected.map(
+		(e) =>
+			`- ${e.type} \`${e.id}\`${e.label ? ` "${e.label.replace(/\n/g, " ")}"` : ""}`,
+	);
+	return {
+		label: label.length > 48 ? `${label.slice(0, 45)}...` : label,
+		message: `Selected canvas elements (ids usable with the canvas tools):\n${lines.join("\n")}`,
+	};
+}
@@ -0,0 +1,375 @@
+// Diagram types and semantic roles, plus structural validation of the
+// skeleton graph. A node's role comes from customData.role, else from its id
+// prefix (`start_`, `decision_`, `entity_`...), else from its shape under the
+// active diagram type.
+import type { ElementRole } from "./styles";
+
+export const DIAGRAM_TYPES = ["flowchart", "bpmn", "uml_class", "er"] as const;
+export type DiagramType = (typeof DIAGRAM_TYPES)[number];
+
+export const SEMANTIC_ROLES = [
+	"process",
+	"decision",
+	"datastore",
+	"actor",
+	"start",
+	"end",
+	"io",
+	"task",
+	"gateway",
+	"event",
+	"class",
+	"interface",
+	"entity",
+	"relationship",
+] as const;
+export type SemanticRole = (typeof SEMANTIC_ROLES)[number];
+
+// Roles each diagram type works with, for the agent
+export const DIAGRAM_ROLES: Record<DiagramType, SemanticRole[]> = {
+	flowchart: ["start", "end", "process", "decision", "io", "datastore"],
+	bpmn: ["start", "end", "event", "task", "gateway", "actor", "datastore"],
+	uml_class: ["class", "interface"],
+	er: ["entity", "relationship"],
+};
+
+// Style preset role used to color each semantic role; terminals share the
+// accent color
+const STYLE_ROLE: Record<SemanticRole, ElementRole> = {
+	process: "process",
+	decision: "decision",
+	datastore: "datastore",
+	actor: "actor",
+	start: "actor",
+	end: "actor",
+	io: "process",
+	task: "process",
+	gateway: "decision",
+	event: "actor",
+	class: "process",
+	interface: "process",
+	entity: "datastore",
+	relationship: "decision",
+};
+
+export function styleRoleOf(role: SemanticRole): ElementRole {
+	return STYLE_ROLE[role];
+}
+
+// UML relations and ER cardinalities map onto Excalidraw arrowheads
+export const RELATION_KINDS = [
+	"association",
+	"inheritance",
+	"realization",
+	"composition",
+	"aggregation",
+	"dependency",
+] as const;
+export type RelationKind = (typeof RELATION_KINDS)[number];
+
+export const CARDINALITIES = ["one", "many", "one_or_many"] as const;
+export type Cardinality = (typeof CARDINALITIES)[number];
+
+const RELATION_STYLE: Record<RelationKind, Record<string, any>> = {
+	association: { startArrowhead: null, endArrowhead: null },
+	inheritance: { startArrowhead: null, endArrowhead: "triangle_outline" },
+	realization: {
+		startArrowhead: null,
+		endArrowhead: "triangle_outline",
+		strokeStyle: "dashed",
+	},
+	composition: { startArrowhead: "diamond", endArrowhead: null },
+	aggregation: { startArrowhead: "diamond_outline", endArrowhead: null },
+	dependency: {
+		startArrowhead: null,
+		endArrowhead: "arrow",
+		strokeStyle: "dashed",
+	},
+};
+
+// Arrow props for a typed connection; explicit style should be merged on top
+export function relationStyle(
+	relation?: RelationKind,
+	cardinality?: { from: Cardinality; to: Cardinality },
+): Record<string, any> {
+	const out: Record<string, any> = relation
+		? { ...RELATION_STYLE[relation] }
+		: {};
+	if (cardinality) {
+		out.startArrowhead = `crowfoot_${cardinality.from}`;
+		out.endArrowhead = `crowfoot_${cardinality.to}`;
+	}
+	return out;
+}
+
+const NODE_TYPES = new Set(["rectangle", "ellipse", "diamond"]);
+const ROLE_SET = new Set<string>(SEMANTIC_ROLES);
+
+// Shape fallback per diagram type
+function roleFromShape(type: string, diagramType?: DiagramType | null) {
+	switch (diagramType) {
+		case "bpmn":
+			return type === "diamond"
+				? "gateway"
+				: type === "ellipse"
+					? "event"
+					: "task";
+		case "uml_class":
+			return "class";
+		case "er":
+			return type === "diamond" ? "relationship" : "entity";
+		default:
+			return type === "diamond" ? "decision" : "process";
+	}
+}
+
+export function semanticRoleOf(
+	e: any,
+	diagramType?: DiagramType | null,
+): SemanticRole | null {
+	if (!NODE_TYPES.has(e?.type)) return null;
+	const explicit = e.customData?.role;
+	if (ROLE_SET.has(explicit)) return explicit;
+	const prefix = String(e.id ?? "")
+		.toLowerCase()
+		.split(/[_\-.:]/)[0];
+	if (ROLE_SET.has(prefix)) return prefix as SemanticRole;
+	return roleFromShape(e.type, diagramType);
+}
+
+export type DiagramIssue = {
+	code: string;
+	severity: "error" | "warning";
+	ids: string[];
+	message: string;
+};
+
+type Edge = { id: string; from: string; to: string; directed: boolean; e: any };
+
+const nameOf = (e: any) =>
+	e.label?.text
+		? `${e.id} ("${String(e.label.text).replace(/\n/g, " ")}")`
+		: e.id;
+
+// Structural checks over skeletons. Without a diagram type only connector
+// checks run, and as warnings.
+export function validateDiagram(
+	skeletons: readonly any[],
+	diagramType: DiagramType | null,
+	scope?: Set<string>,
+): { nodes: number; edges: number; issues: DiagramIssue[] } {
+	const issues: DiagramIssue[] = [];
+	const byId = new Map<string, any>(skeletons.map((e: any) => [e.id, e]));
+	const inScope = (id: string) => !scope || scope.has(id);
+	const nodes = skeletons.filter(
+		(e: any) => NODE_TYPES.has(e.type) && inScope(e.id),
+	);
+	const nodeIds = new Set(nodes.map((e: any) => e.id));
+	const role = new Map<string, SemanticRole | null>(
+		nodes.map((e: any) => [e.id, semanticRoleOf(e, diagramType)]),
+	);
+
+	const edges: Edge[] = [];
+	for (const e of skeletons) {
+		if (e.type !== "arrow" && e.type !== "line") continue;
+		const from = e.start?.id;
+		const to = e.end?.id;
+		if (scope && !scope.has(e.id) && !scope.has(from) && !scope.has(to)) {
+			continue;
+		}
+		// Plain lines are decoration unless bound at both ends
+		if (e.type === "line" && !from && !to) continue;
+		const missing = [
+			!from || !byId.has(from) ? "start" : null,
+			!to || !byId.has(to) ? "end" : null,
+		].filter(Boolean) as string[];
+		if (missing.length > 0) {
+			issues.push({
+				code: "dangling_arrow",
+				severity: diagramType ? "error" : "warning",
+				ids: [e.id],
+				message: `${nameOf(e)} is not connected at its ${missing.join(" and ")}; use connect_elements`,
+			});
+			continue;
+		}
+		// Arrows leaving endArrowhead unset get Excalidraw's default arrow
+		// there; only an explicit null means no head
+		const endHead =
+			e.type === "arrow" && e.endArrowhead === undefined
+				? "arrow"
+				: e.endArrowhead;
+		// An arrow drawn with only a start arrowhead points backwards
+		const reversed = !endHead && !!e.startArrowhead;
+		edges.push({
+			id: e.id,
+			from: reversed ? to : from,
+			to: reversed ? from : to,
+			directed: e.type === "arrow" && !!(endHead || e.startArrowhead),
+			e,
+		});
+	}
+
+	if (diagramType === "flowchart" || diagramType === "bpmn") {
+		checkFlow(nodes, nodeIds, role, edges, diagramType, issues);
+	} else if (diagramType === "er") {
+		checkEr(byId, role, edges, issues);
+	} else if (diagramType === "uml_class") {
+		checkUml(nodes, byId, role, edges, issues);
+	}
+	return { nodes: nodes.length, edges: edges.length, issues };
+}
+
+function checkFlow(
+	nodes: any[],
+	nodeIds: Set<string>,
+	role: Map<string, SemanticRole | null>,
+	edges: Edge[],
+	diagramType: DiagramType,
+	issues: DiagramIssue[],
+) {
+	const out = new Map<string, string[]>();
+	const incoming = new Map<string, number>();
+	for (const { from, to, directed } of edges) {
+		if (!nodeIds.has(from) || !nodeIds.has(to)) continue;
+		out.set(from, [...(out.get(from) ?? []), to]);
+		incoming.set(to, (incoming.get(to) ?? 0) + 1);
+		if (!directed) {
+			out.set(to, [...(out.get(to) ?? []), from]);
+			incoming.set(from, (incoming.get(from) ?? 0) + 1);
+		}
+	}
+	const branch = diagramType === "bpmn" ? "gateway" : "decision";
+	for (const n of nodes) {
+		const r = role.get(n.id);
+		const outgoing = out.get(n.id)?.length ?? 0;
+		if ((r === "decision" || r === "gateway") && outgoing < 2) {
+			issues.push({
+				code: "decision_branches",
+				severity: "error",
+				ids: [n.id],
+				message: `${r} ${nameOf(n)} has ${outgoing} outgoing edge(s); a ${branch} needs at least 2`,
+			});
+		}
+		if (r === "start" && (incoming.get(n.id) ?? 0) > 0) {
+			issues.push({
+				code: "start_has_incoming",
+				severity: "warning",
+				ids: [n.id],
+				message: `start ${nameOf(n)} has incoming edges`,
+			});
+		}
+		if (r === "end" && outgoing > 0) {
+			issues.push({
+				code: "end_has_outgoing",
+				severity: "warning",
+				ids: [n.id],
+				message: `end ${nameOf(n)} has outgoing edges`,
+			});
+		}
+	}
+	if (nodes.length === 0) return;
+
+	let roots = nodes.filter((n: any) => role.get(n.id) === "start");
+	if (roots.length === 0) {
+		issues.push({
+			code: "missing_start",
+			severity: "warning",
+			ids: [],
+			message:
+				"No start node; give one node role 'start' (or an id starting with start_)",
+		});
+		roots = nodes.filter((n: any) => !incoming.get(n.id));
+	}
+	if (!nodes.some((n: any) => role.get(n.id) === "end")) {
+		issues.push({
+			code: "missing_end",
+			severity: "warning",
+			ids: [],
+			message:
+				"No end node; give one node role 'end' (or an id starting with end_)",
+		});
+	}
+	const seen = new Set<string>(roots.map((n: any) => n.id));
+	const queue = [...seen];
+	while (queue.length > 0) {
+		const id = queue.shift()!;
+		for (const next of out.get(id) ?? []) {
+			if (seen.has(next)) continue;
+			seen.add(next);
+			queue.push(next);
+		}
+	}
+	// With no roots at all (a pure cycle) every node would be flagged; skip
+	const unreachable =
+		roots.length > 0 ? nodes.filter((n: any) => !seen.has(n.id)) : [];
+	if (unreachable.length > 0) {
+		issues.push({
+			code: "unreachable",
+			severity: "warning",
+			ids: unreachable.map((n: any) => n.id),
+			message: `Not reachable from a start node: ${unreachable.map(nameOf).join(", ")}`,
+		});
+	}
+}
+
+function checkEr(
+	byId: Map<string, any>,
+	role: Map<string, SemanticRole | null>,
+	edges: Edge[],
+	issues: DiagramIssue[],
+) {
+	for (const { id, e } of edges) {
+		// Cardinality belongs on every end that touches an entity
+		const missing: string[] = [];
+		const check = (end: "start" | "end") => {
+			const target = e[end]?.id;
+			if (role.get(target) !== "entity") return;
+			const head = e[`${end}Arrowhead`];
+			if (typeof head !== "string" || !head.startsWith("crowfoot_")) {
+				missing.push(`${end} (${nameOf(byId.get(target))})`);
+			}
+		};
+		check("start");
+		check("end");
+		if (missing.length > 0) {
+			issues.push({
+				code: "missing_cardinality",
+				severity: "error",
+				ids: [id],
+				message: `${nameOf(e)} has no crowfoot_* arrowhead at ${missing.join(" and ")}; set cardinality on connect_elements`,
+			});
+		}
+	}
+}
+
+function checkUml(
+	nodes: any[],
+	byId: Map<string, any>,
+	role: Map<string, SemanticRole | null>,
+	edges: Edge[],
+	issues: DiagramIssue[],
+) {
+	for (const n of nodes) {
+		if (!n.label?.text?.trim()) {
+			issues.push({
+				code: "unnamed_class",
+				severity: "warning",
+				ids: [n.id],
+				message: `${role.get(n.id) ?? "class"} ${n.id} has no name label`,
+			});
+		}
+	}
+	for (const { id, e } of edges) {
+		if (e.customData?.relation) continue;
+		const heads = [e.startArrowhead, e.endArrowhead].filter(Boolean);
+		if (heads.some((h: string) => /^(triangle|diamond)/.test(h))) continue;
+		const from = byId.get(e.start?.id);
+		const to = byId.get(e.end?.id);
+		issues.push({
+			code: "untyped_relation",
+			severity: "warning",
+			ids: [id],
+			message: `${nameOf(e)} between ${from ? nameOf(from) : "?"} and ${to ? nameOf(to) : "?"} has no relation kind; set relation on connect_elements`,
+		});
+	}
+}
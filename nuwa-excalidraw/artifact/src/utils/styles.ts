@@ -0,0 +1,217 @@
+// Named style presets applied per element role, so diagrams stay consistent
+// without every add_elements call repeating colors. The active theme fills
+// in style props new skeletons leave unset; apply_style restyles existing ones.
+import { type DiagramType, semanticRoleOf, styleRoleOf } from "./semantics";
+
+export const STYLE_PRESETS = ["clean", "sketch", "dark", "brand"] as const;
+export type StylePreset = (typeof STYLE_PRESETS)[number];
+
+export const ELEMENT_ROLES = [
+	"process",
+	"decision",
+	"datastore",
+	"actor",
+] as const;
+export type ElementRole = (typeof ELEMENT_ROLES)[number];
+
+export type StyleProps = {
+	strokeColor?: string;
+	backgroundColor?: string;
+	fillStyle?: "solid" | "hachure" | "zigzag" | "cross-hatch";
+	strokeStyle?: "solid" | "dashed" | "dotted";
+	strokeWidth?: number;
+	roughness?: number;
+	opacity?: number;
+	roundness?: { type: number } | null;
+};
+
+type PresetDef = {
+	// Canvas theme the preset is designed for
+	canvas: "light" | "dark";
+	shape: StyleProps;
+	roles: Record<ElementRole, StyleProps>;
+	connector: StyleProps;
+	text: StyleProps;
+};
+
+// Pastel fills with matching strokes; reused by "dark", since Excalidraw's
+// dark mode inverts the canvas and turns them into muted dark fills
+const CLEAN_ROLES: Record<ElementRole, StyleProps> = {
+	process: { backgroundColor: "#e7f0ff", strokeColor: "#1e40af" },
+	decision: { backgroundColor: "#fef3c7", strokeColor: "#b45309" },
+	datastore: { backgroundColor: "#dcfce7", strokeColor: "#15803d" },
+	actor: { backgroundColor: "#f3e8ff", strokeColor: "#7e22ce" },
+};
+
+const PRESETS: Record<StylePreset, PresetDef> = {
+	clean: {
+		canvas: "light",
+		shape: {
+			fillStyle: "solid",
+			strokeStyle: "solid",
+			strokeWidth: 2,
+			roughness: 0,
+			roundness: { type: 3 },
+		},
+		roles: CLEAN_ROLES,
+		connector: { strokeColor: "#334155", strokeWidth: 2, roughness: 0 },
+		text: { strokeColor: "#1e293b" },
+	},
+	sketch: {
+		canvas: "light",
+		shape: {
+			fillStyle: "hachure",
+			strokeStyle: "solid",
+			strokeWidth: 1,
+			roughness: 1,
+			roundness: null,
+		},
+		roles: {
+			process: { backgroundColor: "#a5d8ff", strokeColor: "#1e1e1e" },
+			decision: { backgroundColor: "#ffec99", strokeColor: "#1e1e1e" },
+			datastore: { backgroundColor: "#b2f2bb", strokeColor: "#1e1e1e" },
+			actor: { backgroundColor: "#eebefa", strokeColor: "#1e1e1e" },
+		},
+		connector: { strokeColor: "#1e1e1e", strokeWidth: 1, roughness: 1 },
+		text: { strokeColor: "#1e1e1e" },
+	},
+	dark: {
+		canvas: "dark",
+		shape: {
+			fillStyle: "solid",
+			strokeStyle: "solid",
+			strokeWidth: 2,
+			roughness: 0,
+			roundness: { type: 3 },
+		},
+		roles: CLEAN_ROLES,
+		connector: { strokeColor: "#1e293b", strokeWidth: 2, roughness: 0 },
+		text: { strokeColor: "#0f172a" },
+	},
+	brand: {
+		canvas: "light",
+		shape: {
+			fillStyle: "solid",
+			strokeStyle: "solid",
+			strokeWidth: 2,
+			roughness: 0,
+			roundness: { type: 3 },
+		},
+		roles: {
+			process: { backgroundColor: "#ede9fe", strokeColor: "#6d28d9" },
+			decision: { backgroundColor: "#fce7f3", strokeColor: "#be185d" },
+			datastore: { backgroundColor: "#e0f2fe", strokeColor: "#0369a1" },
+			actor: { backgroundColor: "#ddd6fe", strokeColor: "#4c1d95" },
+		},
+		connector: { strokeColor: "#4c1d95", strokeWidth: 2, roughness: 0 },
+		text: { strokeColor: "#1f2937" },
+	},
+};
+
+// Active theme: a preset plus per-role overrides (e.g. brand colors)
+export type Theme = {
+	preset: StylePreset;
+	overrides?: Partial<Record<ElementRole | "connector" | "text", StyleProps>>;
+};
+
+const CONNECTOR_TYPES = new Set(["arrow", "line"]);
+const STYLE_KEYS = [
+	"strokeColor",
+	"backgroundColor",
+	"fillStyle",
+	"strokeStyle",
+	"strokeWidth",
+	"roughness",
+	"opacity",
+	"roundness",
+] as const;
+
+export function canvasThemeOf(preset: StylePreset): "light" | "dark" {
+	return PRESETS[preset].canvas;
+}
+
+// Style role of a shape, from its semantic role
+export function roleOf(
+	e: any,
+	diagramType?: DiagramType | null,
+): ElementRole | null {
+	const role = semanticRoleOf(e, diagramType);
+	return role ? styleRoleOf(role) : null;
+}
+
+// Style the theme gives an element, or null for types it does not style
+// (images, frames)
+export function themeStyleFor(
+	e: any,
+	theme: Theme,
+	diagramType?: DiagramType | null,
+): StyleProps | null {
+	const def = PRESETS[theme.preset];
+	const o = theme.overrides ?? {};
+	if (CONNECTOR_TYPES.has(e.type)) return { ...def.connector, ...o.connector };
+	if (e.type === "text") return { ...def.text, ...o.text };
+	const role = roleOf(e, diagramType);
+	if (!role) return null;
+	return { ...def.shape, ...def.roles[role], ...o[role] };
+}
+
+// Move a `role` given on input into customData.role, where it survives
+// the round trip through the canvas
+export function withRole(e: any): any {
+	if (e?.role === undefined) return e;
+	const { role, ...rest } = e;
+	return { ...rest, customData: { ...rest.customData, role } };
+}
+
+// Fill style props the element leaves unset
+export function applyThemeDefaults(
+	e: any,
+	theme: Theme,
+	diagramType?: DiagramType | null,
+): any {
+	const style = themeStyleFor(e, theme, diagramType);
+	if (!style) return e;
+	const next: any = { ...e };
+	for (const k of STYLE_KEYS) {
+		if (next[k] === undefined && style[k] !== undefined) next[k] = style[k];
+	}
+	if (next.label && next.label.strokeColor === undefined) {
+		const text = themeStyleFor({ type: "text" }, theme);
+		if (text?.strokeColor) {
+			next.label = { ...next.label, strokeColor: text.strokeColor };
+		}
+	}
+	return next;
+}
+
+// Overwrite style props with the theme's, keeping geometry and content
+export function restyle(
+	e: any,
+	theme: Theme,
+	extra?: StyleProps,
+	diagramType?: DiagramType | null,
+): any {
+	const style = themeStyleFor(e, theme, diagramType);
+	if (!style && !extra) return e;
+	const next: any = { ...e, ...style, ...extra };
+	if (next.label) {
+		const text = themeStyleFor({ type: "text" }, theme);
+		next.label = { ...next.label, strokeColor: text?.strokeColor };
+	}
+	return next;
+}
+
+// Presets as documentation for the agent
+export function describePresets() {
+	return STYLE_PRESETS.map((name) => ({
+		name,
+		canvas: PRESETS[name].canvas,
+		roles: Object.fromEntries(
+			ELEMENT_ROLES.map((r) => [
+				r,
+				{ ...PRESETS[name].shape, ...PRESETS[name].roles[r] },
+			]),
+		),
+		connector: PRESETS[name].connector,
+	}));
+}
@@ -0,0 +1,471 @@
+// Built-in diagram templates. Each expands into skeletons laid out from
+// (0, 0) with ids that start with the given prefix, so inserting the same
+// template with the same prefix again updates the same elements.
+import { slugId } from "./diagramImport";
+import { connectorBetween } from "./geometry";
+
+export const TEMPLATE_NAMES = [
+	"swimlane",
+	"sequence",
+	"er_table",
+	"kanban",
+	"mindmap",
+	"c4_container",
+	"timeline",
+] as const;
+export type TemplateName = (typeof TEMPLATE_NAMES)[number];
+
+type Params = Record<string, any>;
+
+export const TEMPLATE_DOCS: Record<TemplateName, string> = {
+	swimlane:
+		"Horizontal lanes with headers. params: { title?, lanes?: string[], width?: 960, laneHeight?: 168 }",
+	sequence:
+		"Participant heads with dashed lifelines (ids <prefix><name>, <prefix><name>_lifeline). params: { participants?: string[], length?: 480 }",
+	er_table:
+		"Entity table: name header plus column list. params: { name?, columns?: string[] }",
+	kanban:
+		"Board columns with cards. params: { columns?: string[], cards?: { [column]: string[] } }",
+	mindmap:
+		"Central topic with bound branches around it. params: { topic?, branches?: string[] }",
+	c4_container:
+		"C4 system boundary with container boxes. params: { name?, containers?: [{ name, technology?, description? }] }",
+	timeline:
+		"Axis arrow with dated events alternating above/below. params: { events?: [{ date, label }] | string[], spacing?: 192 }",
+};
+
+function strings(value: unknown, fallback: string[]): string[] {
+	if (!Array.isArray(value)) return fallback;
+	const out = value.map((v) => String(v)).filter((v) => v.trim() !== "");
+	return out.length > 0 ? out : fallback;
+}
+
+function num(value: unknown, fallback: number): number {
+	const n = Number(value);
+	return Number.isFinite(n) && n > 0 ? n : fallback;
+}
+
+// Unique slug per name within one template expansion
+function slugger() {
+	const used = new Set<string>();
+	return (name: string) => {
+		const base = slugId(name).toLowerCase();
+		let id = base;
+		for (let n = 2; used.has(id); n++) id = `${base}_${n}`;
+		used.add(id);
+		return id;
+	};
+}
+
+function swimlane(params: Params, p: string): any[] {
+	const lanes = strings(params.lanes, ["Lane 1", "Lane 2", "Lane 3"]);
+	const width = num(params.width, 960);
+	const laneH = num(params.laneHeight, 168);
+	const headerW = 144;
+	const top = params.title ? 48 : 0;
+	const slug = slugger();
+	const out: any[] = [];
+	if (params.title) {
+		out.push({
+			type: "text",
+			id: `${p}title`,
+			x: 0,
+			y: 0,
+			text: String(params.title),
+			fontSize: 24,
+		});
+	}
+	lanes.forEach((name, i) => {
+		const id = `${p}lane_${slug(name)}`;
+		const y = top + i * laneH;
+		out.push(
+			{
+				type: "rectangle",
+				id: `${id}_header`,
+				x: 0,
+				y,
+				width: headerW,
+				height: laneH,
+				backgroundColor: "#e9ecef",
+				fillStyle: "solid",
+				label: { text: name },
+			},
+			{
+				type: "rectangle",
+				id,
+				x: headerW,
+				y,
+				width: width - headerW,
+				height: laneH,
+			},
+		);
+	});
+	return out;
+}
+
+function sequence(params: Params, p: string): any[] {
+	const names = strings(params.participants, ["Client", "Server", "Database"]);
+	const length = num(params.length, 480);
+	const colW = 240;
+	const slug = slugger();
+	return names.flatMap((name, i) => {
+		const id = `${p}${slug(name)}`;
+		const x = i * colW;
+		return [
+			{
+				type: "rectangle",
+				id,
+				x,
+				y: 0,
+				width: 168,
+				height: 60,
+				label: { text: name },
+			},
+			{
+				type: "line",
+				id: `${id}_lifeline`,
+				x: x + 84,
+				y: 60,
+				width: 0,
+				height: length,
+				strokeStyle: "dashed",
+			},
+		];
+	});
+}
+
+function erTable(params: Params, p: string): any[] {
+	const name = String(params.name ?? "Entity");
+	const columns = strings(params.columns, ["id PK", "name", "created_at"]);
+	const id = `${p}${slugId(name).toLowerCase()}`;
+	const width = Math.max(
+		192,
+		...[name, ...columns].map((s) => Math.ceil(s.length * 10.8) + 48),
+	);
+	const rowH = 28;
+	return [
+		{
+			type: "rectangle",
+			id,
+			x: 0,
+			y: 0,
+			width,
+			height: 48,
+			backgroundColor: "#a5d8ff",
+			fillStyle: "solid",
+			label: { text: name },
+		},
+		{
+			type: "rectangle",
+			id: `${id}_columns`,
+			x: 0,
+			y: 48,
+			width,
+			height: columns.length * rowH + 24,
+			label: {
+				text: columns.join("\n"),
+				fontSize: 16,
+				textAlign: "left",
+				verticalAlign: "top",
+			},
+		},
+	];
+}
+
+function kanban(params: Params, p: string): any[] {
+	const columns = strings(params.columns, ["To do", "In progress", "Done"]);
+	const cards: Record<string, unknown> =
+		params.cards && typeof params.cards === "object" ? params.cards : {};
+	const colW = 240;
+	const gap = 24;
+	const cardH = 72;
+	const slug = slugger();
+	const out: any[] = [];
+	const colCards = columns.map((name) => strings(cards[name], []));
+	const bodyH = Math.max(
+		336,
+		...colCards.map((c) => 72 + c.length * (cardH + gap)),
+	);
+	columns.forEach((name, i) => {
+		const id = `${p}col_${slug(name)}`;
+		const x = i * (colW + gap);
+		out.push({
+			type: "rectangle",
+			id,
+			x,
+			y: 0,
+			width: colW,
+			height: bodyH,
+			backgroundColor: "#f1f3f5",
+			fillStyle: "solid",
+			label: { text: name, verticalAlign: "top" },
+		});
+		colCards[i].forEach((text, k) => {
+			out.push({
+				type: "rectangle",
+				id: `${id}_card_${k + 1}`,
+				x: x + 12,
+				y: 60 + k * (cardH + gap),
+				width: colW - 24,
+				height: cardH,
+				backgroundColor: "#ffffff",
+				fillStyle: "solid",
+				label: { text, fontSize: 16 },
+			});
+		});
+	});
+	return out;
+}
+
+function mindmap(params: Params, p: string): any[] {
+	const topic = String(params.topic ?? "Topic");
+	const branches = strings(params.branches, [
+		"Idea 1",
+		"Idea 2",
+		"Idea 3",
+		"Idea 4",
+	]);
+	const root = {
+		type: "ellipse",
+		id: `${p}root`,
+		x: 312,
+		y: 228,
+		width: 216,
+		height: 96,
+		backgroundColor: "#ffec99",
+		fillStyle: "solid",
+		label: { text: topic, fontSize: 22 },
+	};
+	const cx = root.x + root.width / 2;
+	const cy = root.y + root.height / 2;
+	const slug = slugger();
+	const out: any[] = [root];
+	branches.forEach((name, i) => {
+		// Spread branches evenly, starting on the right
+		const angle = (2 * Math.PI * i) / branches.length;
+		const w = 168;
+		const h = 60;
+		const node = {
+			type: "rectangle",
+			id: `${p}${slug(name)}`,
+			x: Math.round(cx + Math.cos(angle) * 312 - w / 2),
+			y: Math.round(cy + Math.sin(angle) * 204 - h / 2),
+			width: w,
+			height: h,
+			roundness: { type: 3 },
+			label: { text: name },
+		};
+		out.push(node, {
+			type: "arrow",
+			id: `${root.id}_to_${node.id.slice(p.length)}`,
+			...connectorBetween(root, node),
+			start: { id: root.id },
+			end: { id: node.id },
+			// null (not undefined) so the choice survives JSON persistence
+			endArrowhead: null,
+		});
+	});
+	// Shift so the top-left of the result is (0, 0)
+	const shapes = out.filter((e) => e.type !== "arrow");
+	const minX = Math.min(...shapes.map((e) => e.x));
+	const minY = Math.min(...shapes.map((e) => e.y));
+	return out.map((e) => ({ ...e, x: e.x - minX, y: e.y - minY }));
+}
+
+function c4Container(params: Params, p: string): any[] {
+	const name = String(params.name ?? "Software System");
+	const list: any[] =
+		Array.isArray(params.containers) && params.containers.length > 0
+			? params.containers
+			: [
+					{ name: "Web App", technology: "React" },
+					{ name: "API", technology: "Node.js" },
+					{ name: "Database", technology: "PostgreSQL" },
+				];
+	const boxW = 240;
+	const boxH = 120;
+	const gap = 48;
+	const pad = 48;
+	const slug = slugger();
+	const out: any[] = [
+		{
+			type: "rectangle",
+			id: `${p}boundary`,
+			x: 0,
+			y: 0,
+			width: pad * 2 + list.length * boxW + (list.length - 1) * gap,
+			height: pad * 2 + boxH + 24,
+			strokeStyle: "dashed",
+			strokeColor: "#495057",
+			label: {
+				text: `${name}\n[Software System]`,
+				fontSize: 16,
+				textAlign: "left",
+				verticalAlign: "bottom",
+			},
+		},
+	];
+	list.forEach((c, i) => {
+		const item = typeof c === "object" && c ? c : { name: String(c) };
+		const title = String(item.name ?? `Container ${i + 1}`);
+		const lines = [
+			title,
+			`[Container${item.technology ? `: ${item.technology}` : ""}]`,
+		];
+		if (item.description) lines.push(String(item.description));
+		out.push({
+			type: "rectangle",
+			id: `${p}${slug(title)}`,
+			x: pad + i * (boxW + gap),
+			y: pad,
+			width: boxW,
+			height: boxH,
+			backgroundColor: "#438dd5",
+			fillStyle: "solid",
+			strokeColor: "#3c7fc0",
+			label: {
+				text: lines.join("\n"),
+				fontSize: 16,
+				strokeColor: "#ffffff",
+			},
+		});
+	});
+	return out;
+}
+
+function timeline(params: Params, p: string): any[] {
+	const raw: any[] =
+		Array.isArray(params.events) && params.events.length > 0
+			? params.events
+			: ["Q1", "Q2", "Q3", "Q4"];
+	const events = raw.map((e, i) =>
+		typeof e === "object" && e
+			? { date: String(e.date ?? ""), label: String(e.label ?? "") }
+			: { date: String(e), label: `Event ${i + 1}` },
+	);
+	const spacing = num(params.spacing, 192);
+	const axisY = 120;
+	const length = (events.length + 1) * spacing;
+	const slug = slugger();
+	const out: any[] = [
+		{
+			type: "arrow",
+			id: `${p}axis`,
+			x: 0,
+			y: axisY,
+			width: length,
+			height: 0,
+			strokeWidth: 2,
+		},
+	];
+	events.forEach((ev, i) => {
+		const id = `${p}event_${slug(ev.date || ev.label)}`;
+		const x = (i + 1) * spacing;
+		const above = i % 2 === 0;
+		out.push(
+			{
+				type: "ellipse",
+				id: `${id}_dot`,
+				x: x - 8,
+				y: axisY - 8,
+				width: 16,
+				height: 16,
+				backgroundColor: "#1971c2",
+				fillStyle: "solid",
+			},
+			{
+				type: "rectangle",
+				id,
+				x: x - 72,
+				y: above ? axisY - 96 : axisY + 36,
+				width: 144,
+				height: 60,
+				label: {
+					text: ev.label ? `${ev.date}\n${ev.label}` : ev.date,
+					fontSize: 16,
+				},
+			},
+		);
+	});
+	return out;
+}
+
+type Builder = (params: Params, prefix: string) => any[];
+const BUILDERS: Record<TemplateName, Builder> = {
+	swimlane,
+	sequence,
+	er_table: erTable,
+	kanban,
+	mindmap,
+	c4_container: c4Container,
+	timeline,
+};
+
+export function isTemplateName(name: string): name is TemplateName {
+	return (TEMPLATE_NAMES as readonly string[]).includes(name);
+}
+
+// Expand a built-in template at `origin`
+export function expandTemplate(
+	name: TemplateName,
+	params: Params,
+	prefix: string,
+	origin: { x: number; y: number },
+): any[] {
+	return BUILDERS[name](params, prefix).map((e) => ({
+		...e,
+		x: e.x + origin.x,
+		y: e.y + origin.y,
+	}));
+}
+
+// A selection saved by the user for reuse, stored in nuwa state
+export type SavedComponent = {
+	// Skeletons with positions relative to the component's top-left
+	elements: any[];
+	savedAt: string;
+};
+
+// Normalize skeletons into a component: positions start at (0, 0) and
+// bindings/frame children pointing outside the selection are dropped
+export function toComponent(
+	elements: any[],
+	bounds: { minX: number; minY: number },
+): SavedComponent {
+	const ids = new Set(elements.map((e: any) => e.id));
+	return {
+		elements: elements.map((e: any) => {
+			const next: any = { ...e, x: e.x - bounds.minX, y: e.y - bounds.minY };
+			if (next.start?.id && !ids.has(next.start.id)) delete next.start;
+			if (next.end?.id && !ids.has(next.end.id)) delete next.end;
+			if (Array.isArray(next.children)) {
+				next.children = next.children.filter((id: string) => ids.has(id));
+			}
+			return next;
+		}),
+		savedAt: new Date().toISOString(),
+	};
+}
+
+// Place a saved component at `origin`, prefixing every id (and every
+// reference to one) so several copies can coexist
+export function instantiateComponent(
+	component: SavedComponent,
+	prefix: string,
+	origin: { x: number; y: number },
+): any[] {
+	const idOf = (id: string) => `${prefix}${id}`;
+	return component.elements.map((e: any) => {
+		const next: any = {
+			...e,
+			id: idOf(e.id),
+			x: e.x + origin.x,
+			y: e.y + origin.y,
+		};
+		if (next.start?.id) next.start = { ...next.start, id: idOf(next.start.id) };
+		if (next.end?.id) next.end = { ...next.end, id: idOf(next.end.id) };
+		if (Array.isArray(next.children)) next.children = next.children.map(idOf);
+		if (Array.isArray(next.groupIds)) next.groupIds = next.groupIds.map(idOf);
+		return next;
+	});
+}
@@ -0,0 +1,230 @@
+// Text measurement and wrapping with the fonts Excalidraw renders, so
+// containers can be sized to their labels before the scene is built.
+// Skeleton text may carry a `maxWidth` to wrap at, which layoutSkeletons
+// turns into wrapped text Excalidraw understands. Bullet items are joined
+// into the text when elements are added.
+import { FONT_FAMILY } from "@excalidraw/excalidraw";
+
+export type FontFamilyName = keyof typeof FONT_FAMILY;
+export const FONT_FAMILIES = Object.keys(FONT_FAMILY) as FontFamilyName[];
+
+// Excalidraw's defaults for new text
+const DEFAULT_FONT_FAMILY: number = FONT_FAMILY.Excalifont;
+const DEFAULT_FONT_SIZE = 20;
+// Gap Excalidraw keeps between a container and its bound text
+const BOUND_TEXT_PADDING = 5;
+// Labels without a maxWidth wrap here so long text does not make giant boxes
+export const DEFAULT_LABEL_MAX_WIDTH = 320;
+const BULLET = "• ";
+
+// Line heights from Excalidraw's font metrics, by font family id
+const LINE_HEIGHTS: Record<number, number> = {
+	[FONT_FAMILY.Virgil]: 1.25,
+	[FONT_FAMILY.Helvetica]: 1.15,
+	[FONT_FAMILY.Cascadia]: 1.2,
+	[FONT_FAMILY.Excalifont]: 1.25,
+	[FONT_FAMILY.Nunito]: 1.35,
+	[FONT_FAMILY["Lilita One"]]: 1.15,
+	[FONT_FAMILY["Comic Shanns"]]: 1.25,
+	[FONT_FAMILY["Liberation Sans"]]: 1.15,
+};
+
+export type TextStyle = {
+	text?: string;
+	bullets?: string[];
+	fontSize?: number;
+	fontFamily?: string | number;
+	lineHeight?: number;
+	maxWidth?: number;
+};
+
+// Font family id from a name (case-insensitive) or id; undefined if unknown
+export function fontFamilyId(value: unknown): number | undefined {
+	if (typeof value === "number") {
+		return Object.values(FONT_FAMILY).includes(value as any)
+			? value
+			: undefined;
+	}
+	if (typeof value !== "string") return undefined;
+	const wanted = value.trim().toLowerCase();
+	const name = FONT_FAMILIES.find((n) => n.toLowerCase() === wanted);
+	return name ? FONT_FAMILY[name] : undefined;
+}
+
+function familyName(id: number): string {
+	return FONT_FAMILIES.find((n) => FONT_FAMILY[n] === id) ?? "Excalifont";
+}
+
+// Same font string Excalidraw measures and renders with
+export function fontString(fontSize: number, familyId: number): string {
+	const fallbacks =
+		familyId === FONT_FAMILY.Excalifont
+			? ", Xiaolai, Segoe UI Emoji"
+			: ", Segoe UI Emoji";
+	return `${fontSize}px ${familyName(familyId)}${fallbacks}`;
+}
+
+export function lineHeightOf(style: TextStyle): number {
+	const explicit = Number(style.lineHeight);
+	if (explicit > 0) return explicit;
+	const id = fontFamilyId(style.fontFamily) ?? DEFAULT_FONT_FAMILY;
+	return LINE_HEIGHTS[id] ?? 1.25;
+}
+
+// Text with bullet items appended, one per line
+export function composeText(style: TextStyle): string {
+	const lines = style.text ? [style.text] : [];
+	for (const item of style.bullets ?? []) lines.push(`${BULLET}${item}`);
+	return lines.join("\n");
+}
+
+const _canvas =
+	typeof document !== "undefined" && (document as any).createElement
+		? (document as any).createElement("canvas")
+		: (null as any);
+const _ctx = _canvas
+	? (_canvas.getContext("2d") as CanvasRenderingContext2D | null)
+	: null;
+
+function lineWidth(line: string, font: string): number {
+	if (_ctx) {
+		try {
+			_ctx.font = font;
+			return _ctx.measureText(line).width;
+		} catch {
+			// fall through to the estimate
+		}
+	}
+	return line.length * Number.parseFloat(font) * 0.6;
+}
+
+// Greedy word wrap at maxWidth; words longer than a line are broken.
+// Wrapped bullet items are indented to hang under their first word.
+export function wrapText(text: string, font: string, maxWidth: number): string {
+	if (!(maxWidth > 0)) return text;
+	const out: string[] = [];
+	for (const line of text.split("\n")) {
+		if (lineWidth(line, font) <= maxWidth) {
+			out.push(line);
+			continue;
+		}
+		const indent = line.startsWith(BULLET) ? "  " : "";
+		let current = "";
+		for (const word of line.split(" ")) {
+			const candidate = current ? `${current} ${word}` : word;
+			if (lineWidth(candidate, font) <= maxWidth) {
+				current = candidate;
+				continue;
+			}
+			if (current) out.push(current);
+			current = current ? `${indent}${word}` : word;
+			// A single word wider than the line is split by characters. Each
+			// line keeps at least one character past the indent, so a
+			// character wider than maxWidth still ends up on a line of its own.
+			while (
+				current.length > indent.length + 1 &&
+				lineWidth(current, font) > maxWidth
+			) {
+				let cut = current.length - 1;
+				while (
+					cut > indent.length + 1 &&
+					lineWidth(current.slice(0, cut), font) > maxWidth
+				) {
+					cut--;
+				}
+				cut = Math.max(cut, indent.length + 1);
+				out.push(current.slice(0, cut));
+				current = `${indent}${current.slice(cut)}`;
+			}
+		}
+		if (current) out.push(current);
+	}
+	return out.join("\n");
+}
+
+// Size of a label once wrapped; labels without a maxWidth wrap at
+// DEFAULT_LABEL_MAX_WIDTH
+export function measureLabelSize(label: any): { w: number; h: number } {
+	return measureText(label, label?.maxWidth ?? DEFAULT_LABEL_MAX_WIDTH);
+}
+
+// Wrapped text and its size in pixels
+export function measureText(
+	style: TextStyle,
+	maxWidth = style.maxWidth,
+): { text: string; w: number; h: number } {
+	const fontSize = Math.max(1, Number(style.fontSize ?? DEFAULT_FONT_SIZE));
+	const font = fontString(
+		fontSize,
+		fontFamilyId(style.fontFamily) ?? DEFAULT_FONT_FAMILY,
+	);
+	const text = wrapText(composeText(style), font, Number(maxWidth));
+	const lines = text.split("\n");
+	const w = Math.max(...lines.map((l) => lineWidth(l, font)), 1);
+	const h = lines.length * fontSize * lineHeightOf(style);
+	return { text, w, h };
+}
+
+// Container size whose bound-text area fits a w×h text block with `padding`
+// on each side (Excalidraw insets text further in ellipses and diamonds)
+export function containerSizeFor(
+	type: string,
+	w: number,
+	h: number,
+	padding: number,
+): { width: number; height: number } {
+	const extra = Math.max(0, padding - BOUND_TEXT_PADDING) * 2;
+	const fit = (d: number) => {
+		const inner = Math.ceil(d) + extra + BOUND_TEXT_PADDING * 2;
+		if (type === "ellipse") return Math.round((inner / Math.sqrt(2)) * 2);
+		if (type === "diamond") return 2 * inner;
+		return inner;
+	};
+	return { width: fit(w), height: fit(h) };
+}
+
+// Load the fonts the given text uses, so measurements use real metrics
+// instead of a fallback font
+export async function loadFonts(styles: TextStyle[]): Promise<void> {
+	if (typeof document === "undefined" || !(document as any).fonts) return;
+	const fonts = new Set(
+		styles.map((s) =>
+			fontString(
+				Number(s.fontSize ?? DEFAULT_FONT_SIZE),
+				fontFamilyId(s.fontFamily) ?? DEFAULT_FONT_FAMILY,
+			),
+		),
+	);
+	await Promise.all(
+		[...fonts].map((f) => document.fonts.load(f).catch(() => [])),
+	);
+}
+
+// Font name to id, without the skeleton-only maxWidth
+function textProps(style: any): any {
+	const { maxWidth: _maxWidth, ...rest } = style;
+	const id = fontFamilyId(style.fontFamily);
+	if (id !== undefined) rest.fontFamily = id;
+	else delete rest.fontFamily;
+	return rest;
+}
+
+// Prepare skeletons for convertToExcalidrawElements. Free text with a
+// maxWidth is wrapped here and kept at that width; container labels are
+// wrapped by Excalidraw to the container's width.
+export function layoutSkeletons(skeletons: readonly any[]): any[] {
+	return skeletons.map((e: any) => {
+		if (e.type === "text") {
+			const props = textProps(e);
+			if (!(Number(e.maxWidth) > 0)) return props;
+			return {
+				...props,
+				text: measureText(e).text,
+				originalText: e.text,
+				autoResize: false,
+			};
+		}
+		if (e.label) return { ...e, label: textProps(e.label) };
+		return e;
+	});
+}
@@ -0,0 +1,302 @@
+// Block-level suggestions: inserted, deleted, moved and reformatted blocks.
+// Each affected block carries a `suggestion` node attribute that is drawn
+// with node decorations and resolved together with the inline marks.
+import { defineNodeAttr, definePlugin, union } from 'prosekit/core'
+import { Plugin } from 'prosekit/pm/state'
+import { Decoration, DecorationSet } from 'prosekit/pm/view'
+import { Fragment, type Node as PMNode, type Schema } from 'prosemirror-model'
+import { sliceFromMarkdown } from './markdown'
+
+// Block node types that can carry a suggestion
+const BLOCK_TYPES = [
+  'paragraph',
+  'heading',
+  'list',
+  'blockquote',
+  'codeBlock',
+  'horizontalRule',
+  'image',
+  'table',
+  'tableRow',
+] as const
+
+export type BlockSuggestionKind = 'insert' | 'delete' | 'move_from' | 'move_to' | 'format'
+
+export type BlockSuggestion = {
+  id: string
+  kind: BlockSuggestionKind
+  user: string
+  reason: string
+  ts: number
+  source: string
+  category?: string
+  // Type and attrs before a format change, restored on reject
+  previous?: { type: string; attrs: Record<string, unknown> }
+}
+
+export function defineBlockSuggestions() {
+  return union(
+    ...BLOCK_TYPES.map((type) =>
+      defineNodeAttr<string, 'suggestion', BlockSuggestion | null>({
+        type,
+        attr: 'suggestion',
+        default: null,
+        toDOM: (value) => (value ? ['data-suggestion-attrs', JSON.stringify(value)] : null),
+        parseDOM: (dom) => {
+          const raw = dom.getAttribute('data-suggestion-attrs')
+          if (!raw) return null
+          try {
+            return JSON.parse(raw)
+          } catch {
+            return null
+          }
+        },
+      }),
+    ),
+    definePlugin(
+      new Plugin({
+        props: {
+          decorations: (state) => blockSuggestionDecorations(state.doc),
+        },
+      }),
+    ),
+  )
+}
+
+function suggestionOf(node: PMNode): BlockSuggestion | null {
+  return (node.attrs?.suggestion as BlockSuggestion | null) ?? null
+}
+
+function blockSuggestionDecorations(doc: PMNode) {
+  const decorations: Decoration[] = []
+  doc.descendants((node, pos) => {
+    const s = suggestionOf(node)
+    if (!s) return true
+    decorations.push(
+      Decoration.node(pos, pos + node.nodeSize, {
+        class: `sg-block sg-block-${s.kind.replace('_', '-')}`,
+        'data-block-suggestion': s.kind,
+        'data-id': s.id,
+        'data-reason': s.reason,
+      }),
+    )
+    return true
+  })
+  return DecorationSet.create(doc, decorations)
+}
+
+// Blocks with a pending suggestion, optionally only those with the given id
+function findSuggestedBlocks(doc: PMNode, id?: string) {
+  const blocks: Array<{ pos: number; node: PMNode; suggestion: BlockSuggestion }> = []
+  doc.descendants((node, pos) => {
+    const s = suggestionOf(node)
+    if (s && (id == null || s.id === id)) blocks.push({ pos, node, suggestion: s })
+    return true
+  })
+  return blocks
+}
+
+// Accept or reject block suggestions on `tr`: all of them, or those with `id`.
+// Blocks are handled last to first so earlier positions stay valid.
+export function resolveBlockSuggestions(tr: any, action: 'accept' | 'reject', id?: string) {
+  const blocks = findSuggestedBlocks(tr.doc, id).sort((a, b) => b.pos - a.pos)
+  for (const { pos, node, suggestion } of blocks) {
+    const { kind, previous } = suggestion
+    const remove = action === 'accept'
+      ? kind === 'delete' || kind === 'move_from'
+      : kind === 'insert' || kind === 'move_to'
+    if (remove) {
+      tr = tr.delete(pos, pos + node.nodeSize)
+    } else if (kind === 'format' && action === 'reject' && previous) {
+      const type = tr.doc.type.schema.nodes[previous.type] ?? node.type
+      const attrs = { ...previous.attrs, suggestion: null }
+      if (type !== node.type && node.isTextblock && type.isTextblock) {
+        tr = tr.setBlockType(pos + 1, pos + 1, type, attrs)
+      } else {
+        tr = tr.setNodeMarkup(pos, type, attrs)
+      }
+    } else {
+      tr = tr.setNodeAttribute(pos, 'suggestion', null)
+    }
+  }
+  return tr
+}
+
+// Identifies a block by (part of) its text and optionally its node type
+export type BlockTarget = {
+  text: string
+  type?: string
+}
+
+export type ApplyBlockSuggestionInput = {
+  action: 'insert' | 'delete' | 'move' | 'change_type' | 'set_attrs'
+  // Block to act on; for insert, the block to insert next to
+  target?: BlockTarget
+  // Where to insert or move to, relative to target / destination
+  position?: 'before' | 'after'
+  // Block to move the target next to
+  destination?: BlockTarget
+  // Markdown content of the inserted blocks. Next to a table row, a single
+  // `| a | b |` line becomes a new row.
+  markdown?: string
+  // New node type for change_type
+  type?: string
+  // Node attributes for change_type and set_attrs, e.g. { level: 2 }
+  attrs?: Record<string, unknown>
+  reason?: string
+  // Kind of edit for filtering, e.g. 'structure'
+  category?: string
+}
+
+const normalize = (text: string) => text.replace(/\s+/g, ' ').trim()
+
+// Find the block whose text contains target.text. Without a type, the
+// innermost matching block wins (the paragraph rather than its list).
+function findBlock(doc: PMNode, target: BlockTarget): { pos: number; node: PMNode } | null {
+  const wanted = normalize(target.text)
+  let found: { pos: number; node: PMNode } | null = null
+  doc.descendants((node, pos) => {
+    if (found && (target.type || pos >= found.pos + found.node.nodeSize)) return false
+    if (!(BLOCK_TYPES as readonly string[]).includes(node.type.name)) return true
+    if (target.type && node.type.name !== target.type) return true
+    if (!normalize(node.textContent).includes(wanted)) return true
+    found = { pos, node }
+    return true
+  })
+  return found
+}
+
+// Block an inserted list item or table row goes next to: a paragraph
+// matched inside a list item or table cell stands for its `list`/`tableRow`
+function insertionTarget(doc: PMNode, block: { pos: number; node: PMNode }, markdown: string) {
+  const line = markdown.trim()
+  const wrapper = line.startsWith('|')
+    ? 'tableRow'
+    : /^([-*+]|\d+[.)])\s/.test(line) ? 'list' : null
+  if (!wrapper || block.node.type.name === wrapper) return block
+  const $pos = doc.resolve(block.pos)
+  for (let depth = $pos.depth; depth > 0; depth--) {
+    const node = $pos.node(depth)
+    if (node.type.name === wrapper) return { pos: $pos.before(depth), node }
+  }
+  return block
+}
+
+// Table row built from a `| a | b |` line, shaped like `row`
+function tableRowFromMarkdown(schema: Schema, row: PMNode, markdown: string): PMNode | null {
+  const line = markdown.trim()
+  if (!line.startsWith('|')) return null
+  const cells = line.replace(/^\||\|$/g, '').split('|').map((c) => c.trim())
+  const content: PMNode[] = []
+  for (let i = 0; i < row.childCount; i++) {
+    const text = cells[i] ?? ''
+    const paragraph = schema.nodes.paragraph.create(null, text ? schema.text(text) : null)
+    content.push(schema.nodes.tableCell.create(null, paragraph))
+  }
+  return row.type.create(null, content)
+}
+
+function withSuggestion(node: PMNode, suggestion: BlockSuggestion) {
+  if (!('suggestion' in node.attrs)) return node
+  return node.type.create({ ...node.attrs, suggestion }, node.content, node.marks)
+}
+
+// Propose a structural change. Returns the suggestion id, or null when the
+// target cannot be found or the change does not fit the document.
+export function applyBlockSuggestion(
+  view: any,
+  s: ApplyBlockSuggestionInput,
+  user = 'AI',
+): string | null {
+  const { state, dispatch } = view
+  const { schema } = state
+  const id = `sg-${Date.now().toString(36)}-${Math.floor(Math.random() * 1e6)}`
+  const base = {
+    id,
+    user,
+    reason: s.reason ?? '',
+    ts: Date.now(),
+    source: 'ai',
+    category: s.category ?? '',
+  }
+
+  const target = s.target ? findBlock(state.doc, s.target) : null
+  if (s.target && !target) return null
+  if (target && suggestionOf(target.node)) return null
+  const after = s.position !== 'before'
+
+  let tr = state.tr
+  switch (s.action) {
+    case 'insert': {
+      if (!s.markdown) return null
+      const suggestion: BlockSuggestion = { ...base, kind: 'insert' }
+      const anchor = target ? insertionTarget(state.doc, target, s.markdown) : null
+      const row = anchor?.node.type.name === 'tableRow'
+        ? tableRowFromMarkdown(schema, anchor.node, s.markdown)
+        : null
+      const nodes: PMNode[] = []
+      if (row) {
+        nodes.push(row)
+      } else {
+        sliceFromMarkdown(schema, s.markdown).content.forEach((n) => nodes.push(n))
+      }
+      if (nodes.length === 0) return null
+      const pos = anchor
+        ? after ? anchor.pos + anchor.node.nodeSize : anchor.pos
+        : state.doc.content.size
+      tr = tr.insert(pos, Fragment.from(nodes.map((n) => withSuggestion(n, suggestion))))
+      break
+    }
+    case 'delete': {
+      if (!target) return null
+      tr = tr.setNodeAttribute(target.pos, 'suggestion', { ...base, kind: 'delete' })
+      break
+    }
+    case 'move': {
+      if (!target || !s.destination) return null
+      const dest = findBlock(state.doc, s.destination)
+      if (!dest) return null
+      const end = target.pos + target.node.nodeSize
+      if (dest.pos >= target.pos && dest.pos < end) return null
+      const pos = after ? dest.pos + dest.node.nodeSize : dest.pos
+      // Insert the copy first, then find the original past it if needed
+      tr = tr.insert(pos, withSuggestion(target.node, { ...base, kind: 'move_to' }))
+      tr = tr.setNodeAttribute(tr.mapping.map(target.pos, 1), 'suggestion', {
+        ...base,
+        kind: 'move_from',
+      })
+      break
+    }
+    case 'change_type':
+    case 'set_attrs': {
+      if (!target) return null
+      const { node, pos } = target
+      const previous = { type: node.type.name, attrs: { ...node.attrs, suggestion: null } }
+      const suggestion: BlockSuggestion = { ...base, kind: 'format', previous }
+      const type = s.action === 'change_type' ? schema.nodes[s.type ?? ''] : node.type
+      if (!type) return null
+      // Only attributes the new type knows about are kept
+      const attrs: Record<string, unknown> = {}
+      for (const key of Object.keys(type.spec.attrs ?? {})) {
+        if (s.attrs && key in s.attrs) attrs[key] = s.attrs[key]
+        else if (type === node.type) attrs[key] = node.attrs[key]
+      }
+      attrs.suggestion = suggestion
+      if (type === node.type) {
+        tr = tr.setNodeMarkup(pos, type, attrs)
+      } else {
+        if (!node.isTextblock || !type.isTextblock) return null
+        tr = tr.setBlockType(pos + 1, pos + 1, type, attrs)
+      }
+      break
+    }
+    default:
+      return null
+  }
+  if (!tr.docChanged) return null
+  tr = tr.setMeta('aiSuggestion', true).setMeta('addToHistory', true)
+
+  dispatch(tr)
+  view.focus()
+  return id
+}
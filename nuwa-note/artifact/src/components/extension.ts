@@ -12,6 +12,7 @@ import {
 	type ReactNodeViewComponent,
 } from "prosekit/react";
 
+import { defineBlockSuggestions } from "./block-suggestions";
 import CodeBlockView from "./code-block-view";
 import ImageView from "./image-view";
 import { suggestionMarks } from "./suggestions";
@@ -44,6 +45,8 @@ export function defineExtension() {
 			name: "suggestion_delete",
 			...(suggestionMarks.suggestion_delete as any),
 		}),
+		// Node attribute and decorations for block-level suggestions
+		defineBlockSuggestions(),
 	);
 }
 
@@ -4,6 +4,7 @@ import "prosekit/basic/typography.css";
 
 import type { Editor as ProseKitEditor } from "prosekit/core";
 import { ProseKit, useDocChange } from "prosekit/react";
+import { useState } from "react";
 import { AiMenuProvider, useAiMenu } from "../contexts/AiMenuContext";
 import AiMenu from "./ai-menu";
 import BlockHandle from "./block-handle";
@@ -12,10 +13,17 @@ import InlineMenu from "./inline-menu";
 import SlashMenu from "./slash-menu";
 import SuggestionDock from "./suggestion-dock";
 import SuggestionHoverMenu from "./suggestion-hover";
+import SuggestionReviewPanel from "./suggestion-review-panel";
 import TableHandle from "./table-handle";
 import Toolbar from "./toolbar";
 
-function EditorContent({ editor }: { editor: ProseKitEditor }) {
+function EditorContent({
+  editor,
+  onOpenReview,
+}: {
+  editor: ProseKitEditor;
+  onOpenReview: () => void;
+}) {
   const { aiGenerateOpen, setAiGenerateOpen } = useAiMenu();
   return (
     <>
@@ -34,7 +42,7 @@ function EditorContent({ editor }: { editor: ProseKitEditor }) {
       <BlockHandle />
       <TableHandle />
       <DropIndicator />
-      <SuggestionDock />
+      <SuggestionDock onReview={onOpenReview} />
       <SuggestionHoverMenu />
     </>
   );
@@ -48,15 +56,24 @@ export default function Editor({
   onDocChange: () => void;
 }) {
   useDocChange(onDocChange, { editor });
+  const [reviewOpen, setReviewOpen] = useState(false);
 
   return (
     <ProseKit editor={editor}>
       <div className=" h-screen w-full overflow-y-hidden overflow-x-hidden flex flex-col bg-white dark:bg-gray-950 text-black dark:text-white">
         <Toolbar />
-        <div className="relative w-full flex-1 box-border overflow-y-scroll">
-          <AiMenuProvider>
-            <EditorContent editor={editor} />
-          </AiMenuProvider>
+        <div className="flex min-h-0 w-full flex-1">
+          <div className="relative min-w-0 flex-1 box-border overflow-y-scroll">
+            <AiMenuProvider>
+              <EditorContent
+                editor={editor}
+                onOpenReview={() => setReviewOpen(true)}
+              />
+            </AiMenuProvider>
+          </div>
+          {reviewOpen ? (
+            <SuggestionReviewPanel onClose={() => setReviewOpen(false)} />
+          ) : null}
         </div>
       </div>
     </ProseKit>
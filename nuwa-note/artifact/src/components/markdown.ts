@@ -1,3 +1,4 @@
+import { DOMParser, type Schema, type Slice } from 'prosemirror-model';
 import rehypeParse from 'rehype-parse';
 import rehypeRemark from 'rehype-remark';
 import remarkHtml from 'remark-html';
@@ -21,3 +22,10 @@ export function htmlFromMarkdown(markdown: string): string {
     .processSync(markdown)
     .toString();
 }
+
+// Parse markdown into a slice of editor nodes for the given schema
+export function sliceFromMarkdown(schema: Schema, markdown: string): Slice {
+  const container = document.createElement('div');
+  container.innerHTML = htmlFromMarkdown(markdown);
+  return DOMParser.fromSchema(schema).parseSlice(container);
+}
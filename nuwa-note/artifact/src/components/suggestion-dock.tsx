@@ -1,19 +1,27 @@
-import { CheckCheck, X } from 'lucide-react';
+import { CheckCheck, ListChecks, X } from 'lucide-react';
+import type { Editor } from 'prosekit/core';
 import { useEditor, useEditorDerivedValue } from 'prosekit/react';
+import type { EditorExtension } from './extension';
 import {
   acceptAllSuggestions,
-  hasSuggestionsInDoc,
+  countSuggestions,
   rejectAllSuggestions,
 } from './suggestions';
 
-export default function SuggestionDock() {
+function getSuggestionCount(editor: Editor<EditorExtension>) {
+  return countSuggestions(editor.state.doc);
+}
+
+export default function SuggestionDock({
+  onReview,
+}: {
+  onReview?: () => void;
+}) {
   const editor = useEditor() as any;
-  const visible = useEditorDerivedValue((ed) =>
-    hasSuggestionsInDoc(ed.state.doc),
-  );
+  const count = useEditorDerivedValue(getSuggestionCount);
 
   if (!editor) return null;
-  if (!visible) return null;
+  if (count === 0) return null;
 
   const canExec = true;
   const onAcceptAll = () => editor.exec(acceptAllSuggestions);
@@ -22,6 +30,15 @@ export default function SuggestionDock() {
   return (
     <div className="pointer-events-none fixed inset-x-0 bottom-6 z-20 flex justify-center">
       <div className="pointer-events-auto flex items-center gap-3 rounded-full bg-white dark:bg-gray-900 shadow-lg ring-1 ring-gray-200 dark:ring-gray-700 px-4 py-2">
+        {onReview ? (
+          <button
+            type="button"
+            className="inline-flex items-center gap-2 rounded-full bg-gray-100 hover:bg-gray-200 dark:bg-gray-800 dark:hover:bg-gray-700 text-sm px-3 py-1.5"
+            onClick={onReview}
+          >
+            <ListChecks className="size-4" /> Review ({count})
+          </button>
+        ) : null}
         <button
           type="button"
           disabled={!canExec}
@@ -6,11 +6,45 @@ import { acceptSuggestionById, rejectSuggestionById } from './suggestions'
 type HoverData = {
   id: string
   reason?: string
-  type: 'insert' | 'delete' | 'replace'
+  type: 'insert' | 'delete' | 'replace' | 'move' | 'format'
   rect: DOMRect
   anchor: HTMLElement
 }
 
+const TYPE_LABELS: Record<HoverData['type'], { badge: string; className: string }> = {
+  insert: {
+    badge: 'Insertion',
+    className: 'bg-emerald-50 text-emerald-700 dark:bg-emerald-950/40 dark:text-emerald-300',
+  },
+  delete: {
+    badge: 'Deletion',
+    className: 'bg-rose-50 text-rose-700 dark:bg-rose-950/40 dark:text-rose-300',
+  },
+  replace: {
+    badge: 'Replacement',
+    className: 'bg-blue-50 text-blue-700 dark:bg-blue-950/40 dark:text-blue-300',
+  },
+  move: {
+    badge: 'Move',
+    className: 'bg-violet-50 text-violet-700 dark:bg-violet-950/40 dark:text-violet-300',
+  },
+  format: {
+    badge: 'Format change',
+    className: 'bg-amber-50 text-amber-700 dark:bg-amber-950/40 dark:text-amber-300',
+  },
+}
+
+// Inline mark spans and decorated blocks of a suggestion
+const SUGGESTION_SELECTOR = 'span.sg-insert, span.sg-delete, [data-block-suggestion]'
+const selectorForId = (id: string) =>
+  `span.sg-insert[data-id="${id}"], span.sg-delete[data-id="${id}"], [data-block-suggestion][data-id="${id}"]`
+
+// Hover type of a block suggestion kind (move_from / move_to are one move)
+function blockType(kind: string): HoverData['type'] {
+  if (kind === 'insert' || kind === 'delete' || kind === 'format') return kind
+  return 'move'
+}
+
 export default function SuggestionHoverMenu() {
   const editor = useEditor() as any
   const [hover, setHover] = useState<HoverData | null>(null)
@@ -32,15 +66,20 @@ export default function SuggestionHoverMenu() {
       // Keep open when clicking inside the menu itself
       if (target.closest('.sg-hover-menu')) return
 
-      const span = target.closest('span.sg-insert, span.sg-delete') as HTMLElement | null
+      const span = target.closest(SUGGESTION_SELECTOR) as HTMLElement | null
       if (!span) {
         setHover(null)
         return
       }
-      const typeFromSpan: 'insert' | 'delete' = span.classList.contains('sg-insert') ? 'insert' : 'delete'
       const id = span.getAttribute('data-id') || ''
       if (!id) return
       const reason = span.getAttribute('data-reason') || undefined
+      const blockKind = span.getAttribute('data-block-suggestion')
+      if (blockKind) {
+        setHover({ id, reason, type: blockType(blockKind), rect: computeRect(span), anchor: span })
+        return
+      }
+      const typeFromSpan: 'insert' | 'delete' = span.classList.contains('sg-insert') ? 'insert' : 'delete'
       const hasInsert = !!root.querySelector(`span.sg-insert[data-id="${id}"]`)
       const hasDelete = !!root.querySelector(`span.sg-delete[data-id="${id}"]`)
       const type: HoverData['type'] = hasInsert && hasDelete ? 'replace' : typeFromSpan
@@ -56,10 +95,8 @@ export default function SuggestionHoverMenu() {
         if (!sel) return null
         // Ignore selections outside the editor
         if (!root.contains(sel.anchorNode)) return null
-        // Find spans for this id and check containment
-        const spans = root.querySelectorAll(
-          `span.sg-insert[data-id="${prev.id}"], span.sg-delete[data-id="${prev.id}"]`,
-        )
+        // Find spans and blocks for this id and check containment
+        const spans = root.querySelectorAll(selectorForId(prev.id))
         let containing: HTMLElement | null = null
         for (const n of spans) {
           if (n.contains(sel.anchorNode)) {
@@ -125,17 +162,13 @@ export default function SuggestionHoverMenu() {
           <span
             className={
               'inline-flex items-center rounded-full px-2 py-0.5 text-[11px] font-medium ' +
-              (hover.type === 'insert'
-                ? 'bg-emerald-50 text-emerald-700 dark:bg-emerald-950/40 dark:text-emerald-300'
-                : hover.type === 'delete'
-                  ? 'bg-rose-50 text-rose-700 dark:bg-rose-950/40 dark:text-rose-300'
-                  : 'bg-blue-50 text-blue-700 dark:bg-blue-950/40 dark:text-blue-300')
+              TYPE_LABELS[hover.type].className
             }
           >
-            {hover.type === 'insert' ? 'Insertion' : hover.type === 'delete' ? 'Deletion' : 'Replacement'}
+            {TYPE_LABELS[hover.type].badge}
           </span>
           <div className="text-gray-800 dark:text-gray-200 leading-snug">
-            {hover.reason?.trim() || (hover.type === 'insert' ? 'Proposed insertion' : hover.type === 'delete' ? 'Proposed deletion' : 'Proposed replacement')}
+            {hover.reason?.trim() || `Proposed ${TYPE_LABELS[hover.type].badge.toLowerCase()}`}
           </div>
         </div>
 
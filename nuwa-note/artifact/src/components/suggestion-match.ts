@@ -0,0 +1,274 @@
+// Locating suggestion targets in the document. Matching runs on a plain-text
+// projection of the whole document with whitespace collapsed and typographic
+// quotes straightened, falls back to fuzzy matching, and explains failures
+// with candidate matches the caller can retry with.
+import type { Node as PMNode } from 'prosemirror-model'
+import { sliceFromMarkdown } from './markdown'
+
+export type MatchFailure = 'not_found' | 'ambiguous' | 'anchor_mismatch'
+
+// A place in the document that nearly or also matches, with context that can
+// be passed back as textBefore / textAfter
+export type MatchCandidate = {
+  text: string
+  similarity: number
+  textBefore: string
+  textAfter: string
+}
+
+export type MatchOptions = {
+  textBefore?: string
+  textAfter?: string
+  // 1-based occurrence among the matches; needed when there are several
+  occurrence?: number
+  // Minimum similarity (0-1) for a fuzzy match; 1 disables fuzzy matching
+  fuzzyThreshold?: number
+}
+
+export type MatchResult =
+  | { ok: true; from: number; to: number; similarity: number }
+  | { ok: false; reason: MatchFailure; message: string; candidates: MatchCandidate[] }
+
+export const DEFAULT_FUZZY_THRESHOLD = 0.85
+const MAX_CANDIDATES = 5
+const CONTEXT_CHARS = 30
+// Fuzzy hits below this are not worth offering as candidates
+const MIN_CANDIDATE_SIMILARITY = 0.5
+
+// Plain-text view of the document. Textblocks are joined with '\n' (hard
+// breaks too); each character keeps the document positions it spans, so a
+// match can be mapped back even across block boundaries.
+type TextProjection = { text: string; starts: number[]; ends: number[] }
+
+function projectText(doc: PMNode): TextProjection {
+  let text = ''
+  const starts: number[] = []
+  const ends: number[] = []
+  const push = (ch: string, start: number, end: number) => {
+    text += ch
+    starts.push(start)
+    ends.push(end)
+  }
+  doc.descendants((node, pos) => {
+    if (node.isTextblock) {
+      // One separator per block boundary; empty blocks add nothing
+      if (text && !text.endsWith('\n')) push('\n', pos + 1, pos + 1)
+      return true
+    }
+    if (node.isText) {
+      const t = node.text ?? ''
+      for (let i = 0; i < t.length; i++) push(t[i], pos + i, pos + i + 1)
+    } else if (node.type.name === 'hardBreak') {
+      push('\n', pos, pos + node.nodeSize)
+    }
+    return true
+  })
+  return { text, starts, ends }
+}
+
+const QUOTES: Record<string, string> = {
+  '‘': "'",
+  '’': "'",
+  '‚': "'",
+  '‛': "'",
+  '′': "'",
+  '“': '"',
+  '”': '"',
+  '„': '"',
+  '‟': '"',
+  '″': '"',
+  '«': '"',
+  '»': '"',
+}
+
+// Text with whitespace runs (line breaks included) collapsed to one space,
+// trimmed, and quotes straightened. `map` gives each character's index in
+// the original text.
+function normalizeText(text: string): { text: string; map: number[] } {
+  let out = ''
+  const map: number[] = []
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i]
+    if (/\s/.test(ch)) {
+      if (out && !out.endsWith(' ')) {
+        out += ' '
+        map.push(i)
+      }
+      continue
+    }
+    out += QUOTES[ch] ?? ch
+    map.push(i)
+  }
+  if (out.endsWith(' ')) {
+    out = out.slice(0, -1)
+    map.pop()
+  }
+  return { text: out, map }
+}
+
+const normalize = (text: string) => normalizeText(text).text
+
+// Plain text of a markdown snippet, so text copied from get_markdown_content
+// (with **, #, - and the like) still matches the document
+function plainTextOf(doc: PMNode, markdown: string) {
+  const { content } = sliceFromMarkdown(doc.type.schema, markdown)
+  return content.textBetween(0, content.size, '\n', (leaf: PMNode) =>
+    leaf.type.name === 'hardBreak' ? '\n' : '',
+  )
+}
+
+// Character bigram counts, for Dice similarity
+function bigrams(text: string) {
+  const counts = new Map<string, number>()
+  for (let i = 0; i < text.length - 1; i++) {
+    const b = text.slice(i, i + 2)
+    counts.set(b, (counts.get(b) ?? 0) + 1)
+  }
+  return counts
+}
+
+function similarity(a: Map<string, number>, aSize: number, b: string) {
+  if (aSize === 0 || b.length < 2) return 0
+  let shared = 0
+  for (const [gram, count] of bigrams(b)) shared += Math.min(count, a.get(gram) ?? 0)
+  return (2 * shared) / (aSize + b.length - 1)
+}
+
+type Hit = { index: number; length: number; similarity: number }
+
+function exactHits(hay: string, needle: string): Hit[] {
+  const hits: Hit[] = []
+  let idx = hay.indexOf(needle)
+  while (idx >= 0) {
+    hits.push({ index: idx, length: needle.length, similarity: 1 })
+    idx = hay.indexOf(needle, idx + needle.length)
+  }
+  return hits
+}
+
+// Best non-overlapping windows of about the needle's length, starting and
+// ending at word boundaries, by similarity
+function fuzzyHits(hay: string, needle: string): Hit[] {
+  const grams = bigrams(needle)
+  const size = Math.max(needle.length - 1, 0)
+  const scored: Hit[] = []
+  for (let i = 0; i < hay.length; i++) {
+    if (i > 0 && hay[i - 1] !== ' ') continue
+    let end = Math.min(i + needle.length, hay.length)
+    while (end < hay.length && hay[end] !== ' ' && hay[end - 1] !== ' ') end++
+    const window = hay.slice(i, end).trimEnd()
+    scored.push({ index: i, length: window.length, similarity: similarity(grams, size, window) })
+  }
+  scored.sort((a, b) => b.similarity - a.similarity || a.index - b.index)
+  const hits: Hit[] = []
+  for (const hit of scored) {
+    if (hit.similarity === 0) break
+    const overlaps = hits.some(
+      (h) => hit.index < h.index + h.length && h.index < hit.index + hit.length,
+    )
+    if (!overlaps) hits.push(hit)
+  }
+  return hits
+}
+
+// Locate `needle` (plaintext or markdown) in the document
+export function findMatch(doc: PMNode, needle: string, opts: MatchOptions = {}): MatchResult {
+  const projection = projectText(doc)
+  const { text: hay, map } = normalizeText(projection.text)
+  const threshold = opts.fuzzyThreshold ?? DEFAULT_FUZZY_THRESHOLD
+  const before = normalize(opts.textBefore ?? '')
+  const after = normalize(opts.textAfter ?? '')
+
+  const candidateOf = (h: Hit): MatchCandidate => ({
+    text: hay.slice(h.index, h.index + h.length),
+    similarity: Math.round(h.similarity * 100) / 100,
+    textBefore: hay.slice(Math.max(0, h.index - CONTEXT_CHARS), h.index).trimStart(),
+    textAfter: hay.slice(h.index + h.length, h.index + h.length + CONTEXT_CHARS).trimEnd(),
+  })
+  const fail = (reason: MatchFailure, message: string, hits: Hit[]): MatchResult => ({
+    ok: false,
+    reason,
+    message,
+    candidates: hits.slice(0, MAX_CANDIDATES).map(candidateOf),
+  })
+
+  const variants = [normalize(needle)]
+  const plain = normalize(plainTextOf(doc, needle))
+  if (plain && plain !== variants[0]) variants.push(plain)
+  if (!variants[0]) return fail('not_found', 'Nothing to match', [])
+
+  let hits: Hit[] = []
+  for (const v of variants) {
+    hits = exactHits(hay, v)
+    if (hits.length > 0) break
+  }
+  if (hits.length === 0) {
+    const fuzzy = fuzzyHits(hay, variants[variants.length - 1])
+    hits = fuzzy.filter((h) => threshold < 1 && h.similarity >= threshold)
+    if (hits.length === 0) {
+      return fail(
+        'not_found',
+        'Text not found in the document',
+        fuzzy.filter((h) => h.similarity >= MIN_CANDIDATE_SIMILARITY),
+      )
+    }
+    hits.sort((a, b) => a.index - b.index)
+  }
+
+  const anchored = hits.filter(
+    (h) =>
+      hay.slice(0, h.index).trimEnd().endsWith(before) &&
+      hay.slice(h.index + h.length).trimStart().startsWith(after),
+  )
+  if (anchored.length === 0) {
+    return fail(
+      'anchor_mismatch',
+      `Found ${hits.length} match(es), but none with the given textBefore/textAfter`,
+      hits,
+    )
+  }
+
+  let hit = anchored[0]
+  if (opts.occurrence != null) {
+    const picked = anchored[opts.occurrence - 1]
+    if (!picked) {
+      return fail(
+        'not_found',
+        `Occurrence ${opts.occurrence} requested, but there are only ${anchored.length} match(es)`,
+        anchored,
+      )
+    }
+    hit = picked
+  } else if (anchored.length > 1) {
+    return fail(
+      'ambiguous',
+      `Found ${anchored.length} matches; pass occurrence or textBefore/textAfter to pick one`,
+      anchored,
+    )
+  }
+
+  return {
+    ok: true,
+    from: projection.starts[map[hit.index]],
+    to: projection.ends[map[hit.index + hit.length - 1]],
+    similarity: Math.round(hit.similarity * 100) / 100,
+  }
+}
+
+// Insertion point after textBefore, or else before textAfter
+export function findInsertionPoint(doc: PMNode, opts: MatchOptions): MatchResult {
+  if (opts.textBefore) {
+    const match = findMatch(doc, opts.textBefore, { ...opts, textBefore: undefined })
+    return match.ok ? { ...match, from: match.to } : match
+  }
+  if (opts.textAfter) {
+    const match = findMatch(doc, opts.textAfter, { ...opts, textAfter: undefined })
+    return match.ok ? { ...match, to: match.from } : match
+  }
+  return {
+    ok: false,
+    reason: 'not_found',
+    message: 'An insertion needs textBefore or textAfter as an anchor',
+    candidates: [],
+  }
+}
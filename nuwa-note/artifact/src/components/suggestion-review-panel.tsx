@@ -0,0 +1,395 @@
+import { Check, ChevronDown, ChevronUp, X } from 'lucide-react';
+import type { Editor } from 'prosekit/core';
+import { TextSelection } from 'prosekit/pm/state';
+import { useEditor, useEditorDerivedValue } from 'prosekit/react';
+import type { Node as PMNode } from 'prosemirror-model';
+import { useEffect, useMemo, useRef, useState } from 'react';
+import type { EditorExtension } from './extension';
+import {
+  acceptSuggestionsById,
+  listSuggestions,
+  rejectSuggestionsById,
+  type SuggestionInfo,
+} from './suggestions';
+
+const ALL = '*';
+
+// Keyed on the document, so updates that only move the selection hand back
+// the same list and the panel does not re-render
+const suggestionsByDoc = new WeakMap<PMNode, SuggestionInfo[]>();
+
+function getSuggestions(editor: Editor<EditorExtension>) {
+  const doc = editor.state.doc;
+  let suggestions = suggestionsByDoc.get(doc);
+  if (!suggestions) {
+    suggestions = listSuggestions(doc);
+    suggestionsByDoc.set(doc, suggestions);
+  }
+  return suggestions;
+}
+
+const TYPE_LABELS: Record<SuggestionInfo['type'], string> = {
+  insert: 'Insertion',
+  delete: 'Deletion',
+  replace: 'Replacement',
+  move: 'Move',
+  format: 'Format change',
+};
+
+const TYPE_CLASSES: Record<SuggestionInfo['type'], string> = {
+  insert: 'bg-emerald-50 text-emerald-700 dark:bg-emerald-950/40 dark:text-emerald-300',
+  delete: 'bg-rose-50 text-rose-700 dark:bg-rose-950/40 dark:text-rose-300',
+  replace: 'bg-blue-50 text-blue-700 dark:bg-blue-950/40 dark:text-blue-300',
+  move: 'bg-violet-50 text-violet-700 dark:bg-violet-950/40 dark:text-violet-300',
+  format: 'bg-amber-50 text-amber-700 dark:bg-amber-950/40 dark:text-amber-300',
+};
+
+// Word diffs beyond this many tokens fall back to whole before/after text
+const MAX_DIFF_TOKENS = 400;
+
+type DiffPart = { text: string; kind: 'same' | 'deleted' | 'inserted' };
+
+// Word-level diff (longest common subsequence) of the replaced text
+function diffWords(before: string, after: string): DiffPart[] {
+  const a = before.split(/(\s+)/).filter(Boolean);
+  const b = after.split(/(\s+)/).filter(Boolean);
+  if (a.length > MAX_DIFF_TOKENS || b.length > MAX_DIFF_TOKENS) {
+    return [
+      { text: before, kind: 'deleted' },
+      { text: after, kind: 'inserted' },
+    ];
+  }
+  const lcs = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+  const parts: DiffPart[] = [];
+  const push = (text: string, kind: DiffPart['kind']) => {
+    const last = parts[parts.length - 1];
+    if (last && last.kind === kind) last.text += text;
+    else parts.push({ text, kind });
+  };
+  let i = 0;
+  let j = 0;
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && a[i] === b[j]) {
+      push(a[i++], 'same');
+      j++;
+    } else if (i < a.length && (j === b.length || lcs[i + 1][j] >= lcs[i][j + 1])) {
+      push(a[i++], 'deleted');
+    } else {
+      push(b[j++], 'inserted');
+    }
+  }
+  return parts;
+}
+
+function SuggestionDiff({ suggestion }: { suggestion: SuggestionInfo }) {
+  if (suggestion.type === 'format') {
+    return (
+      <div className="text-xs text-gray-600 dark:text-gray-300">
+        <span className="line-through decoration-rose-500">{suggestion.formatBefore}</span>
+        {' → '}
+        <span className="text-emerald-700 dark:text-emerald-300">{suggestion.formatAfter}</span>
+        <div className="mt-1 line-clamp-2 text-gray-800 dark:text-gray-200">{suggestion.inserted}</div>
+      </div>
+    );
+  }
+  const parts: DiffPart[] = suggestion.type === 'move'
+    ? [{ text: suggestion.inserted, kind: 'same' }]
+    : diffWords(suggestion.deleted, suggestion.inserted);
+  return (
+    <div className="whitespace-pre-wrap break-words text-sm leading-snug text-gray-800 dark:text-gray-200">
+      {parts.map((part, index) => (
+        <span
+          key={index}
+          className={
+            part.kind === 'deleted'
+              ? 'sg-delete'
+              : part.kind === 'inserted'
+                ? 'sg-insert'
+                : undefined
+          }
+        >
+          {part.text}
+        </span>
+      ))}
+    </div>
+  );
+}
+
+function Filter({
+  label,
+  value,
+  options,
+  onChange,
+}: {
+  label: string;
+  value: string;
+  options: Array<{ value: string; label: string }>;
+  onChange: (value: string) => void;
+}) {
+  return (
+    <label className="flex min-w-0 flex-1 flex-col gap-1 text-[11px] text-gray-500 dark:text-gray-400">
+      {label}
+      <select
+        className="rounded-md border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-900 px-2 py-1 text-xs text-gray-900 dark:text-gray-50"
+        value={value}
+        onChange={(event) => onChange(event.target.value)}
+      >
+        <option value={ALL}>All</option>
+        {options.map((option) => (
+          <option key={option.value} value={option.value}>
+            {option.label}
+          </option>
+        ))}
+      </select>
+    </label>
+  );
+}
+
+// Side panel listing every pending suggestion, like a track-changes pane.
+// Arrow keys (or j/k) move between items, a/r accept or reject the current
+// one; Alt+Arrow keys navigate from elsewhere on the page. Inside the
+// editor they keep joining blocks (joinUp/joinDown).
+export default function SuggestionReviewPanel({ onClose }: { onClose: () => void }) {
+  const editor = useEditor() as any;
+  const suggestions = useEditorDerivedValue(getSuggestions);
+  const [author, setAuthor] = useState(ALL);
+  const [category, setCategory] = useState(ALL);
+  const [activeId, setActiveId] = useState<string | null>(null);
+  const listRef = useRef<HTMLDivElement | null>(null);
+
+  const authors = useMemo(
+    () => [...new Set(suggestions.map((s) => s.user))].sort(),
+    [suggestions],
+  );
+  const categories = useMemo(
+    () => [...new Set(suggestions.map((s) => s.category))].sort(),
+    [suggestions],
+  );
+  const visible = suggestions.filter(
+    (s) => (author === ALL || s.user === author) && (category === ALL || s.category === category),
+  );
+  const activeIndex = visible.findIndex((s) => s.id === activeId);
+
+  const counts = suggestions.reduce<Partial<Record<SuggestionInfo['type'], number>>>((acc, s) => {
+    acc[s.type] = (acc[s.type] ?? 0) + 1;
+    return acc;
+  }, {});
+  const summary = (Object.keys(TYPE_LABELS) as SuggestionInfo['type'][])
+    .filter((type) => counts[type])
+    .map((type) => `${counts[type]} ${TYPE_LABELS[type].toLowerCase()}${counts[type]! > 1 ? 's' : ''}`)
+    .join(', ');
+
+  // Select a suggestion and scroll the document to it
+  const focusSuggestion = (s: SuggestionInfo | undefined) => {
+    if (!s) return;
+    setActiveId(s.id);
+    const view = editor.view;
+    const { doc } = view.state;
+    const pos = Math.min(s.from, doc.content.size);
+    view.dispatch(
+      view.state.tr.setSelection(TextSelection.near(doc.resolve(pos))).scrollIntoView(),
+    );
+  };
+
+  const step = (delta: number) => {
+    if (visible.length === 0) return;
+    const next = activeIndex < 0
+      ? (delta > 0 ? 0 : visible.length - 1)
+      : (activeIndex + delta + visible.length) % visible.length;
+    focusSuggestion(visible[next]);
+  };
+
+  // Resolve suggestions and keep the cursor on the item that takes their place
+  const resolve = (ids: string[], action: 'accept' | 'reject') => {
+    if (ids.length === 0) return;
+    const index = ids.length === 1 ? visible.findIndex((s) => s.id === ids[0]) : activeIndex;
+    const after = visible.slice(index + 1).find((s) => !ids.includes(s.id))
+      ?? visible.slice(0, Math.max(index, 0)).reverse().find((s) => !ids.includes(s.id));
+    editor.exec(action === 'accept' ? acceptSuggestionsById(ids) : rejectSuggestionsById(ids));
+    setActiveId(after?.id ?? null);
+  };
+
+  const onKeyDown = (event: React.KeyboardEvent) => {
+    if ((event.target as HTMLElement).tagName === 'SELECT') return;
+    const active = visible[activeIndex];
+    if (event.key === 'ArrowDown' || event.key === 'j') step(1);
+    else if (event.key === 'ArrowUp' || event.key === 'k') step(-1);
+    else if (event.key === 'a' && active) resolve([active.id], 'accept');
+    else if (event.key === 'r' && active) resolve([active.id], 'reject');
+    else if (event.key === 'Escape') onClose();
+    else return;
+    event.preventDefault();
+  };
+
+  // Alt+ArrowDown / Alt+ArrowUp anywhere in the page but the editor
+  useEffect(() => {
+    const onGlobalKeyDown = (event: KeyboardEvent) => {
+      if (!event.altKey || (event.key !== 'ArrowDown' && event.key !== 'ArrowUp')) return;
+      if (editor?.mounted && editor.view.dom.contains(event.target as Node)) return;
+      event.preventDefault();
+      step(event.key === 'ArrowDown' ? 1 : -1);
+    };
+    window.addEventListener('keydown', onGlobalKeyDown);
+    return () => window.removeEventListener('keydown', onGlobalKeyDown);
+  });
+
+  // Keep the active item in view
+  useEffect(() => {
+    if (!activeId) return;
+    listRef.current
+      ?.querySelector(`[data-review-id="${activeId}"]`)
+      ?.scrollIntoView({ block: 'nearest' });
+  }, [activeId]);
+
+  if (!editor) return null;
+
+  return (
+    <aside
+      className="flex w-80 shrink-0 flex-col border-l border-gray-200 dark:border-gray-800 bg-gray-50 dark:bg-gray-900 outline-hidden"
+      tabIndex={0}
+      onKeyDown={onKeyDown}
+      aria-label="Suggestion review"
+    >
+      <div className="flex items-start gap-2 border-b border-gray-200 dark:border-gray-800 px-4 py-3">
+        <div className="min-w-0 flex-1">
+          <div className="text-sm font-semibold">
+            {suggestions.length} pending suggestion{suggestions.length === 1 ? '' : 's'}
+          </div>
+          {summary ? (
+            <div className="text-xs text-gray-500 dark:text-gray-400">{summary}</div>
+          ) : null}
+        </div>
+        <button
+          type="button"
+          className="rounded-md p-1 hover:bg-gray-200 dark:hover:bg-gray-800"
+          onClick={() => step(-1)}
+          title="Previous (↑ / Alt+↑)"
+        >
+          <ChevronUp className="size-4" />
+        </button>
+        <button
+          type="button"
+          className="rounded-md p-1 hover:bg-gray-200 dark:hover:bg-gray-800"
+          onClick={() => step(1)}
+          title="Next (↓ / Alt+↓)"
+        >
+          <ChevronDown className="size-4" />
+        </button>
+        <button
+          type="button"
+          className="rounded-md p-1 hover:bg-gray-200 dark:hover:bg-gray-800"
+          onClick={onClose}
+          title="Close"
+        >
+          <X className="size-4" />
+        </button>
+      </div>
+
+      <div className="flex gap-2 border-b border-gray-200 dark:border-gray-800 px-4 py-2">
+        <Filter
+          label="Author"
+          value={author}
+          options={authors.map((a) => ({ value: a, label: a || 'Unknown' }))}
+          onChange={setAuthor}
+        />
+        <Filter
+          label="Category"
+          value={category}
+          options={categories.map((c) => ({ value: c, label: c || 'Uncategorized' }))}
+          onChange={setCategory}
+        />
+      </div>
+
+      <div className="flex items-center justify-between gap-2 px-4 py-2 text-xs text-gray-500 dark:text-gray-400">
+        <span>
+          {activeIndex >= 0 ? `${activeIndex + 1} of ${visible.length}` : `${visible.length} shown`}
+        </span>
+        <div className="flex gap-2">
+          <button
+            type="button"
+            disabled={visible.length === 0}
+            className="inline-flex items-center gap-1 rounded-md bg-emerald-600 hover:bg-emerald-700 disabled:opacity-50 text-white px-2 py-1"
+            onClick={() => resolve(visible.map((s) => s.id), 'accept')}
+          >
+            <Check className="size-3" /> Accept shown
+          </button>
+          <button
+            type="button"
+            disabled={visible.length === 0}
+            className="inline-flex items-center gap-1 rounded-md bg-rose-600 hover:bg-rose-700 disabled:opacity-50 text-white px-2 py-1"
+            onClick={() => resolve(visible.map((s) => s.id), 'reject')}
+          >
+            <X className="size-3" /> Reject shown
+          </button>
+        </div>
+      </div>
+
+      <div ref={listRef} className="flex-1 overflow-y-auto px-4 pb-4">
+        {visible.length === 0 ? (
+          <div className="py-8 text-center text-sm text-gray-500 dark:text-gray-400">
+            No pending suggestions
+          </div>
+        ) : null}
+        {visible.map((s) => (
+          <div
+            key={s.id}
+            data-review-id={s.id}
+            className={
+              'mb-2 cursor-pointer rounded-md border bg-white dark:bg-gray-950 p-3 ' +
+              (s.id === activeId
+                ? 'border-blue-500 ring-1 ring-blue-500'
+                : 'border-gray-200 dark:border-gray-800 hover:border-gray-300 dark:hover:border-gray-700')
+            }
+            onClick={() => focusSuggestion(s)}
+          >
+            <div className="mb-2 flex flex-wrap items-center gap-1.5 text-[11px]">
+              <span className={`rounded-full px-2 py-0.5 font-medium ${TYPE_CLASSES[s.type]}`}>
+                {TYPE_LABELS[s.type]}
+              </span>
+              {s.category ? (
+                <span className="rounded-full bg-gray-100 dark:bg-gray-800 px-2 py-0.5 text-gray-700 dark:text-gray-300">
+                  {s.category}
+                </span>
+              ) : null}
+              <span className="ml-auto text-gray-500 dark:text-gray-400">
+                {s.user || 'Unknown'}
+                {s.ts ? ` · ${new Date(s.ts).toLocaleString()}` : ''}
+              </span>
+            </div>
+            <SuggestionDiff suggestion={s} />
+            {s.reason ? (
+              <div className="mt-2 text-xs text-gray-600 dark:text-gray-400">{s.reason}</div>
+            ) : null}
+            <div className="mt-2 flex gap-2">
+              <button
+                type="button"
+                className="inline-flex items-center gap-1 rounded-md bg-emerald-600 hover:bg-emerald-700 text-white text-xs px-2 py-1"
+                onClick={(event) => {
+                  event.stopPropagation();
+                  resolve([s.id], 'accept');
+                }}
+              >
+                <Check className="size-3" /> Accept
+              </button>
+              <button
+                type="button"
+                className="inline-flex items-center gap-1 rounded-md bg-rose-600 hover:bg-rose-700 text-white text-xs px-2 py-1"
+                onClick={(event) => {
+                  event.stopPropagation();
+                  resolve([s.id], 'reject');
+                }}
+              >
+                <X className="size-3" /> Reject
+              </button>
+            </div>
+          </div>
+        ))}
+      </div>
+    </aside>
+  );
+}
@@ -1,10 +1,18 @@
 // Avoid importing prosemirror types to keep deps minimal; use 'any' where needed.
 import { Fragment, type Mark, type MarkSpec, type Node as PMNode, Slice } from 'prosemirror-model'
+import { resolveBlockSuggestions } from './block-suggestions'
+import { sliceFromMarkdown } from './markdown'
+import {
+  findInsertionPoint,
+  findMatch,
+  type MatchCandidate,
+  type MatchFailure,
+} from './suggestion-match'
 
 // Mark specs for AI suggestions. Inline-only; inclusive false to avoid mark creep.
 export const suggestionMarks: Record<string, MarkSpec> = {
   suggestion_insert: {
-    attrs: { id: {}, user: {}, reason: {}, ts: {}, source: { default: 'ai' } },
+    attrs: { id: {}, user: {}, reason: {}, ts: {}, source: { default: 'ai' }, category: { default: '' } },
     inclusive: false,
     excludes: '',
     parseDOM: [
@@ -16,11 +24,12 @@ export const suggestionMarks: Record<string, MarkSpec> = {
           reason: dom.getAttribute('data-reason') || undefined,
           ts: dom.getAttribute('data-ts') || undefined,
           source: dom.getAttribute('data-source') || 'ai',
+          category: dom.getAttribute('data-category') || '',
         }),
       },
     ],
     toDOM(mark) {
-      const { id, user, reason, ts, source } = mark.attrs
+      const { id, user, reason, ts, source, category } = mark.attrs
       return [
         'span',
         {
@@ -30,6 +39,7 @@ export const suggestionMarks: Record<string, MarkSpec> = {
           'data-reason': reason,
           'data-ts': ts,
           'data-source': source,
+          'data-category': category,
           class: 'sg-insert',
         },
         0,
@@ -37,7 +47,7 @@ export const suggestionMarks: Record<string, MarkSpec> = {
     },
   },
   suggestion_delete: {
-    attrs: { id: {}, user: {}, reason: {}, ts: {}, source: { default: 'ai' } },
+    attrs: { id: {}, user: {}, reason: {}, ts: {}, source: { default: 'ai' }, category: { default: '' } },
     inclusive: false,
     excludes: '',
     parseDOM: [
@@ -49,11 +59,12 @@ export const suggestionMarks: Record<string, MarkSpec> = {
           reason: dom.getAttribute('data-reason') || undefined,
           ts: dom.getAttribute('data-ts') || undefined,
           source: dom.getAttribute('data-source') || 'ai',
+          category: dom.getAttribute('data-category') || '',
         }),
       },
     ],
     toDOM(mark) {
-      const { id, user, reason, ts, source } = mark.attrs
+      const { id, user, reason, ts, source, category } = mark.attrs
       return [
         'span',
         {
@@ -63,6 +74,7 @@ export const suggestionMarks: Record<string, MarkSpec> = {
           'data-reason': reason,
           'data-ts': ts,
           'data-source': source,
+          'data-category': category,
           class: 'sg-delete',
         },
         0,
@@ -91,230 +103,162 @@ function addMarkToSlice(slice: Slice, mark: Mark): Slice {
   return new Slice(addMarkToFragment(slice.content, mark), slice.openStart, slice.openEnd)
 }
 
-// Find ranges for a given mark type across the document
-function findMarkRanges(doc: PMNode, markType: any) {
-  const ranges: Array<{ from: number; to: number }> = []
+// Find ranges for a given mark type across the document, optionally only
+// those of one suggestion id
+function findMarkRanges(doc: PMNode, markType: any, id?: string) {
+  const ranges: Array<{ from: number; to: number; id: string }> = []
   doc.descendants((node, pos) => {
-    if (node.isText && node.marks.some((m) => m.type === markType)) {
-      ranges.push({ from: pos, to: pos + node.text!.length })
-    }
-  })
-  return ranges
-}
-
-// Find ranges for a given mark type and id
-function findMarkRangesById(doc: PMNode, markType: any, id: string) {
-  const ranges: Array<{ from: number; to: number }> = []
-  doc.descendants((node, pos) => {
-    if (node.isText) {
-      const has = node.marks.some((m) => m.type === markType && m.attrs && m.attrs.id === id)
-      if (has) {
-        ranges.push({ from: pos, to: pos + (node.text?.length || 0) })
-      }
-    }
+    if (!node.isText) return true
+    const mark = node.marks.find((m) => m.type === markType && (id == null || m.attrs.id === id))
+    if (mark) ranges.push({ from: pos, to: pos + (node.text?.length || 0), id: mark.attrs.id })
+    return true
   })
   return ranges
 }
 
-// true if document currently has any suggestion marks
-export function hasSuggestionsInDoc(doc: PMNode) {
-  let found = false
+// Number of pending suggestions (distinct ids, inline and block)
+export function countSuggestions(doc: PMNode) {
+  const ids = new Set<string>()
   doc.descendants((node) => {
+    const block = node.attrs?.suggestion
+    if (block) ids.add(block.id)
     if (!node.isText) return true
-    if (
-      node.marks.some(
-        (m) => m.type.name === 'suggestion_insert' || m.type.name === 'suggestion_delete',
-      )
-    ) {
-      found = true
-      return false
+    for (const mark of node.marks) {
+      const kind = mark.type.name
+      if (kind === 'suggestion_insert' || kind === 'suggestion_delete') ids.add(mark.attrs.id)
     }
     return true
   })
-  return found
+  return ids.size
 }
 
-// Map a character offset within a textblock to an absolute document position.
-function blockOffsetToPos(block: PMNode, blockPos: number, charOffset: number): number | null {
-  let accumChars = 0
-  let pos = blockPos + 1 // first child starts at blockPos + 1
-  for (let i = 0; i < block.childCount; i++) {
-    const child = block.child(i)
-    const childStart = pos
-    if (child.isText) {
-      const len = child.text?.length ?? 0
-      const endChars = accumChars + len
-      if (charOffset <= endChars) {
-        // inside this text node
-        return childStart + (charOffset - accumChars)
-      }
-      accumChars = endChars
-      pos += child.nodeSize
-      continue
-    }
-    // Inline hard_break contributes one char to textContent
-    if (child.type && child.type.name === 'hard_break') {
-      const endChars = accumChars + 1
-      if (charOffset < endChars) {
-        return childStart // position at the break
-      }
-      accumChars = endChars
-      pos += child.nodeSize
-      continue
-    }
-    // Other inline nodes: advance pos but do not contribute characters
-    pos += child.nodeSize
+// Markdown replacement as a slice. Paragraphs at either end are left open so
+// their text joins the surrounding block; other blocks stay whole. Spaces
+// around the markdown, which the parser drops, are kept on open paragraphs.
+function replacementSlice(schema: any, markdown: string): Slice {
+  let { content } = sliceFromMarkdown(schema, markdown)
+  if (content.childCount === 0) return Slice.empty
+  const isOpen = (node: PMNode | null) => node?.type.name === 'paragraph'
+  const lead = /^[ \t]+/.test(markdown) ? ' ' : ''
+  const trail = /[ \t]+$/.test(markdown) ? ' ' : ''
+  const pad = (node: PMNode, before: string, after: string) => {
+    let inner = node.content
+    if (before) inner = Fragment.from(schema.text(before)).append(inner)
+    if (after) inner = inner.append(Fragment.from(schema.text(after)))
+    return node.copy(inner)
   }
-  // If offset is exactly after the last character
-  if (charOffset === accumChars) return pos
-  return null
-}
-
-// Search within textblocks for the first occurrence of textToReplace that matches optional anchors
-function findRangeInDoc(
-  doc: PMNode,
-  opts: {
-    textToReplace: string
-    textBefore?: string
-    textAfter?: string
-  },
-): { from: number; to: number } | null {
-  let found: { from: number; to: number } | null = null
-  doc.descendants((node, pos) => {
-    if (found) return false
-    if (!node.isTextblock) return true
-    const content = node.textContent || ''
-    if (!content) return true
-
-    const { textToReplace, textBefore, textAfter } = opts
-    if (!textToReplace) return true
-
-    let startIndex = 0
-    while (startIndex <= content.length) {
-      const idx = content.indexOf(textToReplace, startIndex)
-      if (idx < 0) break
-      const beforeOK = textBefore ? content.slice(0, idx).endsWith(textBefore) : true
-      const afterOK = textAfter
-        ? content.slice(idx + textToReplace.length).startsWith(textAfter)
-        : true
-      if (beforeOK && afterOK) {
-        const from = blockOffsetToPos(node, pos, idx)
-        const to = blockOffsetToPos(node, pos, idx + textToReplace.length)
-        if (from != null && to != null) {
-          found = { from, to }
-          return false
-        }
-      }
-      startIndex = idx + 1
-    }
-    return true
-  })
-  return found
+  const first = content.firstChild!
+  const last = content.lastChild!
+  if (content.childCount === 1) {
+    if (isOpen(first)) content = Fragment.from(pad(first, lead, trail))
+  } else {
+    if (isOpen(first) && lead) content = content.replaceChild(0, pad(first, lead, ''))
+    if (isOpen(last) && trail) content = content.replaceChild(content.childCount - 1, pad(last, '', trail))
+  }
+  return new Slice(content, isOpen(first) ? 1 : 0, isOpen(last) ? 1 : 0)
 }
 
-// Find an insertion position based on anchors. Prefers the first match.
-function findInsertionPos(
-  doc: PMNode,
-  opts: { textBefore?: string; textAfter?: string },
-): number | null {
-  let found: number | null = null
-  doc.descendants((node, pos) => {
-    if (found != null) return false
-    if (!node.isTextblock) return true
-    const content = node.textContent || ''
-    const { textBefore, textAfter } = opts
-    if (textBefore) {
-      const idx = content.indexOf(textBefore)
-      if (idx >= 0) {
-        const end = idx + textBefore.length
-        const p = blockOffsetToPos(node, pos, end)
-        if (p != null) {
-          found = p
-          return false
-        }
-      }
-    } else if (textAfter) {
-      const idx = content.indexOf(textAfter)
-      if (idx >= 0) {
-        const p = blockOffsetToPos(node, pos, idx)
-        if (p != null) {
-          found = p
-          return false
-        }
-      }
+// Merge ranges of one suggestion that are only split by block boundaries, so
+// deleting them joins the blocks again
+function mergeRanges(doc: PMNode, ranges: Array<{ from: number; to: number }>) {
+  const merged: Array<{ from: number; to: number }> = []
+  for (const r of [...ranges].sort((a, b) => a.from - b.from)) {
+    const last = merged[merged.length - 1]
+    if (last && r.from >= last.to && doc.textBetween(last.to, r.from) === '') {
+      last.to = Math.max(last.to, r.to)
+    } else {
+      merged.push({ ...r })
     }
-    return true
-  })
-  return found
+  }
+  return merged
 }
 
 export type ApplySuggestionInput = {
   textToReplace: string
+  // Markdown; inline formatting and blocks are kept
   textReplacement: string
   reason?: string
   textBefore?: string
   textAfter?: string
+  // 1-based occurrence when the text appears more than once
+  occurrence?: number
+  // Kind of edit for filtering, e.g. 'grammar' or 'rewrite'
+  category?: string
 }
 
+export type ApplySuggestionResult =
+  | { ok: true; id: string; similarity: number }
+  | {
+      ok: false
+      reason: MatchFailure | 'invalid'
+      message: string
+      candidates: MatchCandidate[]
+    }
+
 // Apply a single AI suggestion: mark deletion and insertion in one transaction.
-export function applySuggestion(view: any, s: ApplySuggestionInput, user = 'AI') {
+// The replaced text stays in place with a deletion mark and the replacement
+// goes right after it, so either can be dropped without touching the other.
+export function applySuggestion(
+  view: any,
+  s: ApplySuggestionInput,
+  user = 'AI',
+  fuzzyThreshold?: number,
+): ApplySuggestionResult {
   const { state, dispatch } = view
   const { schema } = state
-  const isInsertOnly = (s.textToReplace ?? '').length === 0 && (s.textReplacement ?? '').length > 0
-  const isDeleteOnly = (s.textToReplace ?? '').length > 0 && (s.textReplacement ?? '').length === 0
-  const isReplace = (s.textToReplace ?? '').length > 0 && (s.textReplacement ?? '').length > 0
-
-  let from = 0
-  let to = 0
-  if (isInsertOnly) {
-    const pos = findInsertionPos(state.doc, s)
-    if (pos == null) return false
-    from = pos
-    to = pos
-  } else {
-    const range = findRangeInDoc(state.doc, s)
-    if (!range) return false
-    from = range.from
-    to = range.to
+  const isInsertOnly = (s.textToReplace ?? '').length === 0
+  if (isInsertOnly && (s.textReplacement ?? '').length === 0) {
+    return { ok: false, reason: 'invalid', message: 'textToReplace and textReplacement are both empty', candidates: [] }
   }
 
+  const opts = { textBefore: s.textBefore, textAfter: s.textAfter, occurrence: s.occurrence, fuzzyThreshold }
+  const match = isInsertOnly
+    ? findInsertionPoint(state.doc, opts)
+    : findMatch(state.doc, s.textToReplace, opts)
+  if (!match.ok) return match
+  const { from, to } = match
+
   const id = `sg-${Date.now().toString(36)}-${Math.floor(Math.random() * 1e6)}`
   const ts = Date.now()
-  const insMark = schema.marks.suggestion_insert.create({ id, user, reason: s.reason ?? '', ts, source: 'ai' })
-  const delMark = schema.marks.suggestion_delete.create({ id, user, reason: s.reason ?? '', ts, source: 'ai' })
+  const attrs = { id, user, reason: s.reason ?? '', ts, source: 'ai', category: s.category ?? '' }
+  const insMark = schema.marks.suggestion_insert.create(attrs)
+  const delMark = schema.marks.suggestion_delete.create(attrs)
 
-  // Build marked insertion slice (inline-only for v1); may be empty
-  let markedInsert: Slice | null = null
-  if ((s.textReplacement ?? '') !== '') {
-    const insertNode = schema.text(s.textReplacement)
-    const insertSlice = new Slice(Fragment.from(insertNode), 0, 0)
-    markedInsert = addMarkToSlice(insertSlice, insMark)
+  // Build marked insertion slice; may be empty
+  const markedInsert = (s.textReplacement ?? '') !== ''
+    ? addMarkToSlice(replacementSlice(schema, s.textReplacement), insMark)
+    : Slice.empty
+  if (isInsertOnly && markedInsert.size === 0) {
+    return { ok: false, reason: 'invalid', message: 'textReplacement has no content', candidates: [] }
   }
 
-  // Build marked deletion slice
-  const removedSlice = state.doc.slice(from, to)
-  const markedDelete = (to > from) ? addMarkToSlice(removedSlice, delMark) : null
-
   let tr = state.tr
-  if (isInsertOnly && markedInsert) {
-    tr = tr.insert(from, markedInsert.content)
-  } else if (isDeleteOnly) {
-    // Remove original, then re-insert marked deletion to visualize
-    tr = tr.replaceRange(from, to, Slice.empty)
-    const start = tr.mapping.map(from)
-    if (markedDelete) tr = tr.insert(start, markedDelete.content)
-  } else {
-    // Replace: insert marked insert, and show marked delete just before
-    if (!markedInsert) return false
-    tr = tr.replaceRange(from, to, markedInsert)
-    const start = tr.mapping.map(from)
-    if (markedDelete) tr = tr.insert(start, markedDelete.content)
-  }
+  if (to > from) tr = tr.addMark(from, to, delMark)
+  if (markedInsert.size > 0) tr = tr.replace(to, to, markedInsert)
   tr = tr.setMeta('aiSuggestion', true).setMeta('addToHistory', true)
 
   dispatch(tr)
   view.focus()
-  return true
+  return { ok: true, id, similarity: match.similarity }
+}
+
+// Ranges of a mark type grouped by suggestion id; a suggestion's ranges are
+// merged across the block boundaries it spans
+function rangesById(doc: PMNode, markType: any, id?: string) {
+  const groups = new Map<string, Array<{ from: number; to: number }>>()
+  for (const r of findMarkRanges(doc, markType, id)) {
+    const list = groups.get(r.id) ?? []
+    list.push(r)
+    groups.set(r.id, list)
+  }
+  return [...groups.values()].flatMap((ranges) => mergeRanges(doc, ranges))
+}
+
+// Remove marked content right to left, joining blocks a range spans
+function deleteMarked(tr: any, doc: PMNode, markType: any, id?: string) {
+  const ranges = rangesById(doc, markType, id).sort((a, b) => b.from - a.from)
+  for (const r of ranges) tr = tr.delete(r.from, r.to)
+  return tr
 }
 
 // Accept all suggestions: keep insertions, delete deletions
@@ -327,14 +271,10 @@ export const acceptAllSuggestions = (state: any, dispatch?: (tr: any) => void) =
   let tr = state.tr
 
   // Drop insert marks
-  for (const r of findMarkRanges(state.doc, ins)) {
-    tr = tr.removeMark(r.from, r.to, ins)
-  }
-  // Delete all delete-marked content (right-to-left)
-  const delRanges = findMarkRanges(state.doc, del).sort((a, b) => b.from - a.from)
-  for (const r of delRanges) {
-    tr = tr.delete(r.from, r.to)
-  }
+  tr = tr.removeMark(0, state.doc.content.size, ins)
+  // Delete all delete-marked content
+  tr = deleteMarked(tr, tr.doc, del)
+  tr = resolveBlockSuggestions(tr, 'accept')
   dispatch(tr.setMeta('aiSuggestionResolve', { action: 'acceptAll' }))
   return true
 }
@@ -348,49 +288,148 @@ export const rejectAllSuggestions = (state: any, dispatch?: (tr: any) => void) =
   if (!dispatch) return true
   let tr = state.tr
 
-  // Delete insert-marked content (right-to-left)
-  const insRanges = findMarkRanges(state.doc, ins).sort((a, b) => b.from - a.from)
-  for (const r of insRanges) {
-    tr = tr.delete(r.from, r.to)
-  }
+  // Delete insert-marked content
+  tr = deleteMarked(tr, state.doc, ins)
   // Drop delete marks
-  for (const r of findMarkRanges(state.doc, del)) {
-    tr = tr.removeMark(r.from, r.to, del)
-  }
+  tr = tr.removeMark(0, tr.doc.content.size, del)
+  tr = resolveBlockSuggestions(tr, 'reject')
   dispatch(tr.setMeta('aiSuggestionResolve', { action: 'rejectAll' }))
   return true
 }
 
-// Accept a single suggestion by id (keep insert text, remove delete text)
-export function acceptSuggestionById(id: string) {
+// Accept or reject the suggestions with the given ids in one transaction
+function resolveSuggestionsById(ids: string[], action: 'accept' | 'reject', meta: object) {
   return (state: any, dispatch?: (tr: any) => void) => {
     const ins = state.schema.marks.suggestion_insert
     const del = state.schema.marks.suggestion_delete
     if (!ins || !del) return false
     if (!dispatch) return true
     let tr = state.tr
-    for (const r of findMarkRangesById(state.doc, ins, id)) {
-      tr = tr.removeMark(r.from, r.to, ins)
+    for (const id of ids) {
+      const [keep, drop] = action === 'accept' ? [ins, del] : [del, ins]
+      for (const r of findMarkRanges(tr.doc, keep, id)) tr = tr.removeMark(r.from, r.to, keep)
+      tr = deleteMarked(tr, tr.doc, drop, id)
+      tr = resolveBlockSuggestions(tr, action, id)
     }
-    const delRanges = findMarkRangesById(state.doc, del, id).sort((a, b) => b.from - a.from)
-    for (const r of delRanges) tr = tr.delete(r.from, r.to)
-    dispatch(tr.setMeta('aiSuggestionResolve', { id, action: 'accept' }))
+    dispatch(tr.setMeta('aiSuggestionResolve', meta))
     return true
   }
 }
 
-// Reject a single suggestion by id (remove insert text, keep delete text)
+// Accept a single suggestion by id (keep insert text, remove delete text and
+// apply the block change)
+export function acceptSuggestionById(id: string) {
+  return resolveSuggestionsById([id], 'accept', { id, action: 'accept' })
+}
+
+// Reject a single suggestion by id (remove insert text, keep delete text and
+// undo the block change)
 export function rejectSuggestionById(id: string) {
-  return (state: any, dispatch?: (tr: any) => void) => {
-    const ins = state.schema.marks.suggestion_insert
-    const del = state.schema.marks.suggestion_delete
-    if (!ins || !del) return false
-    if (!dispatch) return true
-    let tr = state.tr
-    const insRanges = findMarkRangesById(state.doc, ins, id).sort((a, b) => b.from - a.from)
-    for (const r of insRanges) tr = tr.delete(r.from, r.to)
-    for (const r of findMarkRangesById(state.doc, del, id)) tr = tr.removeMark(r.from, r.to, del)
-    dispatch(tr.setMeta('aiSuggestionResolve', { id, action: 'reject' }))
-    return true
+  return resolveSuggestionsById([id], 'reject', { id, action: 'reject' })
+}
+
+export function acceptSuggestionsById(ids: string[]) {
+  return resolveSuggestionsById(ids, 'accept', { ids, action: 'accept' })
+}
+
+export function rejectSuggestionsById(ids: string[]) {
+  return resolveSuggestionsById(ids, 'reject', { ids, action: 'reject' })
+}
+
+// A pending suggestion as shown to the agent and in the review panel
+export type SuggestionInfo = {
+  id: string
+  type: 'insert' | 'delete' | 'replace' | 'move' | 'format'
+  category: string
+  reason: string
+  user: string
+  source: string
+  ts: number
+  // Text the suggestion removes and adds
+  deleted: string
+  inserted: string
+  // Block type before and after a format change, e.g. 'paragraph' -> 'heading 2'
+  formatBefore?: string
+  formatAfter?: string
+  // Document range of its first part, for scrolling to it
+  from: number
+  to: number
+}
+
+function blockLabel(type: string, attrs: Record<string, any>) {
+  if (type === 'heading') return `heading ${attrs.level}`
+  if (type === 'list') return `${attrs.kind} list`
+  if (type === 'codeBlock' && attrs.language) return `codeBlock (${attrs.language})`
+  return type
+}
+
+// Pending suggestions in document order, one entry per id
+export function listSuggestions(doc: PMNode): SuggestionInfo[] {
+  const byId = new Map<string, SuggestionInfo>()
+  const entry = (attrs: Record<string, any>, from: number, to: number) => {
+    let info = byId.get(attrs.id)
+    if (!info) {
+      info = {
+        id: attrs.id,
+        type: 'insert',
+        category: attrs.category ?? '',
+        reason: attrs.reason ?? '',
+        user: attrs.user ?? '',
+        source: attrs.source ?? 'ai',
+        ts: Number(attrs.ts) || 0,
+        deleted: '',
+        inserted: '',
+        from,
+        to,
+      }
+      byId.set(attrs.id, info)
+    }
+    return info
   }
+  // Text of one id's parts in separate blocks is joined with a line break
+  const append = (text: string, part: string, newBlock: boolean) =>
+    text && newBlock ? `${text}\n${part}` : text + part
+
+  let lastBlock = -1
+  const lastBlockOf = new Map<string, number>()
+  doc.descendants((node, pos) => {
+    if (node.isTextblock) lastBlock = pos
+    const block = node.attrs?.suggestion
+    if (block) {
+      const info = entry(block, pos, pos + node.nodeSize)
+      const text = node.textContent
+      if (block.kind === 'insert') {
+        info.inserted = append(info.inserted, text, true)
+      } else if (block.kind === 'delete') {
+        info.type = 'delete'
+        info.deleted = append(info.deleted, text, true)
+      } else if (block.kind === 'format') {
+        info.type = 'format'
+        info.deleted = info.inserted = text
+        const prev = block.previous
+        if (prev) info.formatBefore = blockLabel(prev.type, prev.attrs)
+        info.formatAfter = blockLabel(node.type.name, node.attrs)
+      } else {
+        info.type = 'move'
+        info.deleted = info.inserted = text
+      }
+      return true
+    }
+    if (!node.isText) return true
+    for (const mark of node.marks) {
+      const kind = mark.type.name
+      if (kind !== 'suggestion_insert' && kind !== 'suggestion_delete') continue
+      const info = entry(mark.attrs, pos, pos + node.nodeSize)
+      const newBlock = lastBlockOf.get(info.id) !== lastBlock
+      lastBlockOf.set(info.id, lastBlock)
+      if (kind === 'suggestion_insert') {
+        info.inserted = append(info.inserted, node.text ?? '', newBlock && info.inserted !== '')
+      } else {
+        info.deleted = append(info.deleted, node.text ?? '', newBlock && info.deleted !== '')
+      }
+      info.type = info.inserted && info.deleted ? 'replace' : info.deleted ? 'delete' : 'insert'
+    }
+    return true
+  })
+  return [...byId.values()]
 }
@@ -3,9 +3,18 @@ import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { type NuwaClient, useNuwaMCP } from "@nuwa-ai/ui-kit";
 import type { Editor } from "prosekit/core";
 import { z } from "zod";
+import { applyBlockSuggestion } from "../components/block-suggestions";
 import type { EditorExtension } from "../components/extension";
 import { htmlFromMarkdown, markdownFromHTML } from "../components/markdown";
-import { applySuggestion } from "../components/suggestions";
+import { DEFAULT_FUZZY_THRESHOLD } from "../components/suggestion-match";
+import {
+	type ApplySuggestionInput,
+	acceptSuggestionsById,
+	applySuggestion,
+	listSuggestions,
+	rejectSuggestionsById,
+	type SuggestionInfo,
+} from "../components/suggestions";
 
 export const useNoteMCP = (
 	editor: Editor<EditorExtension>,
@@ -39,7 +48,7 @@ export const useNoteMCP = (
 		{
 			title: "Edit Content (Suggestions)",
 			description:
-				'Propose edits as suggestion marks so the user can accept or reject them. Use empty strings to express pure insert/delete: set textToReplace="" with anchors to insert only, or set textReplacement="" to delete only. Applies one or more text suggestions.',
+				'Propose edits as suggestion marks so the user can accept or reject them. Use empty strings to express pure insert/delete: set textToReplace="" with anchors to insert only, or set textReplacement="" to delete only. Text may span several paragraphs, and replacements are Markdown, so formatting and new blocks are kept. Matching ignores whitespace and quote style and falls back to fuzzy matching. Returns a result per suggestion; failed ones carry a reason (not_found, ambiguous, anchor_mismatch) and candidate matches whose text and context can be used to retry.',
 			inputSchema: {
 				suggestions: z
 					.array(
@@ -47,16 +56,22 @@ export const useNoteMCP = (
 							textToReplace: z
 								.string()
 								.describe(
-									"Plaintext to replace. For pure insert, set to empty string and provide textBefore or textAfter as an anchor.",
+									"Text to replace, as plaintext or as copied from get_markdown_content. May span paragraphs (separate them with a line break). For pure insert, set to empty string and provide textBefore or textAfter as an anchor.",
 								),
 							textReplacement: z
 								.string()
 								.describe(
-									"The new text to insert. For pure delete, set to empty string.",
+									"The new content as Markdown (bold, links, code, and blank-line-separated paragraphs or headings). For pure delete, set to empty string.",
 								),
 							reason: z
 								.string()
 								.describe("Optional reason/annotation for the suggestion."),
+							category: z
+								.string()
+								.describe(
+									"Optional kind of edit, used to filter and resolve suggestions in bulk: e.g. grammar, spelling, style, clarity, rewrite, structure.",
+								)
+								.optional(),
 							textBefore: z
 								.string()
 								.describe(
@@ -67,23 +82,33 @@ export const useNoteMCP = (
 								.describe(
 									"Optional context that must appear immediately after textToReplace to qualify as a match.",
 								),
+							occurrence: z
+								.number()
+								.int()
+								.min(1)
+								.describe(
+									"Which match to use (1 = first) when the text appears more than once. Without it, several matches fail as ambiguous.",
+								)
+								.optional(),
 						}),
 					)
 					.describe(
 						"List of text suggestions to apply; each becomes a suggestion mark that the user can accept or reject.",
 					)
 					.optional(),
+				fuzzyThreshold: z
+					.number()
+					.min(0)
+					.max(1)
+					.describe(
+						`Minimum similarity (0-1) for a fuzzy match when the exact text is not found. Defaults to ${DEFAULT_FUZZY_THRESHOLD}; 1 allows exact matches only.`,
+					)
+					.optional(),
 			},
 		},
-		async ({ suggestions }) => {
+		async ({ suggestions, fuzzyThreshold }) => {
 			const view = editor.view;
-			const list = [] as Array<{
-				textToReplace: string;
-				textReplacement: string;
-				reason?: string;
-				textBefore?: string;
-				textAfter?: string;
-			}>;
+			const list = [] as ApplySuggestionInput[];
 			if (Array.isArray(suggestions)) list.push(...suggestions);
 
 			if (list.length === 0) {
@@ -101,20 +126,139 @@ export const useNoteMCP = (
 				};
 			}
 
-			let applied = 0;
-			for (const s of list) {
-				const ok = applySuggestion(view, s, "AI");
-				if (ok) applied += 1;
-			}
+			const results = list.map((s, index) => {
+				const result = applySuggestion(view, s, "AI", fuzzyThreshold);
+				if (result.ok) {
+					return {
+						index,
+						id: result.id,
+						status: "applied",
+						...(result.similarity < 1
+							? { match: "fuzzy", similarity: result.similarity }
+							: {}),
+					};
+				}
+				return {
+					index,
+					status: "failed",
+					reason: result.reason,
+					message: result.message,
+					candidates: result.candidates,
+				};
+			});
+			const applied = results.filter((r) => r.status === "applied").length;
+			const success = applied > 0;
+			const message = success
+				? { success, applied, results }
+				: { success, applied, reason: "No suggestions applied", results };
+			return { content: [{ type: "text", text: JSON.stringify(message) }] };
+		},
+	);
+
+	// Tool 3: Edit Structure (Block Suggestions)
+	const blockTarget = z.object({
+		text: z
+			.string()
+			.describe(
+				"Text contained in the block (whitespace-insensitive). Empty matches any block of the given type.",
+			),
+		type: z
+			.enum([
+				"paragraph",
+				"heading",
+				"list",
+				"blockquote",
+				"codeBlock",
+				"horizontalRule",
+				"image",
+				"table",
+				"tableRow",
+			])
+			.describe(
+				"Optional node type of the block. Without it the innermost block containing the text is used.",
+			)
+			.optional(),
+	});
+	server.registerTool(
+		"edit_structure",
+		{
+			title: "Edit Structure (Block Suggestions)",
+			description:
+				"Propose block-level changes as suggestions the user can accept or reject: insert blocks (headings, paragraphs, list items, table rows, code blocks), delete a block, move a block, change a block's type, or change its attributes. A list item or table row inserted next to text inside a list or table goes next to its item or row. Returns a result per change with the suggestion id.",
+			inputSchema: {
+				changes: z
+					.array(
+						z.object({
+							action: z
+								.enum(["insert", "delete", "move", "change_type", "set_attrs"])
+								.describe(
+									"insert: add markdown blocks next to target (or at the end without one); delete: remove target; move: move target next to destination; change_type: turn target into another text block type; set_attrs: change target's attributes.",
+								),
+							target: blockTarget
+								.describe(
+									"Block to change, or the block to insert next to. Required except for insert at the end.",
+								)
+								.optional(),
+							position: z
+								.enum(["before", "after"])
+								.describe(
+									"Insert/move before or after the target/destination block. Defaults to after.",
+								)
+								.optional(),
+							destination: blockTarget
+								.describe("For move: the block to move the target next to.")
+								.optional(),
+							markdown: z
+								.string()
+								.describe(
+									"For insert: markdown of the new blocks, e.g. '## Summary' or '- item'. Next to a tableRow target, a single '| a | b |' line adds a row.",
+								)
+								.optional(),
+							type: z
+								.enum(["paragraph", "heading", "codeBlock"])
+								.describe("For change_type: the new block type.")
+								.optional(),
+							attrs: z
+								.record(z.unknown())
+								.describe(
+									"For change_type and set_attrs: node attributes, e.g. { level: 2 } for headings, { kind: 'ordered' } for lists, { language: 'ts' } for code blocks.",
+								)
+								.optional(),
+							reason: z
+								.string()
+								.describe("Optional reason/annotation for the suggestion.")
+								.optional(),
+							category: z
+								.string()
+								.describe(
+									"Optional kind of edit, used to filter and resolve suggestions in bulk: e.g. grammar, spelling, style, clarity, rewrite, structure.",
+								)
+								.optional(),
+						}),
+					)
+					.describe(
+						"List of structural changes; each becomes a block suggestion that the user can accept or reject.",
+					),
+			},
+		},
+		async ({ changes }) => {
+			const view = editor.view;
+			const results = changes.map((change, index) => {
+				const id = applyBlockSuggestion(view, change, "AI");
+				return id
+					? { index, id, status: "applied" }
+					: { index, status: "failed" };
+			});
+			const applied = results.filter((r) => r.status === "applied").length;
 			const success = applied > 0;
 			const message = success
-				? { success, applied }
-				: { success, applied, reason: "No suggestions applied" };
+				? { success, applied, results }
+				: { success, applied, reason: "No changes applied", results };
 			return { content: [{ type: "text", text: JSON.stringify(message) }] };
 		},
 	);
 
-	// Tool 3: Generate AI Content At End (Stream)
+	// Tool 4: Generate AI Content At End (Stream)
 	server.registerTool(
 		"generate_ai_content",
 		{
@@ -188,5 +332,145 @@ export const useNoteMCP = (
 		},
 	);
 
+	// Pending suggestions narrowed by ids, category and author
+	const suggestionFilter = {
+		ids: z
+			.array(z.string())
+			.describe(
+				"Suggestion ids, as returned by edit_content or list_suggestions.",
+			)
+			.optional(),
+		category: z
+			.string()
+			.describe("Only suggestions of this category (case-insensitive).")
+			.optional(),
+		user: z
+			.string()
+			.describe("Only suggestions by this author, e.g. AI.")
+			.optional(),
+	};
+	type SuggestionFilter = {
+		ids?: string[];
+		category?: string;
+		user?: string;
+	};
+	const filterSuggestions = (
+		pending: SuggestionInfo[],
+		{ ids, category, user }: SuggestionFilter,
+	) =>
+		pending.filter(
+			(s) =>
+				(!ids || ids.includes(s.id)) &&
+				(!category || s.category.toLowerCase() === category.toLowerCase()) &&
+				(!user || s.user.toLowerCase() === user.toLowerCase()),
+		);
+	const jsonResult = (value: unknown, isError = false) => ({
+		content: [{ type: "text" as const, text: JSON.stringify(value) }],
+		...(isError ? { isError } : {}),
+	});
+
+	// Tool 5: List Suggestions
+	server.registerTool(
+		"list_suggestions",
+		{
+			title: "List Suggestions",
+			description:
+				"List pending suggestions in document order with id, type, category, reason, author, timestamp and the text they delete and insert.",
+			inputSchema: {
+				category: suggestionFilter.category,
+				user: suggestionFilter.user,
+			},
+		},
+		async (filter) => {
+			const suggestions = filterSuggestions(
+				listSuggestions(editor.state.doc),
+				filter,
+			).map(({ from: _from, to: _to, ts, ...s }) => ({
+				...s,
+				createdAt: ts ? new Date(ts).toISOString() : undefined,
+			}));
+			return jsonResult({ count: suggestions.length, suggestions });
+		},
+	);
+
+	// Tools 6 and 7: Accept / Reject Suggestions
+	for (const action of ["accept", "reject"] as const) {
+		server.registerTool(
+			`${action}_suggestions`,
+			{
+				title: `${action === "accept" ? "Accept" : "Reject"} Suggestions`,
+				description: `${action === "accept" ? "Accept" : "Reject"} pending suggestions on the user's behalf, selected by ids, category and/or author, or all of them with all=true. Only do this when the user asks.`,
+				inputSchema: {
+					...suggestionFilter,
+					all: z
+						.boolean()
+						.describe(
+							"Select every pending suggestion; needed when no filter is given.",
+						)
+						.optional(),
+				},
+			},
+			async ({ all, ...filter }) => {
+				if (!all && !filter.ids && !filter.category && !filter.user) {
+					return jsonResult(
+						{
+							success: false,
+							reason: "Pass ids, category or user, or all=true",
+						},
+						true,
+					);
+				}
+				const pending = listSuggestions(editor.state.doc);
+				const ids = filterSuggestions(pending, filter).map((s) => s.id);
+				const notFound = (filter.ids ?? []).filter((id) => !ids.includes(id));
+				if (ids.length > 0) {
+					editor.exec(
+						action === "accept"
+							? acceptSuggestionsById(ids)
+							: rejectSuggestionsById(ids),
+					);
+				}
+				return jsonResult({
+					success: ids.length > 0,
+					[action === "accept" ? "accepted" : "rejected"]: ids,
+					...(notFound.length > 0 ? { notFound } : {}),
+					remaining: pending.length - ids.length,
+				});
+			},
+		);
+	}
+
+	// Tool 8: Withdraw Suggestion
+	server.registerTool(
+		"withdraw_suggestion",
+		{
+			title: "Withdraw Suggestion",
+			description:
+				"Withdraw one of your own pending suggestions that is stale or wrong, restoring the original text. Suggestions made by the user cannot be withdrawn.",
+			inputSchema: {
+				id: z.string().describe("Id of the suggestion to withdraw."),
+			},
+		},
+		async ({ id }) => {
+			const suggestion = listSuggestions(editor.state.doc).find(
+				(s) => s.id === id,
+			);
+			if (!suggestion) {
+				return jsonResult(
+					{ success: false, reason: `No pending suggestion with id ${id}` },
+					true,
+				);
+			}
+			if (suggestion.source !== "ai") {
+				return jsonResult(
+					{ success: false, reason: "Only AI suggestions can be withdrawn" },
+					true,
+				);
+			}
+			editor.exec(rejectSuggestionsById([id]));
+			return jsonResult({ success: true, withdrawn: id });
+		},
+	);
+
 	useNuwaMCP(server);
 };